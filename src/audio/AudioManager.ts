@@ -12,7 +12,7 @@ interface AudioConfig {
   enabled: boolean;
 }
 
-interface AudioTrack {
+export interface AudioTrack {
   id: string;
   path: string;
   loop: boolean;
@@ -20,8 +20,6 @@ interface AudioTrack {
   category: 'sfx' | 'music';
 }
 
-type AudioLoadCallback = (success: boolean) => void;
-
 /**
  * Manages all audio operations including loading, playing, and controlling sound effects and music
  */
@@ -65,30 +63,32 @@ export class AudioManager {
   }
 
   /**
-   * Loads an audio file and stores it in the buffer
-   * @param track Audio track information
-   * @param callback Callback function after loading completes
+   * Decodes audio data fetched by the AssetManager and stores it in the buffer
+   * @param trackId ID the track is played by
+   * @param data Encoded audio file contents
    */
-  public async loadAudio(track: AudioTrack, callback?: AudioLoadCallback): Promise<void> {
+  public async decodeAudio(trackId: string, data: ArrayBuffer): Promise<void> {
     if (!this.audioContext) {
-      callback?.(false);
       throw new Error('Audio context not initialized');
     }
 
     try {
-      const response = await fetch(track.path);
-      const arrayBuffer = await response.arrayBuffer();
-      const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-      
-      this.audioBuffers.set(track.id, audioBuffer);
-      callback?.(true);
+      const audioBuffer = await this.audioContext.decodeAudioData(data);
+      this.audioBuffers.set(trackId, audioBuffer);
     } catch (error) {
-      console.error(`Error loading audio ${track.id}:`, error);
-      callback?.(false);
-      throw new Error(`Failed to load audio: ${track.id}`);
+      console.error(`Error decoding audio ${trackId}:`, error);
+      throw new Error(`Failed to decode audio: ${trackId}`);
     }
   }
 
+  /**
+   * Checks whether a track has been decoded and can be played
+   * @param trackId ID of the track
+   */
+  public hasAudio(trackId: string): boolean {
+    return this.audioBuffers.has(trackId);
+  }
+
   /**
    * Plays an audio track
    * @param trackId ID of the track to play
@@ -170,6 +170,39 @@ export class AudioManager {
     });
   }
 
+  /**
+   * Suspends the audio context, freezing every playing sound in place
+   */
+  public async suspend(): Promise<void> {
+    if (!this.audioContext || this.audioContext.state !== 'running') return;
+
+    try {
+      await this.audioContext.suspend();
+    } catch (error) {
+      console.error('Error suspending audio context:', error);
+    }
+  }
+
+  /**
+   * Resumes a suspended audio context
+   */
+  public async resume(): Promise<void> {
+    if (!this.audioContext || this.audioContext.state !== 'suspended') return;
+
+    try {
+      await this.audioContext.resume();
+    } catch (error) {
+      console.error('Error resuming audio context:', error);
+    }
+  }
+
+  /**
+   * Checks whether the audio context is suspended
+   */
+  public isSuspended(): boolean {
+    return this.audioContext?.state === 'suspended';
+  }
+
   /**
    * Releases all audio resources
    */
@@ -43,6 +43,7 @@ export class MusicPlayer {
   private fadeDuration: number;
   private defaultVolume: number;
   private autoPlay: boolean;
+  private paused: boolean = false;
 
   /**
    * Creates a new MusicPlayer instance
@@ -101,6 +102,45 @@ export class MusicPlayer {
     }
   }
 
+  /**
+   * Pauses playback and freezes any fade in progress
+   */
+  public pause(): void {
+    if (this.paused) return;
+
+    this.paused = true;
+    [this.currentTrack, this.nextTrack].forEach(track => {
+      if (track?.isPlaying) {
+        track.audio.pause();
+      }
+    });
+  }
+
+  /**
+   * Resumes playback and any fade that was in progress
+   */
+  public async resume(): Promise<void> {
+    if (!this.paused) return;
+
+    this.paused = false;
+    const tracks = [this.currentTrack, this.nextTrack].filter(
+      (track): track is TrackState => !!track && track.isPlaying
+    );
+
+    try {
+      await Promise.all(tracks.map(track => track.audio.play()));
+    } catch (error) {
+      console.error('Failed to resume music playback:', error);
+    }
+  }
+
+  /**
+   * Checks whether playback is paused
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
   /**
    * Sets the master volume for all playing tracks
    * @param volume Volume level (0.0 to 1.0)
@@ -153,6 +193,8 @@ export class MusicPlayer {
 
       let volume = 0;
       const interval = setInterval(() => {
+        if (this.paused) return;
+
         volume = Math.min(volume + VOLUME_STEP, this.defaultVolume);
         track.audio.volume = volume;
         track.volume = volume;
@@ -173,6 +215,8 @@ export class MusicPlayer {
     return new Promise((resolve) => {
       let volume = track.volume;
       const interval = setInterval(() => {
+        if (this.paused) return;
+
         volume = Math.max(volume - VOLUME_STEP, 0);
         track.audio.volume = volume;
         track.volume = volume;
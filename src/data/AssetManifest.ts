@@ -0,0 +1,38 @@
+/**
+ * @file AssetManifest.ts
+ * @description Assets preloaded by the LoadingState before the menu opens. Sprites are
+ * rasterised from data/InvaderBitmaps, so the manifest only lists sounds.
+ *
+ * @module AssetManifest
+ * @version 1.0.0
+ */
+
+import { AssetManifest } from '../managers/AssetManager';
+
+// =========================================================
+// Asset IDs
+// =========================================================
+
+/**
+ * IDs under which preloaded sounds are played through the AudioManager
+ */
+export const SOUND_IDS = {
+    PLAYER_SHOOT: 'player-shoot',
+    PLAYER_MOVE: 'player-move'
+} as const;
+
+// =========================================================
+// Manifest
+// =========================================================
+
+/**
+ * Assets loaded at startup. Sound effects are optional: the game is playable
+ * without them, so a failed sound does not block the menu.
+ */
+export const ASSET_MANIFEST: AssetManifest = {
+    baseUrl: 'assets',
+    assets: [
+        { id: SOUND_IDS.PLAYER_SHOOT, type: 'audio', url: 'sounds/shoot.mp3', category: 'sfx', required: false },
+        { id: SOUND_IDS.PLAYER_MOVE, type: 'audio', url: 'sounds/move.mp3', category: 'sfx', required: false }
+    ]
+};
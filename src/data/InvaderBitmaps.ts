@@ -0,0 +1,281 @@
+/**
+ * @file InvaderBitmaps.ts
+ * @description Pixel-art bitmaps for invaders, the player ship and explosions, with a colour
+ * palette per enemy type. Rasterised at startup by engine/PixelArt, so the game does not need
+ * sprite PNGs.
+ *
+ * @module InvaderBitmaps
+ * @version 1.0.0
+ */
+
+import { EnemyType } from './WaveConfigs';
+import { BitmapDefinition, BitmapPalette, createBitmapSprite } from '../engine/PixelArt';
+import { Sprite } from '../engine/Sprite';
+import { RenderLayer } from '../render/RenderLayer';
+
+// =========================================================
+// Bitmaps
+// =========================================================
+
+// Bitmap characters: '#' body, 'x' accent (eyes, lights), '.' transparent
+
+/**
+ * Classic 11x8 crab, two marching frames
+ */
+const CRAB_BITMAP: BitmapDefinition = {
+    name: 'crab',
+    palette: { '#': '#ffffff', 'x': '#ffffff' },
+    frames: [
+        [
+            '..#.....#..',
+            '...#...#...',
+            '..#######..',
+            '.##x###x##.',
+            '###########',
+            '#.#######.#',
+            '#.#.....#.#',
+            '...##.##...'
+        ],
+        [
+            '..#.....#..',
+            '#..#...#..#',
+            '#.#######.#',
+            '###x###x###',
+            '###########',
+            '.#########.',
+            '..#.....#..',
+            '.#.......#.'
+        ]
+    ]
+};
+
+/**
+ * 8x8 squid, two marching frames
+ */
+const SQUID_BITMAP: BitmapDefinition = {
+    name: 'squid',
+    palette: { '#': '#ffffff', 'x': '#ffffff' },
+    frames: [
+        [
+            '...##...',
+            '..####..',
+            '.######.',
+            '##x##x##',
+            '########',
+            '..#..#..',
+            '.#.##.#.',
+            '#.#..#.#'
+        ],
+        [
+            '...##...',
+            '..####..',
+            '.######.',
+            '##x##x##',
+            '########',
+            '.#.##.#.',
+            '#......#',
+            '.#....#.'
+        ]
+    ]
+};
+
+/**
+ * 12x8 octopus, two marching frames
+ */
+const OCTOPUS_BITMAP: BitmapDefinition = {
+    name: 'octopus',
+    palette: { '#': '#ffffff', 'x': '#ffffff' },
+    frames: [
+        [
+            '....####....',
+            '.##########.',
+            '############',
+            '###xx##xx###',
+            '############',
+            '...##..##...',
+            '..##.##.##..',
+            '##........##'
+        ],
+        [
+            '....####....',
+            '.##########.',
+            '############',
+            '###xx##xx###',
+            '############',
+            '..###..###..',
+            '.##..##..##.',
+            '..##....##..'
+        ]
+    ]
+};
+
+/**
+ * 16x7 mystery ship, two frames of blinking lights
+ */
+const SAUCER_BITMAP: BitmapDefinition = {
+    name: 'saucer',
+    palette: { '#': '#ffffff', 'x': '#ffffff' },
+    frames: [
+        [
+            '.....######.....',
+            '...##########...',
+            '..############..',
+            '.##x##x##x##x##.',
+            '################',
+            '..###..##..###..',
+            '...#........#...'
+        ],
+        [
+            '.....######.....',
+            '...##########...',
+            '..############..',
+            '.#x##x##x##x##x.',
+            '################',
+            '..###..##..###..',
+            '...#........#...'
+        ]
+    ]
+};
+
+/**
+ * Player cannon, 13x8
+ */
+export const PLAYER_BITMAP: BitmapDefinition = {
+    name: 'player',
+    palette: { '#': '#33ff66' },
+    frames: [
+        [
+            '......#......',
+            '.....###.....',
+            '.....###.....',
+            '.###########.',
+            '#############',
+            '#############',
+            '#############',
+            '#############'
+        ]
+    ]
+};
+
+/**
+ * Invader explosion, 13x8, three frames fading out
+ */
+export const EXPLOSION_BITMAP: BitmapDefinition = {
+    name: 'explosion',
+    palette: { '#': '#ffffff', 'x': '#ffcc00' },
+    frames: [
+        [
+            '....#...#....',
+            '.#...#.#...#.',
+            '..#..xxx..#..',
+            '...#xxxxx#...',
+            '##.xxxxxxx.##',
+            '...#xxxxx#...',
+            '..#..xxx..#..',
+            '.#...#.#...#.'
+        ],
+        [
+            '.#....#....#.',
+            '..#.......#..',
+            '.....x.x.....',
+            '#..x.....x..#',
+            '.............',
+            '#..x.....x..#',
+            '.....x.x.....',
+            '..#.......#..'
+        ],
+        [
+            '#...........#',
+            '.............',
+            '......x......',
+            '.............',
+            '.x.........x.',
+            '.............',
+            '......x......',
+            '#...........#'
+        ]
+    ]
+};
+
+/**
+ * Shape drawn for each enemy type
+ */
+export const ENEMY_BITMAPS: Record<EnemyType, BitmapDefinition> = {
+    [EnemyType.BASIC]: CRAB_BITMAP,
+    [EnemyType.FAST]: SQUID_BITMAP,
+    [EnemyType.TANK]: OCTOPUS_BITMAP,
+    [EnemyType.BOSS]: SAUCER_BITMAP
+};
+
+/**
+ * Colours per enemy type, replacing the white of the shared bitmaps
+ */
+export const ENEMY_PALETTES: Record<EnemyType, BitmapPalette> = {
+    [EnemyType.BASIC]: { '#': '#ffffff', 'x': null },
+    [EnemyType.FAST]: { '#': '#33ccff', 'x': '#003344' },
+    [EnemyType.TANK]: { '#': '#66ff33', 'x': '#ff3333' },
+    [EnemyType.BOSS]: { '#': '#ff3366', 'x': '#ffff66' }
+};
+
+// =========================================================
+// Constants
+// =========================================================
+
+/** Whole-pixel scale invaders are drawn at */
+export const DEFAULT_PIXEL_SCALE = 3;
+
+/** Frames per second of the marching animation */
+const MARCH_FPS = 2;
+
+/** Frames per second of the explosion animation */
+const EXPLODE_FPS = 12;
+
+// =========================================================
+// Factories
+// =========================================================
+
+/**
+ * Creates a sprite for an enemy type with a looping 'march' clip. Enemies of the same type
+ * share one texture.
+ * @param type - Enemy type to draw
+ * @param scale - Whole-pixel scale
+ * @returns Sprite ready to be drawn
+ */
+export function createEnemySprite(type: EnemyType, scale: number = DEFAULT_PIXEL_SCALE): Sprite {
+    return createBitmapSprite(ENEMY_BITMAPS[type], {
+        scale,
+        palette: ENEMY_PALETTES[type],
+        variant: type,
+        layer: RenderLayer.SHIPS,
+        clips: {
+            march: { start: 0, end: 1, fps: MARCH_FPS }
+        }
+    });
+}
+
+/**
+ * Creates an explosion sprite tinted for an enemy type, with a one-shot 'explode' clip
+ * @param type - Enemy type whose body colour the explosion uses
+ * @param scale - Whole-pixel scale
+ * @returns Sprite ready to be drawn
+ */
+export function createExplosionSprite(type: EnemyType, scale: number = DEFAULT_PIXEL_SCALE): Sprite {
+    return createBitmapSprite(EXPLOSION_BITMAP, {
+        scale,
+        palette: { '#': ENEMY_PALETTES[type]['#'] },
+        variant: type,
+        layer: RenderLayer.EFFECTS,
+        clips: {
+            explode: { fps: EXPLODE_FPS, mode: 'once' }
+        }
+    });
+}
+
+/**
+ * Creates the player ship sprite
+ * @param scale - Whole-pixel scale
+ * @returns Sprite ready to be drawn
+ */
+export function createPlayerSprite(scale: number = DEFAULT_PIXEL_SCALE): Sprite {
+    return createBitmapSprite(PLAYER_BITMAP, { scale, layer: RenderLayer.SHIPS });
+}
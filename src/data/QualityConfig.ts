@@ -0,0 +1,93 @@
+/**
+ * @file QualityConfig.ts
+ * @description Configuration for rendering quality tiers.
+ * Each tier caps the cost of visual effects so low-end devices can hold a stable frame rate.
+ *
+ * @module QualityConfig
+ * @version 1.0.0
+ */
+
+// =========================================================
+// Types & Interfaces
+// =========================================================
+
+/**
+ * Available quality tiers, from most to least expensive
+ */
+export enum QualityTier {
+    HIGH = 'HIGH',
+    MEDIUM = 'MEDIUM',
+    LOW = 'LOW',
+    MINIMAL = 'MINIMAL'
+}
+
+/**
+ * Settings applied by a quality tier
+ */
+export interface QualitySettings {
+    /** Upper bound on live particles per emitter */
+    maxParticles: number;
+    /** Multiplier applied to particle emission rates and bursts */
+    particleDensity: number;
+    /** Whether motion trails are drawn */
+    trails: boolean;
+    /** Whether full-screen effects (shake, post-processing) are enabled */
+    screenEffects: boolean;
+    /** Canvas backing store resolution relative to the logical resolution */
+    resolutionScale: number;
+}
+
+/**
+ * Implemented by systems that adapt to the active quality tier
+ */
+export interface QualityAware {
+    applyQuality(settings: QualitySettings): void;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+/**
+ * Tiers ordered from highest to lowest quality
+ */
+export const QUALITY_TIER_ORDER: readonly QualityTier[] = [
+    QualityTier.HIGH,
+    QualityTier.MEDIUM,
+    QualityTier.LOW,
+    QualityTier.MINIMAL
+];
+
+/**
+ * Settings for each quality tier
+ */
+export const QUALITY_PRESETS: Record<QualityTier, QualitySettings> = {
+    [QualityTier.HIGH]: {
+        maxParticles: 500,
+        particleDensity: 1.0,
+        trails: true,
+        screenEffects: true,
+        resolutionScale: 1.0
+    },
+    [QualityTier.MEDIUM]: {
+        maxParticles: 250,
+        particleDensity: 0.75,
+        trails: true,
+        screenEffects: true,
+        resolutionScale: 1.0
+    },
+    [QualityTier.LOW]: {
+        maxParticles: 100,
+        particleDensity: 0.5,
+        trails: false,
+        screenEffects: false,
+        resolutionScale: 0.75
+    },
+    [QualityTier.MINIMAL]: {
+        maxParticles: 30,
+        particleDensity: 0.25,
+        trails: false,
+        screenEffects: false,
+        resolutionScale: 0.5
+    }
+};
@@ -4,6 +4,9 @@
  * Handles particle creation, lifecycle management, and rendering
  */
 
+import { QualityAware, QualitySettings } from '../data/QualityConfig';
+import { lerp } from '../engine/Interpolation';
+
 // Types and interfaces
 interface ParticleConfig {
     x: number;
@@ -32,6 +35,7 @@ interface Vector2D {
  */
 class Particle {
     private position: Vector2D;
+    private previousPosition: Vector2D;
     private velocity: Vector2D;
     private life: number;
     private maxLife: number;
@@ -40,6 +44,7 @@ class Particle {
 
     constructor(config: ParticleConfig) {
         this.position = { x: config.x, y: config.y };
+        this.previousPosition = { x: config.x, y: config.y };
         this.velocity = {
             x: Math.cos(config.direction) * config.speed,
             y: Math.sin(config.direction) * config.speed
@@ -59,6 +64,7 @@ class Particle {
         this.life -= deltaTime;
         if (this.life <= 0) return false;
 
+        this.previousPosition = { ...this.position };
         this.position.x += this.velocity.x * deltaTime;
         this.position.y += this.velocity.y * deltaTime;
         return true;
@@ -73,13 +79,26 @@ class Particle {
 
     /**
      * Renders the particle to the provided context
+     * @param interpolation Blend factor between the previous and current update
+     * @param trails Whether to draw a motion trail back to the previous position
      */
-    public render(ctx: CanvasRenderingContext2D): void {
+    public render(ctx: CanvasRenderingContext2D, interpolation: number = 1, trails: boolean = false): void {
         const opacity = this.getOpacity();
+        const x = lerp(this.previousPosition.x, this.position.x, interpolation);
+        const y = lerp(this.previousPosition.y, this.position.y, interpolation);
         ctx.globalAlpha = opacity;
+        if (trails) {
+            ctx.strokeStyle = this.color;
+            ctx.lineWidth = this.size;
+            ctx.lineCap = 'round';
+            ctx.beginPath();
+            ctx.moveTo(this.previousPosition.x, this.previousPosition.y);
+            ctx.lineTo(x, y);
+            ctx.stroke();
+        }
         ctx.fillStyle = this.color;
         ctx.beginPath();
-        ctx.arc(this.position.x, this.position.y, this.size, 0, Math.PI * 2);
+        ctx.arc(x, y, this.size, 0, Math.PI * 2);
         ctx.fill();
         ctx.globalAlpha = 1;
     }
@@ -88,11 +107,15 @@ class Particle {
 /**
  * Particle Emitter class responsible for managing particle lifecycle
  */
-export class ParticleEmitter {
+export class ParticleEmitter implements QualityAware {
     private particles: Particle[] = [];
     private config: EmitterConfig;
     private lastEmission: number = 0;
     private active: boolean = false;
+    private particleCap: number = Infinity;
+    private density: number = 1;
+    /** Off until a quality tier that allows trails is applied */
+    private trails: boolean = false;
 
     /**
      * Creates a new particle emitter
@@ -161,12 +184,12 @@ export class ParticleEmitter {
         );
 
         // Emit new particles if active
-        if (this.active) {
+        if (this.active && this.density > 0) {
             const currentTime = Date.now();
-            const emissionDelay = 1000 / this.config.emissionRate;
+            const emissionDelay = 1000 / (this.config.emissionRate * this.density);
 
             if (currentTime - this.lastEmission >= emissionDelay) {
-                if (this.particles.length < this.config.maxParticles) {
+                if (this.particles.length < this.getMaxParticles()) {
                     this.particles.push(this.createParticle());
                     this.lastEmission = currentTime;
                 }
@@ -177,10 +200,11 @@ export class ParticleEmitter {
     /**
      * Renders all particles
      * @param ctx Canvas rendering context
+     * @param interpolation Blend factor from the game loop between the previous and current update
      */
-    public render(ctx: CanvasRenderingContext2D): void {
+    public render(ctx: CanvasRenderingContext2D, interpolation: number = 1): void {
         for (const particle of this.particles) {
-            particle.render(ctx);
+            particle.render(ctx, interpolation, this.trails);
         }
     }
 
@@ -191,6 +215,28 @@ export class ParticleEmitter {
         return this.particles.length;
     }
 
+    /**
+     * Caps particle count and emission rate and toggles trails for the active quality tier
+     * @param settings Quality tier settings
+     */
+    public applyQuality(settings: QualitySettings): void {
+        this.particleCap = settings.maxParticles;
+        this.density = settings.particleDensity;
+        this.trails = settings.trails;
+
+        const max = this.getMaxParticles();
+        if (this.particles.length > max) {
+            this.particles.splice(0, this.particles.length - max);
+        }
+    }
+
+    /**
+     * Gets the effective particle limit
+     */
+    private getMaxParticles(): number {
+        return Math.min(this.config.maxParticles, this.particleCap);
+    }
+
     /**
      * Updates emitter position
      * @param position New position vector
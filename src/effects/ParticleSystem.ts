@@ -5,6 +5,11 @@
  * managing particle emitters and individual particles.
  */
 
+import { TimeChannel, TimeChannelBinding, TimeScale, applyTimeChannel } from '../engine/TimeScale';
+import { FrameProfiler } from '../utils/Performance';
+import { QualityAware, QualitySettings } from '../data/QualityConfig';
+import { lerp } from '../engine/Interpolation';
+
 // Types and interfaces
 interface Vector2D {
   x: number;
@@ -33,6 +38,7 @@ interface EmitterConfig {
  */
 class Particle {
   private position: Vector2D;
+  private previousPosition: Vector2D;
   private velocity: Vector2D;
   private color: string;
   private size: number;
@@ -42,6 +48,7 @@ class Particle {
 
   constructor(config: ParticleConfig) {
     this.position = { ...config.position };
+    this.previousPosition = { ...config.position };
     this.velocity = { ...config.velocity };
     this.color = config.color;
     this.size = config.size;
@@ -59,6 +66,7 @@ class Particle {
     this.life -= deltaTime;
     if (this.life <= 0) return false;
 
+    this.previousPosition = { ...this.position };
     this.position.x += this.velocity.x * deltaTime;
     this.position.y += this.velocity.y * deltaTime;
     this.alpha = (this.life / this.maxLife);
@@ -69,13 +77,27 @@ class Particle {
   /**
    * Renders the particle to the provided context
    * @param ctx Canvas rendering context
+   * @param interpolation Blend factor between the previous and current update
+   * @param trails Whether to draw a motion trail back to the previous position
    */
-  public render(ctx: CanvasRenderingContext2D): void {
+  public render(ctx: CanvasRenderingContext2D, interpolation: number = 1, trails: boolean = false): void {
+    const x = lerp(this.previousPosition.x, this.position.x, interpolation);
+    const y = lerp(this.previousPosition.y, this.position.y, interpolation);
+
     ctx.save();
     ctx.globalAlpha = this.alpha;
+    if (trails) {
+      ctx.strokeStyle = this.color;
+      ctx.lineWidth = this.size;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(this.previousPosition.x, this.previousPosition.y);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+    }
     ctx.fillStyle = this.color;
     ctx.beginPath();
-    ctx.arc(this.position.x, this.position.y, this.size, 0, Math.PI * 2);
+    ctx.arc(x, y, this.size, 0, Math.PI * 2);
     ctx.fill();
     ctx.restore();
   }
@@ -92,6 +114,10 @@ class ParticleEmitter {
   private maxParticles: number;
   private particleConfig: Partial<ParticleConfig>;
   private accumulatedTime: number = 0;
+  private particleCap: number = Infinity;
+  private density: number = 1;
+  /** Off until a quality tier that allows trails is applied */
+  private trails: boolean = false;
 
   constructor(config: EmitterConfig) {
     this.position = config.position;
@@ -132,12 +158,15 @@ class ParticleEmitter {
     this.particles = this.particles.filter(particle => particle.update(deltaTime));
 
     // Emit new particles
+    const rate = this.rate * this.density;
+    if (rate <= 0) return;
+
     this.accumulatedTime += deltaTime;
-    const particlesToEmit = Math.floor(this.accumulatedTime * this.rate);
-    this.accumulatedTime -= particlesToEmit / this.rate;
+    const particlesToEmit = Math.floor(this.accumulatedTime * rate);
+    this.accumulatedTime -= particlesToEmit / rate;
 
     for (let i = 0; i < particlesToEmit; i++) {
-      if (this.particles.length < this.maxParticles) {
+      if (this.particles.length < this.getMaxParticles()) {
         this.particles.push(this.createParticle());
       }
     }
@@ -146,28 +175,56 @@ class ParticleEmitter {
   /**
    * Renders all particles
    * @param ctx Canvas rendering context
+   * @param interpolation Blend factor between the previous and current update
    */
-  public render(ctx: CanvasRenderingContext2D): void {
-    this.particles.forEach(particle => particle.render(ctx));
+  public render(ctx: CanvasRenderingContext2D, interpolation: number = 1): void {
+    this.particles.forEach(particle => particle.render(ctx, interpolation, this.trails));
   }
 
   /**
    * Emits a burst of particles
    */
   public emit(): void {
-    for (let i = 0; i < this.burst; i++) {
-      if (this.particles.length < this.maxParticles) {
+    const burst = Math.ceil(this.burst * this.density);
+    for (let i = 0; i < burst; i++) {
+      if (this.particles.length < this.getMaxParticles()) {
         this.particles.push(this.createParticle());
       }
     }
   }
+
+  /**
+   * Applies quality limits, dropping the oldest particles above the new cap
+   * @param cap Maximum live particles allowed by the quality tier
+   * @param density Multiplier for emission rate and burst size
+   * @param trails Whether particles draw motion trails
+   */
+  public setQualityLimits(cap: number, density: number, trails: boolean): void {
+    this.particleCap = cap;
+    this.density = density;
+    this.trails = trails;
+
+    const max = this.getMaxParticles();
+    if (this.particles.length > max) {
+      this.particles.splice(0, this.particles.length - max);
+    }
+  }
+
+  /**
+   * Gets the effective particle limit
+   */
+  private getMaxParticles(): number {
+    return Math.min(this.maxParticles, this.particleCap);
+  }
 }
 
 /**
  * Main particle system manager
  */
-export class ParticleSystem {
+export class ParticleSystem implements QualityAware {
   private emitters: Map<string, ParticleEmitter> = new Map();
+  private timeBinding: TimeChannelBinding | null = null;
+  private quality: QualitySettings | null = null;
 
   /**
    * Creates a new particle emitter
@@ -179,7 +236,22 @@ export class ParticleSystem {
     if (this.emitters.has(id)) {
       throw new Error(`Emitter with ID '${id}' already exists`);
     }
-    this.emitters.set(id, new ParticleEmitter(config));
+    const emitter = new ParticleEmitter(config);
+    if (this.quality) {
+      emitter.setQualityLimits(this.quality.maxParticles, this.quality.particleDensity, this.quality.trails);
+    }
+    this.emitters.set(id, emitter);
+  }
+
+  /**
+   * Caps particle counts and emission density and toggles trails for the active quality tier
+   * @param settings Quality tier settings
+   */
+  public applyQuality(settings: QualitySettings): void {
+    this.quality = settings;
+    this.emitters.forEach(emitter =>
+      emitter.setQualityLimits(settings.maxParticles, settings.particleDensity, settings.trails)
+    );
   }
 
   /**
@@ -209,14 +281,27 @@ export class ParticleSystem {
    * @param deltaTime Time elapsed since last update in seconds
    */
   public update(deltaTime: number): void {
-    this.emitters.forEach(emitter => emitter.update(deltaTime));
+    const scaledDelta = applyTimeChannel(this.timeBinding, deltaTime);
+    FrameProfiler.getInstance().measure('particles', () => {
+      this.emitters.forEach(emitter => emitter.update(scaledDelta));
+    });
+  }
+
+  /**
+   * Opts particle updates into a time channel
+   * @param timeScale Time scale providing the channel
+   * @param channel Channel to follow (defaults to effects)
+   */
+  public useTimeChannel(timeScale: TimeScale, channel: TimeChannel = TimeChannel.EFFECTS): void {
+    this.timeBinding = { timeScale, channel };
   }
 
   /**
    * Renders all particle effects
    * @param ctx Canvas rendering context
+   * @param interpolation Blend factor from the game loop between the previous and current update
    */
-  public render(ctx: CanvasRenderingContext2D): void {
-    this.emitters.forEach(emitter => emitter.render(ctx));
+  public render(ctx: CanvasRenderingContext2D, interpolation: number = 1): void {
+    this.emitters.forEach(emitter => emitter.render(ctx, interpolation));
   }
 }
\ No newline at end of file
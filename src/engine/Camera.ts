@@ -0,0 +1,356 @@
+/**
+ * @file Camera.ts
+ * @module Camera
+ * @description 2D camera applied by Canvas as a transform before drawing world layers.
+ * The camera position is the world point at the top-left corner of the view, so a camera
+ * at (0, 0) leaves the world where it is; zoom, rotation and shake pivot on the view center.
+ * Supports trauma-based screen shake that decays over time, zoom, and eased pan and zoom
+ * transitions. Shake strength follows a reduced-motion setting and the quality tier.
+ */
+
+import { Easing, EasingFunction } from './Easing';
+import { TimeChannel, TimeChannelBinding, TimeScale, applyTimeChannel } from './TimeScale';
+import { QualityAware, QualitySettings } from '../data/QualityConfig';
+
+/**
+ * Configuration options for the camera
+ */
+export interface CameraConfig {
+    /** Largest shake offset in logical pixels, reached at full trauma */
+    maxShakeOffset: number;
+    /** Largest shake rotation in radians, reached at full trauma */
+    maxShakeAngle: number;
+    /** Trauma removed per second */
+    traumaDecay: number;
+    /** Speed of the shake noise */
+    shakeFrequency: number;
+    /** Multiplier applied to shake, between 0 (off) and 1 (full) */
+    motionScale: number;
+    /** Disables shake entirely; defaults to the prefers-reduced-motion media query */
+    reducedMotion: boolean;
+}
+
+/**
+ * Transform the camera applies for the current frame
+ */
+export interface CameraTransform {
+    /** World position at the top-left corner of the view (before zoom) */
+    x: number;
+    y: number;
+    zoom: number;
+    rotation: number;
+}
+
+/**
+ * In-flight transition of a camera property
+ */
+interface CameraTween {
+    from: number[];
+    to: number[];
+    duration: number;
+    elapsed: number;
+    easing: EasingFunction;
+}
+
+/**
+ * Default configuration for the camera
+ */
+const DEFAULT_CAMERA_CONFIG: CameraConfig = {
+    maxShakeOffset: 12,
+    maxShakeAngle: 0.05,
+    traumaDecay: 1.5,
+    shakeFrequency: 25,
+    motionScale: 1,
+    reducedMotion: false
+};
+
+const MIN_ZOOM = 0.1;
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Checks the user's reduced-motion preference
+ */
+function prefersReducedMotion(): boolean {
+    try {
+        return typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+    } catch (error) {
+        console.warn('Failed to read reduced motion preference:', error);
+        return false;
+    }
+}
+
+/**
+ * Smooth pseudo-random value in [-1, 1] for shake, deterministic for a given time and seed
+ */
+function shakeNoise(time: number, seed: number): number {
+    return (Math.sin(time + seed) + Math.sin(time * 2.3 + seed * 1.7)) * 0.5;
+}
+
+/**
+ * 2D camera with shake, zoom and pan
+ */
+export class Camera implements QualityAware {
+    private config: CameraConfig;
+    private x: number;
+    private y: number;
+    private zoom: number;
+    private trauma: number;
+    private shakeTime: number;
+    private shakeEnabled: boolean;
+    private panTween: CameraTween | null;
+    private zoomTween: CameraTween | null;
+    private timeBinding: TimeChannelBinding | null;
+
+    /**
+     * Creates a new Camera instance
+     * @param x - Initial world position at the top-left corner of the view
+     * @param y - Initial world position at the top-left corner of the view
+     * @param config - Optional configuration to override defaults
+     */
+    constructor(x: number = 0, y: number = 0, config: Partial<CameraConfig> = {}) {
+        this.config = {
+            ...DEFAULT_CAMERA_CONFIG,
+            reducedMotion: prefersReducedMotion(),
+            ...config
+        };
+        this.x = x;
+        this.y = y;
+        this.zoom = 1;
+        this.trauma = 0;
+        this.shakeTime = 0;
+        this.shakeEnabled = true;
+        this.panTween = null;
+        this.zoomTween = null;
+        this.timeBinding = null;
+    }
+
+    /**
+     * Follows a time channel so shake and transitions respect slow motion
+     * @param timeScale - Time scale providing the channel
+     * @param channel - Channel to follow (defaults to effects)
+     */
+    public useTimeChannel(timeScale: TimeScale, channel: TimeChannel = TimeChannel.EFFECTS): void {
+        this.timeBinding = { timeScale, channel };
+    }
+
+    /**
+     * Advances shake decay and transitions
+     * @param deltaTime - Elapsed time in milliseconds
+     */
+    public update(deltaTime: number): void {
+        const scaledDelta = applyTimeChannel(this.timeBinding, deltaTime);
+        const seconds = scaledDelta / 1000;
+
+        this.trauma = Math.max(0, this.trauma - this.config.traumaDecay * seconds);
+        this.shakeTime += seconds * this.config.shakeFrequency;
+
+        if (this.panTween) {
+            const [x, y] = this.advanceTween(this.panTween, scaledDelta);
+            this.x = x;
+            this.y = y;
+            if (this.panTween.elapsed >= this.panTween.duration) {
+                this.panTween = null;
+            }
+        }
+
+        if (this.zoomTween) {
+            this.zoom = this.advanceTween(this.zoomTween, scaledDelta)[0];
+            if (this.zoomTween.elapsed >= this.zoomTween.duration) {
+                this.zoomTween = null;
+            }
+        }
+    }
+
+    /**
+     * Adds shake trauma; shake strength grows with the square of trauma
+     * @param amount - Trauma to add, clamped so the total stays within 0 and 1
+     */
+    public addTrauma(amount: number): void {
+        this.trauma = Math.max(0, Math.min(1, this.trauma + amount));
+    }
+
+    /**
+     * Gets the current trauma level
+     */
+    public getTrauma(): number {
+        return this.trauma;
+    }
+
+    /**
+     * Moves the camera immediately, cancelling any pan
+     * @param x - World position for the top-left corner of the view
+     * @param y - World position for the top-left corner of the view
+     */
+    public setPosition(x: number, y: number): void {
+        this.x = x;
+        this.y = y;
+        this.panTween = null;
+    }
+
+    /**
+     * Gets the camera position without shake
+     */
+    public getPosition(): { x: number; y: number } {
+        return { x: this.x, y: this.y };
+    }
+
+    /**
+     * Pans smoothly to a position
+     * @param x - Target world position
+     * @param y - Target world position
+     * @param duration - Transition duration in milliseconds
+     * @param easing - Easing curve
+     */
+    public panTo(x: number, y: number, duration: number, easing: EasingFunction = Easing.easeInOutQuad): void {
+        if (duration <= 0) {
+            this.setPosition(x, y);
+            return;
+        }
+        this.panTween = { from: [this.x, this.y], to: [x, y], duration, elapsed: 0, easing };
+    }
+
+    /**
+     * Sets the zoom immediately, cancelling any zoom transition
+     * @param zoom - Zoom factor (2 shows the world twice as large)
+     */
+    public setZoom(zoom: number): void {
+        this.zoom = Math.max(MIN_ZOOM, zoom);
+        this.zoomTween = null;
+    }
+
+    /**
+     * Gets the zoom factor
+     */
+    public getZoom(): number {
+        return this.zoom;
+    }
+
+    /**
+     * Zooms smoothly to a factor
+     * @param zoom - Target zoom factor
+     * @param duration - Transition duration in milliseconds
+     * @param easing - Easing curve
+     */
+    public zoomTo(zoom: number, duration: number, easing: EasingFunction = Easing.easeInOutQuad): void {
+        const target = Math.max(MIN_ZOOM, zoom);
+        if (duration <= 0) {
+            this.setZoom(target);
+            return;
+        }
+        this.zoomTween = { from: [this.zoom], to: [target], duration, elapsed: 0, easing };
+    }
+
+    /**
+     * Checks whether a pan or zoom transition is running
+     */
+    public isTransitioning(): boolean {
+        return this.panTween !== null || this.zoomTween !== null;
+    }
+
+    /**
+     * Turns reduced motion on or off; when on, shake is disabled
+     * @param reduced - Whether to reduce motion
+     */
+    public setReducedMotion(reduced: boolean): void {
+        this.config.reducedMotion = reduced;
+    }
+
+    /**
+     * Checks whether reduced motion is active
+     */
+    public isReducedMotion(): boolean {
+        return this.config.reducedMotion;
+    }
+
+    /**
+     * Scales shake strength
+     * @param scale - Multiplier between 0 (no shake) and 1 (full shake)
+     */
+    public setMotionScale(scale: number): void {
+        this.config.motionScale = Math.max(0, Math.min(1, scale));
+    }
+
+    /**
+     * Disables shake on tiers without screen effects
+     * @param settings - Quality tier settings
+     */
+    public applyQuality(settings: QualitySettings): void {
+        this.shakeEnabled = settings.screenEffects;
+    }
+
+    /**
+     * Gets the transform for the current frame, including shake
+     */
+    public getTransform(): CameraTransform {
+        const intensity = this.getShakeIntensity();
+        if (intensity === 0) {
+            return { x: this.x, y: this.y, zoom: this.zoom, rotation: 0 };
+        }
+
+        return {
+            x: this.x + this.config.maxShakeOffset * intensity * shakeNoise(this.shakeTime, 1),
+            y: this.y + this.config.maxShakeOffset * intensity * shakeNoise(this.shakeTime, 2),
+            zoom: this.zoom,
+            rotation: this.config.maxShakeAngle * intensity * shakeNoise(this.shakeTime, 3)
+        };
+    }
+
+    /**
+     * Applies the camera transform to a context, scrolling by the camera position and
+     * zooming and rotating around the view center
+     * @param ctx - Context to transform
+     * @param viewWidth - Logical view width
+     * @param viewHeight - Logical view height
+     */
+    public applyTransform(ctx: CanvasRenderingContext2D, viewWidth: number, viewHeight: number): void {
+        const transform = this.getTransform();
+        ctx.translate(viewWidth / 2, viewHeight / 2);
+        ctx.rotate(transform.rotation);
+        ctx.scale(transform.zoom, transform.zoom);
+        ctx.translate(-transform.x - viewWidth / 2, -transform.y - viewHeight / 2);
+    }
+
+    /**
+     * Converts a point in view coordinates to world coordinates, ignoring shake
+     * @param viewX - Horizontal position in logical view units
+     * @param viewY - Vertical position in logical view units
+     * @param viewWidth - Logical view width
+     * @param viewHeight - Logical view height
+     */
+    public viewToWorld(viewX: number, viewY: number, viewWidth: number, viewHeight: number): { x: number; y: number } {
+        return {
+            x: (viewX - viewWidth / 2) / this.zoom + viewWidth / 2 + this.x,
+            y: (viewY - viewHeight / 2) / this.zoom + viewHeight / 2 + this.y
+        };
+    }
+
+    /**
+     * Stops shake and transitions
+     */
+    public reset(): void {
+        this.trauma = 0;
+        this.panTween = null;
+        this.zoomTween = null;
+    }
+
+    /**
+     * Effective shake strength after trauma, settings and quality
+     * @private
+     */
+    private getShakeIntensity(): number {
+        if (!this.shakeEnabled || this.config.reducedMotion) {
+            return 0;
+        }
+        return this.trauma * this.trauma * this.config.motionScale;
+    }
+
+    /**
+     * Advances a tween and returns its current values
+     * @private
+     */
+    private advanceTween(tween: CameraTween, deltaTime: number): number[] {
+        tween.elapsed = Math.min(tween.duration, tween.elapsed + deltaTime);
+        const t = tween.easing(tween.elapsed / tween.duration);
+        return tween.from.map((from, index) => from + (tween.to[index] - from) * t);
+    }
+}
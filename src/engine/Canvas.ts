@@ -1,18 +1,59 @@
 /**
  * @file Canvas.ts
- * @description Canvas management module that handles HTML5 Canvas initialization and rendering
+ * @description Canvas management module that handles HTML5 Canvas initialization and rendering.
+ * Drawing happens in a fixed logical resolution that is scaled to fit the container with
+ * letterboxing or pillarboxing, rendered sharply on high-DPI screens. Content is split into
+ * named offscreen layers that are composited in z-order, each with its own clear policy.
+ * An optional camera transforms world layers and the render callback, an optional
+ * post-processor filters the finished frame, and an optional debug overlay is drawn last.
  * @module engine/Canvas
  */
 
+import { QualityAware, QualitySettings } from '../data/QualityConfig';
+import { Camera } from './Camera';
+import { Clock, getDefaultClock } from './Clock';
+import { FrameDebugger } from './FrameDebugger';
+import { PostProcessor } from '../render/PostProcessor';
+import { CanvasLayer, CanvasLayerConfig, DEFAULT_LAYERS, LayerRenderCallback } from './CanvasLayer';
+
 // Types and interfaces
 interface CanvasConfig {
+  /** Logical width that game code draws in */
   width: number;
+  /** Logical height that game code draws in */
   height: number;
   backgroundColor?: string;
   id?: string;
+  /** Element the canvas is fitted into (defaults to the document body, i.e. the window) */
+  container?: HTMLElement;
+  /** Scale the canvas to fit the container; when false it is shown at its logical size */
+  responsive?: boolean;
+  /** Upper bound on device pixels per CSS pixel, limiting backing store size on dense screens */
+  maxPixelRatio?: number;
+  /** Layers created at initialization (defaults to starfield, playfield, effects and HUD) */
+  layers?: CanvasLayerConfig[];
+  /** Clock timing camera shake and transitions between renders (defaults to the shared clock) */
+  clock?: Clock;
 }
 
-type RenderCallback = (ctx: CanvasRenderingContext2D) => void;
+/**
+ * Draws in world space; interpolation is the game loop's blend between fixed updates
+ */
+type RenderCallback = (ctx: CanvasRenderingContext2D, interpolation: number) => void;
+
+/**
+ * Area of the page covered by the canvas, in CSS pixels relative to the container
+ */
+export interface CanvasViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** CSS pixels per logical unit */
+  scale: number;
+}
+
+export type CanvasResizeCallback = (viewport: CanvasViewport) => void;
 
 /**
  * Default configuration for canvas initialization
@@ -21,18 +62,32 @@ const DEFAULT_CONFIG: CanvasConfig = {
   width: 800,
   height: 600,
   backgroundColor: '#000000',
-  id: 'gameCanvas'
+  id: 'gameCanvas',
+  responsive: true,
+  maxPixelRatio: 2,
+  layers: DEFAULT_LAYERS
 };
 
 /**
  * Canvas class responsible for managing the HTML5 Canvas element
  * and providing basic rendering capabilities
  */
-export class Canvas {
+export class Canvas implements QualityAware {
   private canvas: HTMLCanvasElement | null = null;
   private context: CanvasRenderingContext2D | null = null;
   private config: CanvasConfig;
   private isInitialized: boolean = false;
+  private resolutionScale: number = 1;
+  private viewport: CanvasViewport;
+  private resizeObserver: ResizeObserver | null = null;
+  private resizeListeners: Set<CanvasResizeCallback> = new Set();
+  private layers: Map<string, CanvasLayer> = new Map();
+  private camera: Camera | null = null;
+  private lastCameraKey: string = '';
+  private lastRenderTime: number | null = null;
+  private clock: Clock;
+  private postProcessor: PostProcessor | null = null;
+  private debugOverlay: FrameDebugger | null = null;
 
   /**
    * Creates a new Canvas instance
@@ -40,6 +95,9 @@ export class Canvas {
    */
   constructor(config: Partial<CanvasConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.clock = this.config.clock ?? getDefaultClock();
+    this.viewport = { x: 0, y: 0, width: this.config.width, height: this.config.height, scale: 1 };
+    this.handleResize = this.handleResize.bind(this);
   }
 
   /**
@@ -51,8 +109,6 @@ export class Canvas {
     try {
       // Create canvas element
       this.canvas = document.createElement('canvas');
-      this.canvas.width = this.config.width;
-      this.canvas.height = this.config.height;
       this.canvas.id = this.config.id!;
 
       // Get rendering context
@@ -62,25 +118,35 @@ export class Canvas {
       }
       this.context = context;
 
-      // Append canvas to document body
-      document.body.appendChild(this.canvas);
+      // Create offscreen layers before sizing so they receive the initial size
+      this.config.layers!.forEach(layerConfig => this.addLayer(layerConfig));
 
-      // Set initial background
-      this.setBackground(this.config.backgroundColor!);
+      // Append canvas to its container and fit it to the available space
+      this.getContainer().appendChild(this.canvas);
+      this.canvas.style.display = 'block';
+      this.canvas.style.position = this.isWindowContainer() ? 'fixed' : 'absolute';
+      this.updateViewport();
+      this.observeResize();
 
       this.isInitialized = true;
+
+      // Set initial background
+      this.setBackground(this.config.backgroundColor!);
     } catch (error) {
       throw new Error(`Canvas initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Renders content to the canvas using a callback function
-   * @param callback - Function to execute for rendering
+   * Renders a frame: redraws layers as their clear policies require and composites them
+   * in z-order. The optional callback draws in world space above the camera layers and
+   * below the screen-space overlays (such as the HUD) stacked on top of them.
+   * @param callback - Optional function drawing directly onto the composited frame
+   * @param interpolation - Game loop interpolation factor handed to the callback
    * @throws Error if canvas is not initialized
    * @returns void
    */
-  public render(callback: RenderCallback): void {
+  public render(callback?: RenderCallback, interpolation: number = 1): void {
     if (!this.isInitialized || !this.context) {
       throw new Error('Canvas must be initialized before rendering');
     }
@@ -88,9 +154,37 @@ export class Canvas {
     try {
       // Clear canvas before rendering
       this.clear();
-      
-      // Execute render callback
-      callback(this.context);
+
+      // Advance camera shake and transitions by the time since the last frame
+      this.updateCamera();
+
+      // Layers drawn through a moving camera must be redrawn even if otherwise clean
+      this.markCameraLayersIfMoved();
+
+      // Redraw and composite layers from back to front
+      const context = this.context;
+      let pendingCallback = callback ?? null;
+      let passedWorld = false;
+      this.getLayers().forEach(layer => {
+        if (pendingCallback && passedWorld && !layer.usesCamera()) {
+          this.renderCallback(context, pendingCallback, interpolation);
+          pendingCallback = null;
+        }
+        passedWorld = passedWorld || layer.usesCamera();
+
+        layer.update(this.camera);
+        layer.compositeInto(context);
+      });
+
+      if (pendingCallback) {
+        this.renderCallback(context, pendingCallback, interpolation);
+      }
+
+      // Filter the finished frame
+      this.postProcessor?.apply(context, this.config.width, this.config.height);
+
+      // Debug overlays stay unfiltered so their numbers remain legible
+      this.debugOverlay?.renderOverlay(context);
     } catch (error) {
       console.error('Render error:', error);
       throw new Error(`Render failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -107,7 +201,7 @@ export class Canvas {
       throw new Error('Canvas must be initialized before clearing');
     }
 
-    this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.context.clearRect(0, 0, this.config.width, this.config.height);
   }
 
   /**
@@ -122,7 +216,413 @@ export class Canvas {
     }
 
     this.context.fillStyle = color;
-    this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    this.context.fillRect(0, 0, this.config.width, this.config.height);
+  }
+
+  /**
+   * Sets the camera applied to world layers and the render callback. The canvas
+   * advances the camera on every render, so game code should not update it as well.
+   * @param camera - Camera to use, or null for an untransformed view
+   * @returns void
+   */
+  public setCamera(camera: Camera | null): void {
+    this.camera = camera;
+    this.lastCameraKey = '';
+    this.lastRenderTime = null;
+  }
+
+  /**
+   * Gets the active camera
+   * @returns Camera or null if none is set
+   */
+  public getCamera(): Camera | null {
+    return this.camera;
+  }
+
+  /**
+   * Sets the post-processing stage run after each frame is composited
+   * @param postProcessor - Post-processor to use, or null to disable filtering
+   * @returns void
+   */
+  public setPostProcessor(postProcessor: PostProcessor | null): void {
+    this.postProcessor = postProcessor;
+  }
+
+  /**
+   * Gets the active post-processor
+   * @returns PostProcessor or null if none is set
+   */
+  public getPostProcessor(): PostProcessor | null {
+    return this.postProcessor;
+  }
+
+  /**
+   * Sets the frame debugger whose overlays are drawn on top of each finished frame
+   * @param debugOverlay - Frame debugger to draw, or null to draw none
+   * @returns void
+   */
+  public setDebugOverlay(debugOverlay: FrameDebugger | null): void {
+    this.debugOverlay = debugOverlay;
+  }
+
+  /**
+   * Adds a named layer
+   * @param config - Layer name, z-order and clear policy
+   * @param renderer - Optional draw callback for the layer
+   * @throws Error if a layer with the same name exists
+   * @returns The created layer
+   */
+  public addLayer(config: CanvasLayerConfig, renderer?: LayerRenderCallback): CanvasLayer {
+    if (this.layers.has(config.name)) {
+      throw new Error(`Layer '${config.name}' already exists`);
+    }
+
+    const layer = new CanvasLayer(config);
+    if (renderer) {
+      layer.setRenderer(renderer);
+    }
+    if (this.canvas) {
+      layer.resize(this.canvas.width, this.canvas.height, this.config.width, this.config.height);
+    }
+    this.layers.set(config.name, layer);
+    return layer;
+  }
+
+  /**
+   * Gets a layer by name
+   * @param name - Layer name
+   * @returns The layer or undefined if not found
+   */
+  public getLayer(name: string): CanvasLayer | undefined {
+    return this.layers.get(name);
+  }
+
+  /**
+   * Removes a layer
+   * @param name - Layer name
+   * @returns void
+   */
+  public removeLayer(name: string): void {
+    this.layers.delete(name);
+  }
+
+  /**
+   * Sets the draw callback of an existing layer
+   * @param name - Layer name
+   * @param renderer - Draw callback
+   * @throws Error if the layer does not exist
+   * @returns void
+   */
+  public setLayerRenderer(name: string, renderer: LayerRenderCallback): void {
+    const layer = this.layers.get(name);
+    if (!layer) {
+      throw new Error(`Layer '${name}' not found`);
+    }
+    layer.setRenderer(renderer);
+  }
+
+  /**
+   * Flags a layer for redraw on the next frame
+   * @param name - Layer name
+   * @returns void
+   */
+  public markLayerDirty(name: string): void {
+    this.layers.get(name)?.markDirty();
+  }
+
+  /**
+   * Gets all layers ordered from back to front
+   * @returns Layers sorted by z-index
+   */
+  public getLayers(): CanvasLayer[] {
+    return Array.from(this.layers.values()).sort((a, b) => a.getZIndex() - b.getZIndex());
+  }
+
+  /**
+   * Applies the resolution scale of the active quality tier
+   * @param settings - Quality tier settings
+   * @returns void
+   */
+  public applyQuality(settings: QualitySettings): void {
+    this.setResolutionScale(settings.resolutionScale);
+  }
+
+  /**
+   * Sets the backing store resolution relative to the logical size.
+   * The displayed size is unchanged; lower values trade sharpness for fill rate.
+   * @param scale - Resolution multiplier (e.g. 0.5 renders at half resolution)
+   * @throws Error if scale is not a positive finite number
+   * @returns void
+   */
+  public setResolutionScale(scale: number): void {
+    if (scale <= 0 || !Number.isFinite(scale)) {
+      throw new Error('Resolution scale must be a positive finite number');
+    }
+
+    this.resolutionScale = scale;
+    if (this.canvas && this.context) {
+      this.applyBackingSize();
+    }
+  }
+
+  /**
+   * Gets the current backing store resolution scale
+   * @returns Resolution multiplier
+   */
+  public getResolutionScale(): number {
+    return this.resolutionScale;
+  }
+
+  /**
+   * Converts page coordinates (e.g. Touch.clientX/Y) to logical canvas coordinates
+   * @param screenX - Horizontal position relative to the browser viewport
+   * @param screenY - Vertical position relative to the browser viewport
+   * @returns Position in logical units; may lie outside the canvas in the letterbox bars
+   */
+  public screenToWorld(screenX: number, screenY: number): { x: number; y: number } {
+    const rect = this.getScreenRect();
+    return {
+      x: ((screenX - rect.left) / rect.width) * this.config.width,
+      y: ((screenY - rect.top) / rect.height) * this.config.height
+    };
+  }
+
+  /**
+   * Converts logical canvas coordinates to page coordinates
+   * @param worldX - Horizontal position in logical units
+   * @param worldY - Vertical position in logical units
+   * @returns Position relative to the browser viewport
+   */
+  public worldToScreen(worldX: number, worldY: number): { x: number; y: number } {
+    const rect = this.getScreenRect();
+    return {
+      x: rect.left + (worldX / this.config.width) * rect.width,
+      y: rect.top + (worldY / this.config.height) * rect.height
+    };
+  }
+
+  /**
+   * Gets the area of the container covered by the canvas
+   * @returns Viewport in CSS pixels
+   */
+  public getViewport(): CanvasViewport {
+    return { ...this.viewport };
+  }
+
+  /**
+   * Registers a callback run whenever the canvas is refitted
+   * @param callback - Function receiving the new viewport
+   * @returns void
+   */
+  public addResizeListener(callback: CanvasResizeCallback): void {
+    this.resizeListeners.add(callback);
+  }
+
+  /**
+   * Removes a resize callback
+   * @param callback - Function to remove
+   * @returns void
+   */
+  public removeResizeListener(callback: CanvasResizeCallback): void {
+    this.resizeListeners.delete(callback);
+  }
+
+  /**
+   * Recomputes the letterboxed viewport and backing store size.
+   * Called automatically on resize; call manually after changing the container's layout.
+   * @returns void
+   */
+  public updateViewport(): void {
+    if (!this.canvas || !this.context) {
+      return;
+    }
+
+    const { width, height } = this.config;
+    let scale = 1;
+    let offsetX = 0;
+    let offsetY = 0;
+
+    if (this.config.responsive) {
+      const available = this.getAvailableSize();
+      scale = Math.min(available.width / width, available.height / height);
+      if (!Number.isFinite(scale) || scale <= 0) {
+        scale = 1;
+      }
+      offsetX = (available.width - width * scale) / 2;
+      offsetY = (available.height - height * scale) / 2;
+    }
+
+    this.viewport = {
+      x: offsetX,
+      y: offsetY,
+      width: width * scale,
+      height: height * scale,
+      scale
+    };
+
+    this.canvas.style.left = `${offsetX}px`;
+    this.canvas.style.top = `${offsetY}px`;
+    this.applyBackingSize();
+
+    this.resizeListeners.forEach(listener => {
+      try {
+        listener(this.getViewport());
+      } catch (error) {
+        console.error('Error in canvas resize listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Stops observing resizes and removes the canvas from the page
+   * @returns void
+   */
+  public dispose(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    window.removeEventListener('resize', this.handleResize);
+    this.resizeListeners.clear();
+    this.layers.clear();
+    this.canvas?.remove();
+    this.canvas = null;
+    this.context = null;
+    this.isInitialized = false;
+  }
+
+  /**
+   * Updates the camera with the clock time elapsed since the previous render
+   * @private
+   */
+  private updateCamera(): void {
+    if (!this.camera) return;
+
+    const now = this.clock.now();
+    if (this.lastRenderTime !== null) {
+      this.camera.update(now - this.lastRenderTime);
+    }
+    this.lastRenderTime = now;
+  }
+
+  /**
+   * Runs the render callback in world space
+   * @private
+   */
+  private renderCallback(context: CanvasRenderingContext2D, callback: RenderCallback, interpolation: number): void {
+    context.save();
+    try {
+      this.camera?.applyTransform(context, this.config.width, this.config.height);
+      callback(context, interpolation);
+    } finally {
+      context.restore();
+    }
+  }
+
+  /**
+   * Marks camera-space layers dirty when the camera transform changed since the last frame
+   * @private
+   */
+  private markCameraLayersIfMoved(): void {
+    const transform = this.camera?.getTransform();
+    const key = transform ? `${transform.x},${transform.y},${transform.zoom},${transform.rotation}` : '';
+    if (key === this.lastCameraKey) {
+      return;
+    }
+
+    this.lastCameraKey = key;
+    this.layers.forEach(layer => {
+      if (layer.usesCamera()) {
+        layer.markDirty();
+      }
+    });
+  }
+
+  /**
+   * Sizes the backing store for the displayed size, device pixel ratio and resolution
+   * scale while keeping drawing coordinates in logical units
+   * @private
+   */
+  private applyBackingSize(): void {
+    if (!this.canvas || !this.context) {
+      return;
+    }
+
+    const devicePixelRatio = Math.min(window.devicePixelRatio || 1, this.config.maxPixelRatio!);
+    const pixelRatio = devicePixelRatio * this.resolutionScale;
+
+    this.canvas.width = Math.max(1, Math.round(this.viewport.width * pixelRatio));
+    this.canvas.height = Math.max(1, Math.round(this.viewport.height * pixelRatio));
+    this.canvas.style.width = `${this.viewport.width}px`;
+    this.canvas.style.height = `${this.viewport.height}px`;
+
+    // Resizing resets the context, so the transform is set rather than accumulated
+    this.context.setTransform(
+      this.canvas.width / this.config.width, 0,
+      0, this.canvas.height / this.config.height,
+      0, 0
+    );
+
+    this.layers.forEach(layer => {
+      layer.resize(this.canvas!.width, this.canvas!.height, this.config.width, this.config.height);
+    });
+  }
+
+  /**
+   * Watches the container for size changes, falling back to window resizes
+   * @private
+   */
+  private observeResize(): void {
+    // Window resizes also cover devicePixelRatio changes from browser zoom
+    window.addEventListener('resize', this.handleResize);
+
+    if (typeof ResizeObserver !== 'undefined' && !this.isWindowContainer()) {
+      this.resizeObserver = new ResizeObserver(this.handleResize);
+      this.resizeObserver.observe(this.getContainer());
+    }
+  }
+
+  private handleResize(): void {
+    this.updateViewport();
+  }
+
+  private getContainer(): HTMLElement {
+    return this.config.container ?? document.body;
+  }
+
+  private isWindowContainer(): boolean {
+    return this.getContainer() === document.body;
+  }
+
+  /**
+   * Gets the size available to the canvas in CSS pixels
+   * @private
+   */
+  private getAvailableSize(): { width: number; height: number } {
+    if (this.isWindowContainer()) {
+      return { width: window.innerWidth, height: window.innerHeight };
+    }
+
+    const container = this.getContainer();
+    return { width: container.clientWidth, height: container.clientHeight };
+  }
+
+  /**
+   * Gets the canvas rectangle on the page, falling back to the computed viewport
+   * @private
+   */
+  private getScreenRect(): { left: number; top: number; width: number; height: number } {
+    if (this.canvas) {
+      const rect = this.canvas.getBoundingClientRect();
+      if (rect.width > 0 && rect.height > 0) {
+        return rect;
+      }
+    }
+
+    return {
+      left: this.viewport.x,
+      top: this.viewport.y,
+      width: this.viewport.width,
+      height: this.viewport.height
+    };
   }
 
   /**
@@ -142,7 +642,7 @@ export class Canvas {
   }
 
   /**
-   * Gets the canvas dimensions
+   * Gets the logical canvas dimensions
    * @returns Object containing width and height
    */
   public getDimensions(): { width: number; height: number } {
@@ -0,0 +1,244 @@
+/**
+ * @file CanvasLayer.ts
+ * @description Offscreen drawing layer composited by Canvas. Layers let rarely changing content
+ * (starfield, HUD) skip redraws while gameplay and effects redraw every frame.
+ * @module engine/CanvasLayer
+ */
+
+import { Camera } from './Camera';
+
+// Types and interfaces
+/**
+ * When a layer's buffer is cleared and redrawn
+ */
+export enum LayerClearPolicy {
+  /** Cleared and redrawn every frame */
+  ALWAYS = 'always',
+  /** Cleared and redrawn only after markDirty() */
+  DIRTY = 'dirty',
+  /** Redrawn every frame without clearing, so previous frames persist (e.g. trails) */
+  NEVER = 'never'
+}
+
+export interface CanvasLayerConfig {
+  name: string;
+  /** Layers are composited from lowest to highest z-index */
+  zIndex: number;
+  clearPolicy: LayerClearPolicy;
+  visible?: boolean;
+  /** Whether the canvas camera transform applies; HUD layers opt out (defaults to true) */
+  useCamera?: boolean;
+}
+
+export type LayerRenderCallback = (ctx: CanvasRenderingContext2D) => void;
+
+/**
+ * Names of the standard game layers
+ */
+export const CANVAS_LAYERS = {
+  STARFIELD: 'starfield',
+  PLAYFIELD: 'playfield',
+  EFFECTS: 'effects',
+  HUD: 'hud'
+} as const;
+
+/**
+ * Standard layer stack used when a Canvas is created without explicit layers
+ */
+export const DEFAULT_LAYERS: CanvasLayerConfig[] = [
+  { name: CANVAS_LAYERS.STARFIELD, zIndex: 0, clearPolicy: LayerClearPolicy.DIRTY, useCamera: false },
+  { name: CANVAS_LAYERS.PLAYFIELD, zIndex: 10, clearPolicy: LayerClearPolicy.ALWAYS },
+  { name: CANVAS_LAYERS.EFFECTS, zIndex: 20, clearPolicy: LayerClearPolicy.ALWAYS },
+  { name: CANVAS_LAYERS.HUD, zIndex: 30, clearPolicy: LayerClearPolicy.DIRTY, useCamera: false }
+];
+
+/**
+ * A named offscreen buffer with its own clear policy and dirty flag
+ */
+export class CanvasLayer {
+  public readonly name: string;
+  private zIndex: number;
+  private clearPolicy: LayerClearPolicy;
+  private visible: boolean;
+  private useCamera: boolean;
+  private dirty: boolean = true;
+  private renderer: LayerRenderCallback | null = null;
+  private buffer: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private logicalWidth: number = 1;
+  private logicalHeight: number = 1;
+
+  /**
+   * Creates a new CanvasLayer instance
+   * @param config - Layer name, z-order and clear policy
+   * @throws Error if the offscreen context cannot be created
+   */
+  constructor(config: CanvasLayerConfig) {
+    this.name = config.name;
+    this.zIndex = config.zIndex;
+    this.clearPolicy = config.clearPolicy;
+    this.visible = config.visible ?? true;
+    this.useCamera = config.useCamera ?? true;
+
+    this.buffer = document.createElement('canvas');
+    const context = this.buffer.getContext('2d');
+    if (!context) {
+      throw new Error(`Failed to create context for layer '${config.name}'`);
+    }
+    this.context = context;
+  }
+
+  /**
+   * Sets the function that draws this layer's content
+   * @param renderer - Draw callback, or null to leave the layer empty
+   * @returns void
+   */
+  public setRenderer(renderer: LayerRenderCallback | null): void {
+    this.renderer = renderer;
+    this.dirty = true;
+  }
+
+  /**
+   * Flags the layer for redraw on the next frame (only meaningful for DIRTY layers)
+   * @returns void
+   */
+  public markDirty(): void {
+    this.dirty = true;
+  }
+
+  /**
+   * Checks whether the layer will be redrawn on the next frame
+   * @returns boolean indicating pending redraw
+   */
+  public isDirty(): boolean {
+    return this.clearPolicy !== LayerClearPolicy.DIRTY || this.dirty;
+  }
+
+  /**
+   * Gets the layer's z-order
+   * @returns z-index
+   */
+  public getZIndex(): number {
+    return this.zIndex;
+  }
+
+  /**
+   * Changes the layer's z-order; the owning Canvas re-sorts on the next frame
+   * @param zIndex - New z-index
+   * @returns void
+   */
+  public setZIndex(zIndex: number): void {
+    this.zIndex = zIndex;
+  }
+
+  /**
+   * Gets the layer's clear policy
+   * @returns Clear policy
+   */
+  public getClearPolicy(): LayerClearPolicy {
+    return this.clearPolicy;
+  }
+
+  /**
+   * Changes the clear policy and schedules a redraw
+   * @param policy - New clear policy
+   * @returns void
+   */
+  public setClearPolicy(policy: LayerClearPolicy): void {
+    this.clearPolicy = policy;
+    this.dirty = true;
+  }
+
+  /**
+   * Shows or hides the layer
+   * @param visible - Whether the layer is composited
+   * @returns void
+   */
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+  }
+
+  /**
+   * Checks whether the layer is composited
+   * @returns boolean indicating visibility
+   */
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  /**
+   * Checks whether the camera transform applies to this layer
+   * @returns boolean indicating camera use
+   */
+  public usesCamera(): boolean {
+    return this.useCamera;
+  }
+
+  /**
+   * Gets the layer's offscreen context for drawing outside the render callback
+   * @returns Offscreen rendering context in logical units
+   */
+  public getContext(): CanvasRenderingContext2D {
+    return this.context;
+  }
+
+  /**
+   * Resizes the backing buffer; resizing clears it, so the layer is marked dirty
+   * @param pixelWidth - Buffer width in device pixels
+   * @param pixelHeight - Buffer height in device pixels
+   * @param logicalWidth - Logical width drawn in
+   * @param logicalHeight - Logical height drawn in
+   * @returns void
+   */
+  public resize(pixelWidth: number, pixelHeight: number, logicalWidth: number, logicalHeight: number): void {
+    this.buffer.width = pixelWidth;
+    this.buffer.height = pixelHeight;
+    this.logicalWidth = logicalWidth;
+    this.logicalHeight = logicalHeight;
+    this.context.setTransform(pixelWidth / logicalWidth, 0, 0, pixelHeight / logicalHeight, 0, 0);
+    this.dirty = true;
+  }
+
+  /**
+   * Redraws the layer according to its clear policy
+   * @param camera - Camera applied before drawing, unless the layer opted out
+   * @returns boolean indicating whether the layer was redrawn
+   */
+  public update(camera: Camera | null = null): boolean {
+    if (!this.isDirty()) {
+      return false;
+    }
+
+    if (this.clearPolicy !== LayerClearPolicy.NEVER) {
+      this.context.clearRect(0, 0, this.logicalWidth, this.logicalHeight);
+    }
+
+    if (this.renderer) {
+      this.context.save();
+      try {
+        if (camera && this.useCamera) {
+          camera.applyTransform(this.context, this.logicalWidth, this.logicalHeight);
+        }
+        this.renderer(this.context);
+      } finally {
+        this.context.restore();
+      }
+    }
+
+    this.dirty = false;
+    return true;
+  }
+
+  /**
+   * Draws the layer's buffer into a target context
+   * @param target - Context to composite into
+   * @returns void
+   */
+  public compositeInto(target: CanvasRenderingContext2D): void {
+    if (!this.visible) {
+      return;
+    }
+
+    target.drawImage(this.buffer, 0, 0, this.logicalWidth, this.logicalHeight);
+  }
+}
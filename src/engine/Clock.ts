@@ -0,0 +1,167 @@
+/**
+ * @file Clock.ts
+ * @module Clock
+ * @description Pluggable clock and frame scheduler used by the game loop and time system.
+ * The browser implementation wraps requestAnimationFrame and performance.now, while the
+ * manual implementation lets the game be stepped headlessly and deterministically.
+ */
+
+/**
+ * Callback invoked when a scheduled frame fires
+ * @param time - Current clock time (in milliseconds)
+ */
+export type FrameCallback = (time: number) => void;
+
+/**
+ * Source of time and animation frames
+ */
+export interface Clock {
+    /** Returns the current time (in milliseconds) */
+    now(): number;
+    /** Schedules a callback for the next frame and returns its handle */
+    requestFrame(callback: FrameCallback): number;
+    /** Cancels a previously scheduled frame */
+    cancelFrame(handle: number): void;
+}
+
+/**
+ * Default frame interval used by the manual clock (in milliseconds)
+ */
+const DEFAULT_MANUAL_FRAME_INTERVAL = 1000 / 60;
+
+/**
+ * Clock backed by the browser's requestAnimationFrame and performance.now
+ */
+export class BrowserClock implements Clock {
+    /**
+     * Returns the current high resolution time
+     */
+    public now(): number {
+        return performance.now();
+    }
+
+    /**
+     * Schedules a callback on the next animation frame
+     * @param callback - Function to run on the next frame
+     */
+    public requestFrame(callback: FrameCallback): number {
+        return requestAnimationFrame(callback);
+    }
+
+    /**
+     * Cancels a pending animation frame
+     * @param handle - Handle returned by requestFrame
+     */
+    public cancelFrame(handle: number): void {
+        cancelAnimationFrame(handle);
+    }
+}
+
+/**
+ * Virtual clock whose time only moves when advanced explicitly.
+ * Frame callbacks fire once per advance, mirroring requestAnimationFrame semantics:
+ * callbacks requested while a frame is firing run on the following frame.
+ */
+export class ManualClock implements Clock {
+    private currentTime: number;
+    private frameInterval: number;
+    private nextHandle: number;
+    private pendingFrames: Map<number, FrameCallback>;
+
+    /**
+     * Creates a new ManualClock instance
+     * @param frameInterval - Time advanced by each step (in milliseconds)
+     * @param startTime - Initial clock time (in milliseconds)
+     */
+    constructor(frameInterval: number = DEFAULT_MANUAL_FRAME_INTERVAL, startTime: number = 0) {
+        if (frameInterval <= 0 || !Number.isFinite(frameInterval)) {
+            throw new Error('Frame interval must be a positive finite number');
+        }
+
+        this.currentTime = startTime;
+        this.frameInterval = frameInterval;
+        this.nextHandle = 1;
+        this.pendingFrames = new Map();
+    }
+
+    /**
+     * Returns the current virtual time
+     */
+    public now(): number {
+        return this.currentTime;
+    }
+
+    /**
+     * Queues a callback for the next advance
+     * @param callback - Function to run on the next frame
+     */
+    public requestFrame(callback: FrameCallback): number {
+        const handle = this.nextHandle++;
+        this.pendingFrames.set(handle, callback);
+        return handle;
+    }
+
+    /**
+     * Removes a queued frame callback
+     * @param handle - Handle returned by requestFrame
+     */
+    public cancelFrame(handle: number): void {
+        this.pendingFrames.delete(handle);
+    }
+
+    /**
+     * Moves time forward and fires one frame
+     * @param ms - Amount of time to advance (in milliseconds)
+     */
+    public advance(ms: number): void {
+        if (ms < 0 || !Number.isFinite(ms)) {
+            throw new Error('Advance amount must be a non-negative finite number');
+        }
+
+        this.currentTime += ms;
+
+        const frames = Array.from(this.pendingFrames.values());
+        this.pendingFrames.clear();
+        for (const callback of frames) {
+            callback(this.currentTime);
+        }
+    }
+
+    /**
+     * Fires a number of frames, each one frame interval apart
+     * @param frames - Number of frames to step
+     */
+    public step(frames: number = 1): void {
+        for (let i = 0; i < frames; i++) {
+            this.advance(this.frameInterval);
+        }
+    }
+
+    /**
+     * Gets the number of frame callbacks waiting to fire
+     */
+    public getPendingFrameCount(): number {
+        return this.pendingFrames.size;
+    }
+}
+
+let defaultClock: Clock | null = null;
+
+/**
+ * Gets the clock used when none is injected
+ * @returns Shared BrowserClock instance unless overridden
+ */
+export function getDefaultClock(): Clock {
+    if (!defaultClock) {
+        defaultClock = new BrowserClock();
+    }
+    return defaultClock;
+}
+
+/**
+ * Overrides the clock used when none is injected
+ * @param clock - Clock to use, or null to restore the browser clock
+ */
+export function setDefaultClock(clock: Clock | null): void {
+    defaultClock = clock;
+}
@@ -2,12 +2,26 @@
  * @file Collision.ts
  * @description Implements AABB (Axis-Aligned Bounding Box) collision detection system
  * for game objects. Provides utilities for checking collisions between rectangles
- * and managing collision bounds.
+ * and managing collision bounds. Pixel masks refine AABB hits to pixel accuracy, and
+ * swept tests find the time of impact of fast movers so they cannot tunnel through thin
+ * targets. Circles, capsules and convex polygons are tested with SAT behind an AABB
+ * broadphase.
  * 
  * @module engine/Collision
  * @version 1.0.0
  */
 
+import { CollisionMask } from './CollisionMask';
+import { CollisionShape, getShapeBounds, intersectShapes, validateShape } from './CollisionShapes';
+
+/**
+ * Configuration constants for swept collision
+ */
+const SWEEP_CONFIG = {
+  /** Largest distance in pixels between mask samples along a movement */
+  MAX_MASK_STEP: 1
+} as const;
+
 // Types and Interfaces
 /**
  * Represents a 2D point in space
@@ -40,6 +54,35 @@ export interface CollisionResult {
     horizontal: 'left' | 'right' | 'none';
     vertical: 'top' | 'bottom' | 'none';
   };
+  /**
+   * Where the objects touch: the center of the overlap rectangle for AABB tests,
+   * or the center of the first overlapping pixel for mask tests
+   */
+  contactPoint?: Point;
+  /** Fraction of the movement at which swept tests found the contact */
+  time?: number;
+  /** Unit contact normal, pointing from the first object towards the second */
+  normal?: Point;
+  /**
+   * Minimum translation vector: the shortest move of the first object that
+   * separates it from the second. Mask tests report the vector of the boxes.
+   */
+  mtv?: Point;
+}
+
+/**
+ * Result of a swept (continuous) collision test
+ */
+export interface SweepResult {
+  hit: boolean;
+  /** Fraction of the movement (0 to 1) completed at the moment of impact; 1 on a miss */
+  time: number;
+  /** Fraction of the movement at which the mover leaves the box again, at most 1; 1 on a miss */
+  exitTime: number;
+  /** Surface normal of the target at the impact; zero if the mover started inside it */
+  normal: Point;
+  /** Position of the ray point, or the moving box's top-left corner, at the impact */
+  position: Point;
 }
 
 /**
@@ -82,16 +125,239 @@ export class CollisionSystem {
         vertical: this.getVerticalDirection(boxA, boxB)
       };
 
+      // Separate along the axis of least overlap
+      const normal = overlapX <= overlapY
+        ? { x: boxA.x + boxA.width / 2 <= boxB.x + boxB.width / 2 ? 1 : -1, y: 0 }
+        : { x: 0, y: boxA.y + boxA.height / 2 <= boxB.y + boxB.height / 2 ? 1 : -1 };
+      const depth = Math.min(overlapX, overlapY);
+
       return {
         colliding: true,
         overlap: { x: overlapX, y: overlapY },
-        direction
+        direction,
+        normal,
+        mtv: { x: -normal.x * depth, y: -normal.y * depth },
+        contactPoint: {
+          x: Math.max(boxA.x, boxB.x) + overlapX / 2,
+          y: Math.max(boxA.y, boxB.y) + overlapY / 2
+        }
       };
     } catch (error) {
       throw new Error(`Collision check failed: ${error.message}`);
     }
   }
 
+  /**
+   * Checks two objects pixel by pixel. The boxes are tested first as a broadphase;
+   * masks are aligned with the top-left corner of their box, and a null mask counts
+   * as a fully solid box.
+   * @param boxA First bounding box
+   * @param maskA Mask of the first object, or null
+   * @param boxB Second bounding box
+   * @param maskB Mask of the second object, or null
+   * @returns CollisionResult whose contactPoint is the first overlapping pixel
+   * @throws {Error} If invalid bounding box parameters are provided
+   */
+  public static checkMaskCollision(
+    boxA: BoundingBox,
+    maskA: CollisionMask | null,
+    boxB: BoundingBox,
+    maskB: CollisionMask | null
+  ): CollisionResult {
+    const broadphase = this.checkCollision(boxA, boxB);
+    if (!broadphase.colliding || (!maskA && !maskB)) {
+      return broadphase;
+    }
+
+    const solidA = maskA ?? CollisionMask.solid(Math.ceil(boxA.width), Math.ceil(boxA.height));
+    const solidB = maskB ?? CollisionMask.solid(Math.ceil(boxB.width), Math.ceil(boxB.height));
+    const pixel = solidA.firstOverlap(solidB, boxB.x - boxA.x, boxB.y - boxA.y);
+
+    if (!pixel) {
+      return { colliding: false };
+    }
+
+    return {
+      ...broadphase,
+      contactPoint: {
+        x: boxA.x + pixel.x + 0.5,
+        y: boxA.y + pixel.y + 0.5
+      }
+    };
+  }
+
+  /**
+   * Checks two circles, capsules or convex polygons with the Separating Axis
+   * Theorem. Their bounding boxes are tested first as a broadphase.
+   * @param shapeA First shape
+   * @param shapeB Second shape
+   * @returns CollisionResult with the contact normal and minimum translation vector
+   * @throws {Error} If a shape is invalid
+   */
+  public static checkShapeCollision(shapeA: CollisionShape, shapeB: CollisionShape): CollisionResult {
+    try {
+      validateShape(shapeA);
+      validateShape(shapeB);
+
+      if (!this.checkCollision(getShapeBounds(shapeA), getShapeBounds(shapeB)).colliding) {
+        return { colliding: false };
+      }
+
+      const contact = intersectShapes(shapeA, shapeB);
+      if (!contact) {
+        return { colliding: false };
+      }
+
+      const { normal, depth, contactPoint } = contact;
+      return {
+        colliding: true,
+        direction: {
+          horizontal: Math.abs(normal.x) < 0.1 ? 'none' : normal.x > 0 ? 'right' : 'left',
+          vertical: Math.abs(normal.y) < 0.1 ? 'none' : normal.y > 0 ? 'bottom' : 'top'
+        },
+        normal,
+        mtv: { x: -normal.x * depth, y: -normal.y * depth },
+        contactPoint
+      };
+    } catch (error) {
+      throw new Error(`Shape collision check failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Casts a segment against a box (slab method)
+   * @param origin Start of the segment
+   * @param delta Movement along the segment
+   * @param box Box to test
+   * @returns SweepResult with the time of impact along the segment
+   * @throws {Error} If invalid parameters are provided
+   */
+  public static raycastBox(origin: Point, delta: Point, box: BoundingBox): SweepResult {
+    try {
+      this.validatePoint(origin);
+      this.validatePoint(delta);
+      this.validateBoundingBox(box);
+
+      const miss: SweepResult = {
+        hit: false,
+        time: 1,
+        exitTime: 1,
+        normal: { x: 0, y: 0 },
+        position: { x: origin.x + delta.x, y: origin.y + delta.y }
+      };
+
+      const slabX = this.getSlab(origin.x, delta.x, box.x, box.x + box.width);
+      const slabY = this.getSlab(origin.y, delta.y, box.y, box.y + box.height);
+      if (!slabX || !slabY) {
+        return miss;
+      }
+
+      const nearTime = Math.max(slabX.near, slabY.near);
+      const farTime = Math.min(slabX.far, slabY.far);
+      if (nearTime > farTime || farTime < 0 || nearTime > 1) {
+        return miss;
+      }
+
+      // Starting inside the box counts as an immediate hit without a surface
+      const exitTime = Math.min(1, farTime);
+      if (nearTime < 0) {
+        return { hit: true, time: 0, exitTime, normal: { x: 0, y: 0 }, position: { ...origin } };
+      }
+
+      const normal = slabX.near > slabY.near
+        ? { x: -Math.sign(delta.x), y: 0 }
+        : { x: 0, y: -Math.sign(delta.y) };
+
+      return {
+        hit: true,
+        time: nearTime,
+        exitTime,
+        normal,
+        position: { x: origin.x + delta.x * nearTime, y: origin.y + delta.y * nearTime }
+      };
+    } catch (error) {
+      throw new Error(`Raycast failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Sweeps a moving box against a static box by casting its center against
+   * the target grown by the mover's half size
+   * @param moving Box at the start of the movement
+   * @param delta Movement of the box
+   * @param target Static box
+   * @returns SweepResult whose position is the moving box's corner at impact
+   * @throws {Error} If invalid parameters are provided
+   */
+  public static sweepBox(moving: BoundingBox, delta: Point, target: BoundingBox): SweepResult {
+    this.validateBoundingBox(moving);
+
+    const halfWidth = moving.width / 2;
+    const halfHeight = moving.height / 2;
+    const result = this.raycastBox(
+      { x: moving.x + halfWidth, y: moving.y + halfHeight },
+      delta,
+      {
+        x: target.x - halfWidth,
+        y: target.y - halfHeight,
+        width: target.width + moving.width,
+        height: target.height + moving.height
+      }
+    );
+
+    return {
+      ...result,
+      position: { x: result.position.x - halfWidth, y: result.position.y - halfHeight }
+    };
+  }
+
+  /**
+   * Checks a moving object against a static one over its whole movement. The
+   * swept boxes give the span of the movement during which they overlap; with
+   * masks, that span is then stepped a pixel at a time until solid pixels meet.
+   * @param start Bounds of the moving object at the start of the movement
+   * @param delta Movement of the object
+   * @param maskA Mask of the moving object, or null for a solid box
+   * @param target Bounds of the static object
+   * @param maskB Mask of the static object, or null for a solid box
+   * @returns CollisionResult at the first contact along the movement
+   * @throws {Error} If invalid parameters are provided
+   */
+  public static checkSweptCollision(
+    start: BoundingBox,
+    delta: Point,
+    maskA: CollisionMask | null,
+    target: BoundingBox,
+    maskB: CollisionMask | null
+  ): CollisionResult {
+    const sweep = this.sweepBox(start, delta, target);
+    if (!sweep.hit) {
+      return { colliding: false };
+    }
+
+    if (!maskA && !maskB) {
+      return { ...this.checkCollision({ ...start, ...sweep.position }, target), time: sweep.time };
+    }
+
+    const span = sweep.exitTime - sweep.time;
+    const distance = Math.hypot(delta.x, delta.y) * span;
+    const samples = Math.max(1, Math.ceil(distance / SWEEP_CONFIG.MAX_MASK_STEP));
+
+    for (let i = 0; i <= samples; i++) {
+      const time = sweep.time + span * (i / samples);
+      const result = this.checkMaskCollision(
+        { ...start, x: start.x + delta.x * time, y: start.y + delta.y * time },
+        maskA,
+        target,
+        maskB
+      );
+      if (result.colliding) {
+        return { ...result, time };
+      }
+    }
+    return { colliding: false };
+  }
+
   /**
    * Checks if a point is inside a bounding box
    * @param point Point to check
@@ -165,6 +431,25 @@ export class CollisionSystem {
     }
   }
 
+  /**
+   * Gets the times at which a 1D movement enters and leaves an interval
+   * @returns Entry and exit times, or null if a stationary axis lies outside the interval
+   */
+  private static getSlab(
+    start: number,
+    delta: number,
+    min: number,
+    max: number
+  ): { near: number; far: number } | null {
+    if (delta === 0) {
+      return start >= min && start <= max ? { near: -Infinity, far: Infinity } : null;
+    }
+
+    const enter = (min - start) / delta;
+    const exit = (max - start) / delta;
+    return enter < exit ? { near: enter, far: exit } : { near: exit, far: enter };
+  }
+
   private static getHorizontalDirection(boxA: BoundingBox, boxB: BoundingBox): 'left' | 'right' | 'none' {
     const centerA = boxA.x + boxA.width / 2;
     const centerB = boxB.x + boxB.width / 2;
@@ -0,0 +1,306 @@
+/**
+ * @file CollisionMask.ts
+ * @description Pixel-perfect collision masks. A mask stores one bit per pixel, packed into
+ * 32-bit words per row, so two masks are tested against each other a word at a time. Masks
+ * are built from sprite alpha or directly from ASCII bitmap definitions.
+ * @module engine/CollisionMask
+ */
+
+import { Point } from './Collision';
+import { Sprite } from './Sprite';
+import { CanvasFactory } from './TextureAtlas';
+import { BitmapDefinition, BitmapPalette } from './PixelArt';
+
+/**
+ * Pixel data with RGBA bytes, as returned by getImageData
+ */
+export interface MaskPixelData {
+    width: number;
+    height: number;
+    data: ArrayLike<number>;
+}
+
+/**
+ * Options for building masks from images
+ */
+export interface MaskOptions {
+    /** Alpha value (0-255) above which a pixel is solid */
+    alphaThreshold: number;
+    canvasFactory: CanvasFactory;
+}
+
+const DEFAULT_MASK_OPTIONS: MaskOptions = {
+    alphaThreshold: 127,
+    canvasFactory: (width, height) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    }
+};
+
+const TRANSPARENT_CHARS = ['.', ' '];
+
+/** Sprite masks by texture, frame and drawn size */
+const spriteMaskCache = new Map<string, CollisionMask>();
+
+/**
+ * Index of the lowest set bit of a non-zero 32-bit value
+ */
+function lowestBit(value: number): number {
+    return 31 - Math.clz32(value & -value);
+}
+
+/**
+ * One bit per pixel collision mask
+ */
+export class CollisionMask {
+    public readonly width: number;
+    public readonly height: number;
+    private readonly wordsPerRow: number;
+    private readonly bits: Uint32Array;
+
+    /**
+     * Creates an empty mask
+     * @param width Width in pixels
+     * @param height Height in pixels
+     * @throws Error if the size is not a pair of non-negative integers
+     */
+    constructor(width: number, height: number) {
+        if (!Number.isInteger(width) || !Number.isInteger(height) || width < 0 || height < 0) {
+            throw new Error(`Invalid collision mask size: ${width}x${height}`);
+        }
+
+        this.width = width;
+        this.height = height;
+        this.wordsPerRow = Math.ceil(width / 32);
+        this.bits = new Uint32Array(this.wordsPerRow * height);
+    }
+
+    /**
+     * Creates a fully solid mask, e.g. for bullets
+     * @param width Width in pixels
+     * @param height Height in pixels
+     */
+    public static solid(width: number, height: number): CollisionMask {
+        const mask = new CollisionMask(width, height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                mask.set(x, y, true);
+            }
+        }
+        return mask;
+    }
+
+    /**
+     * Creates a mask from RGBA pixels; pixels with alpha above the threshold are solid
+     * @param pixels Pixel data
+     * @param alphaThreshold Alpha value (0-255) above which a pixel is solid
+     */
+    public static fromPixels(pixels: MaskPixelData, alphaThreshold: number = DEFAULT_MASK_OPTIONS.alphaThreshold): CollisionMask {
+        const mask = new CollisionMask(pixels.width, pixels.height);
+        for (let y = 0; y < pixels.height; y++) {
+            for (let x = 0; x < pixels.width; x++) {
+                if (pixels.data[(y * pixels.width + x) * 4 + 3] > alphaThreshold) {
+                    mask.set(x, y, true);
+                }
+            }
+        }
+        return mask;
+    }
+
+    /**
+     * Creates a mask from a frame of an ASCII bitmap without rasterising it
+     * @param bitmap Bitmap definition
+     * @param frame Frame index
+     * @param scale Whole-pixel scale, matching the rasterised sprite
+     * @param palette Palette overrides; characters mapped to null are not solid
+     * @throws Error if the frame does not exist
+     */
+    public static fromBitmap(
+        bitmap: BitmapDefinition,
+        frame: number = 0,
+        scale: number = 1,
+        palette: BitmapPalette = {}
+    ): CollisionMask {
+        const rows = bitmap.frames[frame];
+        if (!rows) {
+            throw new Error(`Bitmap '${bitmap.name}' has no frame ${frame}`);
+        }
+
+        const colors: BitmapPalette = { ...bitmap.palette, ...palette };
+        const mask = new CollisionMask((rows[0]?.length ?? 0) * scale, rows.length * scale);
+
+        rows.forEach((row, y) => {
+            [...row].forEach((char, x) => {
+                const solid = char in colors ? colors[char] !== null : !TRANSPARENT_CHARS.includes(char);
+                if (!solid) return;
+                for (let sy = 0; sy < scale; sy++) {
+                    for (let sx = 0; sx < scale; sx++) {
+                        mask.set(x * scale + sx, y * scale + sy, true);
+                    }
+                }
+            });
+        });
+        return mask;
+    }
+
+    /**
+     * Creates a mask of a sprite's current frame at its drawn size. Masks are cached per
+     * texture, frame and size, so sprites sharing a texture share masks.
+     * @param sprite Loaded sprite
+     * @param options Alpha threshold and canvas factory
+     * @throws Error if the sprite is not ready or its pixels cannot be read
+     */
+    public static fromSprite(sprite: Sprite, options: Partial<MaskOptions> = {}): CollisionMask {
+        const { alphaThreshold, canvasFactory } = { ...DEFAULT_MASK_OPTIONS, ...options };
+
+        if (!sprite.isReady()) {
+            throw new Error('Cannot build a collision mask from a sprite that is not loaded');
+        }
+
+        const { width, height } = sprite.getDimensions();
+        const drawWidth = Math.round(width);
+        const drawHeight = Math.round(height);
+        const frame = sprite.getFrameRect();
+        const key = `${sprite.getTextureKey()}:${frame.x},${frame.y},${frame.width},${frame.height}:${drawWidth}x${drawHeight}:${alphaThreshold}`;
+
+        const cached = spriteMaskCache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const canvas = canvasFactory(drawWidth, drawHeight);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Failed to get 2D context for collision mask');
+        }
+
+        context.imageSmoothingEnabled = false;
+        sprite.render(context, 0, 0);
+        const mask = CollisionMask.fromPixels(context.getImageData(0, 0, drawWidth, drawHeight), alphaThreshold);
+        spriteMaskCache.set(key, mask);
+        return mask;
+    }
+
+    /**
+     * Drops all cached sprite masks
+     */
+    public static clearCache(): void {
+        spriteMaskCache.clear();
+    }
+
+    /**
+     * Checks whether a pixel is solid; pixels outside the mask are not
+     * @param x Column
+     * @param y Row
+     */
+    public get(x: number, y: number): boolean {
+        if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+            return false;
+        }
+        return (this.bits[y * this.wordsPerRow + (x >> 5)] & (1 << (x & 31))) !== 0;
+    }
+
+    /**
+     * Sets whether a pixel is solid
+     * @param x Column
+     * @param y Row
+     * @param solid Solid or empty
+     * @throws Error if the pixel is outside the mask
+     */
+    public set(x: number, y: number, solid: boolean): void {
+        if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+            throw new Error(`Pixel ${x},${y} is outside the ${this.width}x${this.height} mask`);
+        }
+
+        const index = y * this.wordsPerRow + (x >> 5);
+        if (solid) {
+            this.bits[index] |= 1 << (x & 31);
+        } else {
+            this.bits[index] &= ~(1 << (x & 31));
+        }
+    }
+
+    /**
+     * Counts the solid pixels
+     */
+    public count(): number {
+        let total = 0;
+        for (let i = 0; i < this.bits.length; i++) {
+            let word = this.bits[i];
+            while (word !== 0) {
+                word &= word - 1;
+                total++;
+            }
+        }
+        return total;
+    }
+
+    /**
+     * Finds the first solid pixel shared with another mask, scanning rows top to bottom
+     * and columns left to right
+     * @param other Mask to test against
+     * @param offsetX Position of the other mask relative to this one (whole pixels)
+     * @param offsetY Position of the other mask relative to this one (whole pixels)
+     * @returns The pixel in this mask's coordinates, or null if the masks do not overlap
+     */
+    public firstOverlap(other: CollisionMask, offsetX: number, offsetY: number): Point | null {
+        const dx = Math.round(offsetX);
+        const dy = Math.round(offsetY);
+
+        const top = Math.max(0, dy);
+        const bottom = Math.min(this.height, dy + other.height);
+        const left = Math.max(0, dx);
+        const right = Math.min(this.width, dx + other.width);
+        if (top >= bottom || left >= right) {
+            return null;
+        }
+
+        const firstWord = left >> 5;
+        const lastWord = (right - 1) >> 5;
+
+        for (let y = top; y < bottom; y++) {
+            const rowStart = y * this.wordsPerRow;
+            for (let word = firstWord; word <= lastWord; word++) {
+                const shared = this.bits[rowStart + word] & other.window(y - dy, word * 32 - dx);
+                if (shared !== 0) {
+                    return { x: word * 32 + lowestBit(shared), y };
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Checks whether two masks share a solid pixel
+     * @param other Mask to test against
+     * @param offsetX Position of the other mask relative to this one
+     * @param offsetY Position of the other mask relative to this one
+     */
+    public overlaps(other: CollisionMask, offsetX: number, offsetY: number): boolean {
+        return this.firstOverlap(other, offsetX, offsetY) !== null;
+    }
+
+    /**
+     * Reads 32 bits of a row starting at any column; bit k is column start + k and
+     * columns outside the mask read as empty
+     * @private
+     */
+    private window(row: number, start: number): number {
+        if (row < 0 || row >= this.height) {
+            return 0;
+        }
+
+        const word = Math.floor(start / 32);
+        const shift = start - word * 32;
+        const base = row * this.wordsPerRow;
+        const low = word >= 0 && word < this.wordsPerRow ? this.bits[base + word] : 0;
+        if (shift === 0) {
+            return low;
+        }
+
+        const high = word + 1 >= 0 && word + 1 < this.wordsPerRow ? this.bits[base + word + 1] : 0;
+        return ((low >>> shift) | (high << (32 - shift))) >>> 0;
+    }
+}
@@ -0,0 +1,428 @@
+/**
+ * @file CollisionShapes.ts
+ * @description Circle, capsule and convex polygon collision shapes, tested against each other
+ * with the Separating Axis Theorem. Every shape is reduced to a core (a point, a segment or a
+ * polygon) inflated by a radius, so one SAT routine handles all pairs. Shapes are given in
+ * world coordinates; their bounding boxes remain the broadphase.
+ * @module engine/CollisionShapes
+ */
+
+import { BoundingBox, Point } from './Collision';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+export interface CircleShape {
+    type: 'circle';
+    center: Point;
+    radius: number;
+}
+
+/**
+ * A segment inflated by a radius: a rectangle with round ends
+ */
+export interface CapsuleShape {
+    type: 'capsule';
+    start: Point;
+    end: Point;
+    radius: number;
+}
+
+/**
+ * A convex polygon; points may wind either way
+ */
+export interface PolygonShape {
+    type: 'polygon';
+    points: Point[];
+}
+
+export type CollisionShape = CircleShape | CapsuleShape | PolygonShape;
+
+/**
+ * Where and how deeply two shapes overlap
+ */
+export interface ShapeContact {
+    /** Unit normal pointing from the first shape towards the second */
+    normal: Point;
+    /** Overlap along the normal; zero when the shapes just touch */
+    depth: number;
+    /** Center of the touching features */
+    contactPoint: Point;
+}
+
+/**
+ * Points of a shape before its radius is applied
+ */
+interface ShapeCore {
+    points: Point[];
+    radius: number;
+}
+
+interface Projection {
+    min: number;
+    max: number;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+/** Tolerance for degenerate segments and coincident support points */
+const SHAPE_EPSILON = 1e-6;
+
+/** Normal used when two cores share a center and no axis can be derived */
+const FALLBACK_AXIS: Point = { x: 0, y: 1 };
+
+// =========================================================
+// Factories
+// =========================================================
+
+/**
+ * Creates a circle
+ * @param x Center X
+ * @param y Center Y
+ * @param radius Radius
+ * @throws Error if the circle is invalid
+ */
+export function createCircle(x: number, y: number, radius: number): CircleShape {
+    const shape: CircleShape = { type: 'circle', center: { x, y }, radius };
+    validateShape(shape);
+    return shape;
+}
+
+/**
+ * Creates a capsule around a segment
+ * @param start First end of the segment
+ * @param end Second end of the segment
+ * @param radius Distance from the segment to the capsule's edge
+ * @throws Error if the capsule is invalid
+ */
+export function createCapsule(start: Point, end: Point, radius: number): CapsuleShape {
+    const shape: CapsuleShape = { type: 'capsule', start: { ...start }, end: { ...end }, radius };
+    validateShape(shape);
+    return shape;
+}
+
+/**
+ * Creates a convex polygon
+ * @param points Corners in order
+ * @throws Error if the polygon has fewer than three points or is not convex
+ */
+export function createPolygon(points: Point[]): PolygonShape {
+    const shape: PolygonShape = { type: 'polygon', points: points.map(point => ({ ...point })) };
+    validateShape(shape);
+    return shape;
+}
+
+/**
+ * Creates a polygon covering a bounding box
+ * @param box Box to convert
+ */
+export function createBoxPolygon(box: BoundingBox): PolygonShape {
+    return createPolygon([
+        { x: box.x, y: box.y },
+        { x: box.x + box.width, y: box.y },
+        { x: box.x + box.width, y: box.y + box.height },
+        { x: box.x, y: box.y + box.height }
+    ]);
+}
+
+/**
+ * Places a polygon given in local coordinates, e.g. a rotating boss part
+ * @param points Corners relative to the polygon's origin
+ * @param position World position of the origin
+ * @param rotation Rotation around the origin in radians
+ * @throws Error if the polygon is not convex
+ */
+export function transformPolygon(points: Point[], position: Point, rotation: number = 0): PolygonShape {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    return createPolygon(points.map(point => ({
+        x: position.x + point.x * cos - point.y * sin,
+        y: position.y + point.x * sin + point.y * cos
+    })));
+}
+
+// =========================================================
+// Queries
+// =========================================================
+
+/**
+ * Checks that a shape has finite coordinates, a non-negative radius and, for polygons,
+ * at least three points in convex order. Flat polygons, such as zero-height boxes, are allowed.
+ * @param shape Shape to check
+ * @throws Error describing the first problem found
+ */
+export function validateShape(shape: CollisionShape): void {
+    const core = getCore(shape);
+    if (!core.points.every(point => Number.isFinite(point.x) && Number.isFinite(point.y))) {
+        throw new Error(`Invalid ${shape.type} shape: coordinates must be finite`);
+    }
+    if (!Number.isFinite(core.radius) || core.radius < 0) {
+        throw new Error(`Invalid ${shape.type} shape: radius must be a non-negative number`);
+    }
+    if (shape.type !== 'polygon') {
+        return;
+    }
+
+    const { points } = shape;
+    if (points.length < 3) {
+        throw new Error(`Invalid polygon shape: needs at least 3 points, got ${points.length}`);
+    }
+
+    let winding = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        const c = points[(i + 2) % points.length];
+        const turn = cross(subtract(b, a), subtract(c, b));
+        if (Math.abs(turn) <= SHAPE_EPSILON) continue;
+
+        if (winding !== 0 && Math.sign(turn) !== winding) {
+            throw new Error('Invalid polygon shape: points must form a convex polygon');
+        }
+        winding = Math.sign(turn);
+    }
+}
+
+/**
+ * Gets the bounding box of a shape, for broadphase tests
+ * @param shape Shape to measure
+ */
+export function getShapeBounds(shape: CollisionShape): BoundingBox {
+    const { points, radius } = getCore(shape);
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const x = Math.min(...xs) - radius;
+    const y = Math.min(...ys) - radius;
+    return {
+        x,
+        y,
+        width: Math.max(...xs) + radius - x,
+        height: Math.max(...ys) + radius - y
+    };
+}
+
+/**
+ * Tests two shapes with the Separating Axis Theorem. The candidate axes are the polygon
+ * edge normals, capsule segment normals, and the directions between the closest core
+ * features of round shapes, which together cover every way the shapes can separate.
+ * @param a First shape
+ * @param b Second shape
+ * @returns The contact with the smallest overlap, or null if an axis separates the shapes
+ */
+export function intersectShapes(a: CollisionShape, b: CollisionShape): ShapeContact | null {
+    const coreA = getCore(a);
+    const coreB = getCore(b);
+    const axes = [...getFaceAxes(a), ...getFaceAxes(b), ...getFeatureAxes(coreA, coreB)];
+    if (axes.length === 0) {
+        axes.push(FALLBACK_AXIS);
+    }
+
+    let best: { normal: Point; depth: number } | null = null;
+    for (const axis of axes) {
+        const projA = project(coreA, axis);
+        const projB = project(coreB, axis);
+        // Overlap with B on the positive and on the negative side of A
+        const forward = projA.max - projB.min;
+        const backward = projB.max - projA.min;
+        if (forward < 0 || backward < 0) {
+            return null;
+        }
+
+        const depth = Math.min(forward, backward);
+        if (!best || depth < best.depth) {
+            best = { normal: forward <= backward ? axis : scale(axis, -1), depth };
+        }
+    }
+
+    const { normal, depth } = best as { normal: Point; depth: number };
+    return { normal, depth, contactPoint: getContactPoint(coreA, coreB, normal) };
+}
+
+// =========================================================
+// Helpers
+// =========================================================
+
+function getCore(shape: CollisionShape): ShapeCore {
+    switch (shape.type) {
+        case 'circle':
+            return { points: [shape.center], radius: shape.radius };
+        case 'capsule':
+            return { points: [shape.start, shape.end], radius: shape.radius };
+        case 'polygon':
+            return { points: shape.points, radius: 0 };
+    }
+}
+
+/**
+ * Edge normals of polygons and the side normal of capsules
+ */
+function getFaceAxes(shape: CollisionShape): Point[] {
+    if (shape.type === 'circle') {
+        return [];
+    }
+
+    const points = shape.type === 'capsule' ? [shape.start, shape.end] : shape.points;
+    const edgeCount = shape.type === 'capsule' ? 1 : points.length;
+    const axes: Point[] = [];
+    for (let i = 0; i < edgeCount; i++) {
+        const edge = subtract(points[(i + 1) % points.length], points[i]);
+        const axis = normalize({ x: -edge.y, y: edge.x });
+        if (axis) {
+            axes.push(axis);
+        }
+    }
+    return axes;
+}
+
+/**
+ * Directions from round cores to the nearest features of the other shape. Polygons have
+ * none of their own, as their edge normals already cover polygon pairs.
+ */
+function getFeatureAxes(coreA: ShapeCore, coreB: ShapeCore): Point[] {
+    // Circle and capsule cores are a point or a segment; polygons have at least three points
+    const roundA = coreA.points.length < 3;
+    const roundB = coreB.points.length < 3;
+    const axes: (Point | null)[] = [];
+
+    if (roundA && roundB) {
+        const [closestA, closestB] = closestPointsBetweenSegments(coreA.points, coreB.points);
+        axes.push(normalize(subtract(closestB, closestA)));
+    } else if (roundA) {
+        coreB.points.forEach(vertex => axes.push(normalize(subtract(vertex, closestPointOnSegment(vertex, coreA.points)))));
+    } else if (roundB) {
+        coreA.points.forEach(vertex => axes.push(normalize(subtract(closestPointOnSegment(vertex, coreB.points), vertex))));
+    }
+
+    return axes.filter((axis): axis is Point => axis !== null);
+}
+
+function project(core: ShapeCore, axis: Point): Projection {
+    let min = Infinity;
+    let max = -Infinity;
+    core.points.forEach(point => {
+        const value = dot(point, axis);
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+    });
+    return { min: min - core.radius, max: max + core.radius };
+}
+
+/**
+ * Finds the middle of where the touching features overlap: halfway between the two
+ * surfaces along the normal, and the middle of their shared extent across it
+ */
+function getContactPoint(coreA: ShapeCore, coreB: ShapeCore, normal: Point): Point {
+    const tangent = { x: -normal.y, y: normal.x };
+    const featureA = getSupport(coreA, normal, tangent);
+    const featureB = getSupport(coreB, scale(normal, -1), tangent);
+
+    const along = (featureA.depth - featureB.depth) / 2;
+    const across = (Math.max(featureA.min, featureB.min) + Math.min(featureA.max, featureB.max)) / 2;
+    return {
+        x: normal.x * along + tangent.x * across,
+        y: normal.y * along + tangent.y * across
+    };
+}
+
+/**
+ * Gets the furthest surface of a core in a direction, and the extent along the tangent
+ * of the points reaching it
+ */
+function getSupport(core: ShapeCore, direction: Point, tangent: Point): { depth: number; min: number; max: number } {
+    const furthest = Math.max(...core.points.map(point => dot(point, direction)));
+    const across = core.points
+        .filter(point => dot(point, direction) >= furthest - SHAPE_EPSILON)
+        .map(point => dot(point, tangent));
+
+    return {
+        depth: furthest + core.radius,
+        min: Math.min(...across),
+        max: Math.max(...across)
+    };
+}
+
+/**
+ * Closest point to p on a segment given as one or two points
+ */
+function closestPointOnSegment(p: Point, segment: Point[]): Point {
+    const start = segment[0];
+    const end = segment[segment.length - 1];
+    const edge = subtract(end, start);
+    const lengthSquared = dot(edge, edge);
+    if (lengthSquared <= SHAPE_EPSILON) {
+        return start;
+    }
+
+    const t = clamp(dot(subtract(p, start), edge) / lengthSquared);
+    return { x: start.x + edge.x * t, y: start.y + edge.y * t };
+}
+
+/**
+ * Closest pair of points between two segments, each given as one or two points
+ */
+function closestPointsBetweenSegments(segmentA: Point[], segmentB: Point[]): [Point, Point] {
+    const p1 = segmentA[0];
+    const p2 = segmentB[0];
+    const d1 = subtract(segmentA[segmentA.length - 1], p1);
+    const d2 = subtract(segmentB[segmentB.length - 1], p2);
+    const r = subtract(p1, p2);
+    const a = dot(d1, d1);
+    const e = dot(d2, d2);
+    const f = dot(d2, r);
+
+    let s = 0;
+    let t = 0;
+    if (a <= SHAPE_EPSILON && e > SHAPE_EPSILON) {
+        t = clamp(f / e);
+    } else if (a > SHAPE_EPSILON) {
+        const c = dot(d1, r);
+        if (e <= SHAPE_EPSILON) {
+            s = clamp(-c / a);
+        } else {
+            const b = dot(d1, d2);
+            const denominator = a * e - b * b;
+            s = denominator > SHAPE_EPSILON ? clamp((b * f - c * e) / denominator) : 0;
+            t = (b * s + f) / e;
+            if (t < 0) {
+                t = 0;
+                s = clamp(-c / a);
+            } else if (t > 1) {
+                t = 1;
+                s = clamp((b - c) / a);
+            }
+        }
+    }
+
+    return [
+        { x: p1.x + d1.x * s, y: p1.y + d1.y * s },
+        { x: p2.x + d2.x * t, y: p2.y + d2.y * t }
+    ];
+}
+
+function dot(a: Point, b: Point): number {
+    return a.x * b.x + a.y * b.y;
+}
+
+function cross(a: Point, b: Point): number {
+    return a.x * b.y - a.y * b.x;
+}
+
+function subtract(a: Point, b: Point): Point {
+    return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(v: Point, factor: number): Point {
+    return { x: v.x * factor, y: v.y * factor };
+}
+
+function normalize(v: Point): Point | null {
+    const length = Math.hypot(v.x, v.y);
+    return length > SHAPE_EPSILON ? { x: v.x / length, y: v.y / length } : null;
+}
+
+function clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,443 @@
+/**
+ * @file CollisionWorld.ts
+ * @description Collision world with layer/mask filtering. Bodies register with a layer
+ * (player, enemy, shots, shields, pickups) and a mask of the layers they collide with.
+ * Each step rebuilds a QuadTree broadphase, tests candidate pairs with CollisionSystem
+ * (swept for moving bodies, pixel masks or SAT shapes when given) and dispatches enter,
+ * stay and exit events to subscribers of layer pairs.
+ * @module engine/CollisionWorld
+ */
+
+import { BoundingBox, CollisionResult, CollisionSystem, Point } from './Collision';
+import { CollisionMask } from './CollisionMask';
+import { CollisionShape, createBoxPolygon } from './CollisionShapes';
+import { QuadTree } from './QuadTree';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Collision layers as bit flags, so masks can combine them
+ */
+export enum CollisionLayer {
+    PLAYER = 1 << 0,
+    ENEMY = 1 << 1,
+    PLAYER_SHOT = 1 << 2,
+    ENEMY_SHOT = 1 << 3,
+    SHIELD = 1 << 4,
+    PICKUP = 1 << 5
+}
+
+/**
+ * Options for registering a body
+ */
+export interface CollisionBodyConfig<T = unknown> {
+    layer: CollisionLayer;
+    /** Layers this body collides with (defaults to DEFAULT_LAYER_MASKS) */
+    mask?: number;
+    /** Game object the body belongs to */
+    owner: T;
+    /** Current bounds; read once per step */
+    getBounds: () => BoundingBox;
+    /** Bounds at the previous step; when given, the movement between the two is swept */
+    getPreviousBounds?: () => BoundingBox;
+    /** Pixel mask aligned with the bounds, refining hits */
+    getMask?: () => CollisionMask | null;
+    /**
+     * Circle, capsule or polygon in world coordinates, refining hits; the bounds stay the
+     * broadphase and should enclose it. Shapes are tested where bodies end the step.
+     */
+    getShape?: () => CollisionShape | null;
+}
+
+export type CollisionPhase = 'enter' | 'stay' | 'exit';
+
+/**
+ * Event sent to layer pair subscribers. Bodies are ordered like the subscription's layers.
+ */
+export interface CollisionEvent<A = unknown, B = unknown> {
+    phase: CollisionPhase;
+    a: CollisionBody<A>;
+    b: CollisionBody<B>;
+    /** Where the bodies touch; exit events carry the last known point */
+    contactPoint: Point | null;
+}
+
+export type CollisionEventCallback<A = unknown, B = unknown> = (event: CollisionEvent<A, B>) => void;
+
+/**
+ * Callbacks for the phases of a layer pair's contacts
+ */
+export interface CollisionHandlers<A = unknown, B = unknown> {
+    enter?: CollisionEventCallback<A, B>;
+    stay?: CollisionEventCallback<A, B>;
+    exit?: CollisionEventCallback<A, B>;
+}
+
+export interface CollisionWorldConfig {
+    /** Area covered by the broadphase; bodies outside it are still tested, just less efficiently */
+    bounds: BoundingBox;
+}
+
+interface Subscription {
+    layerA: CollisionLayer;
+    layerB: CollisionLayer;
+    handlers: CollisionHandlers<unknown, unknown>;
+}
+
+interface Contact {
+    a: CollisionBody;
+    b: CollisionBody;
+    contactPoint: Point | null;
+}
+
+/**
+ * Body state captured at the start of a step
+ */
+interface BodySnapshot {
+    body: CollisionBody;
+    bounds: BoundingBox;
+    previous: BoundingBox | null;
+    shape: CollisionShape | null;
+    /** Bounds covering the whole movement, used by the broadphase */
+    broad: BoundingBox;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+/**
+ * Which layers each layer collides with by default. A pair only collides if each
+ * body's mask includes the other's layer.
+ */
+export const DEFAULT_LAYER_MASKS: Record<CollisionLayer, number> = {
+    [CollisionLayer.PLAYER]: CollisionLayer.ENEMY | CollisionLayer.ENEMY_SHOT | CollisionLayer.PICKUP,
+    [CollisionLayer.ENEMY]: CollisionLayer.PLAYER | CollisionLayer.PLAYER_SHOT | CollisionLayer.SHIELD,
+    [CollisionLayer.PLAYER_SHOT]: CollisionLayer.ENEMY | CollisionLayer.SHIELD,
+    [CollisionLayer.ENEMY_SHOT]: CollisionLayer.PLAYER | CollisionLayer.SHIELD,
+    [CollisionLayer.SHIELD]: CollisionLayer.ENEMY | CollisionLayer.PLAYER_SHOT | CollisionLayer.ENEMY_SHOT,
+    [CollisionLayer.PICKUP]: CollisionLayer.PLAYER
+};
+
+const DEFAULT_WORLD_CONFIG: CollisionWorldConfig = {
+    bounds: { x: 0, y: 0, width: 1024, height: 768 }
+};
+
+// =========================================================
+// Collision Body
+// =========================================================
+
+/**
+ * A registered participant in collision tests
+ */
+export class CollisionBody<T = unknown> {
+    public readonly id: number;
+    public readonly layer: CollisionLayer;
+    public readonly owner: T;
+    /** Layers this body collides with */
+    public mask: number;
+    /** Disabled bodies are skipped, and their contacts exit */
+    public enabled: boolean;
+    private readonly config: CollisionBodyConfig<T>;
+
+    /**
+     * Creates a new body; use CollisionWorld.add instead
+     * @param id Unique body ID
+     * @param config Body options
+     */
+    constructor(id: number, config: CollisionBodyConfig<T>) {
+        this.id = id;
+        this.layer = config.layer;
+        this.owner = config.owner;
+        this.mask = config.mask ?? DEFAULT_LAYER_MASKS[config.layer];
+        this.enabled = true;
+        this.config = config;
+    }
+
+    /**
+     * Checks whether the layers and masks of two bodies let them collide
+     * @param other Other body
+     */
+    public canCollideWith(other: CollisionBody<unknown>): boolean {
+        return (this.mask & other.layer) !== 0 && (other.mask & this.layer) !== 0;
+    }
+
+    public getBounds(): BoundingBox {
+        return this.config.getBounds();
+    }
+
+    public getPreviousBounds(): BoundingBox | null {
+        return this.config.getPreviousBounds?.() ?? null;
+    }
+
+    public getMask(): CollisionMask | null {
+        return this.config.getMask?.() ?? null;
+    }
+
+    public getShape(): CollisionShape | null {
+        return this.config.getShape?.() ?? null;
+    }
+}
+
+// =========================================================
+// Collision World
+// =========================================================
+
+/**
+ * Finds contacts between registered bodies and dispatches events per layer pair
+ */
+export class CollisionWorld {
+    private config: CollisionWorldConfig;
+    private bodies: Map<number, CollisionBody>;
+    private subscriptions: Subscription[];
+    private contacts: Map<string, Contact>;
+    private tree: QuadTree;
+    private nextBodyId: number;
+
+    /**
+     * Creates a new CollisionWorld
+     * @param config Broadphase area
+     */
+    constructor(config: Partial<CollisionWorldConfig> = {}) {
+        this.config = { ...DEFAULT_WORLD_CONFIG, ...config };
+        this.bodies = new Map();
+        this.subscriptions = [];
+        this.contacts = new Map();
+        this.tree = new QuadTree(this.config.bounds);
+        this.nextBodyId = 1;
+    }
+
+    /**
+     * Registers a body
+     * @param config Layer, mask, owner and bounds of the body
+     * @returns The registered body
+     */
+    public add<T>(config: CollisionBodyConfig<T>): CollisionBody<T> {
+        const body = new CollisionBody(this.nextBodyId++, config);
+        this.bodies.set(body.id, body as CollisionBody);
+        return body;
+    }
+
+    /**
+     * Unregisters a body; its contacts exit on the next step
+     * @param body Body to remove
+     */
+    public remove(body: CollisionBody<unknown>): void {
+        this.bodies.delete(body.id);
+    }
+
+    /**
+     * Subscribes to contacts between two layers. Events list the body on layerA first.
+     * @param layerA First layer
+     * @param layerB Second layer (may equal layerA)
+     * @param handlers Callbacks per phase
+     */
+    public subscribe<A = unknown, B = unknown>(
+        layerA: CollisionLayer,
+        layerB: CollisionLayer,
+        handlers: CollisionHandlers<A, B>
+    ): void {
+        // Events are built with the bodies ordered by layer, so their owners match A and B
+        this.subscriptions.push({ layerA, layerB, handlers: handlers as CollisionHandlers<unknown, unknown> });
+    }
+
+    /**
+     * Removes every subscription using the given handlers
+     * @param handlers Handlers passed to subscribe
+     */
+    public unsubscribe<A = unknown, B = unknown>(handlers: CollisionHandlers<A, B>): void {
+        const registered = handlers as CollisionHandlers<unknown, unknown>;
+        this.subscriptions = this.subscriptions.filter(subscription => subscription.handlers !== registered);
+    }
+
+    /**
+     * Changes the broadphase area, e.g. after the playfield was resized
+     * @param bounds New area
+     */
+    public setBounds(bounds: BoundingBox): void {
+        this.config.bounds = { ...bounds };
+        this.tree = new QuadTree(this.config.bounds);
+    }
+
+    /**
+     * Finds all contacts and dispatches enter, stay and exit events.
+     * Call once per fixed update, after bodies have moved.
+     */
+    public step(): void {
+        const snapshots = this.captureBodies();
+        const contacts = new Map<string, Contact>();
+
+        snapshots.forEach(a => {
+            this.tree.retrieve(a.broad).forEach(candidate => {
+                const b = snapshots.get(candidate.id);
+                // Each pair is tested once, from its lower ID
+                if (!b || b.body.id <= a.body.id || !a.body.canCollideWith(b.body)) {
+                    return;
+                }
+                if (!QuadTree.checkCollision(a.broad, b.broad)) {
+                    return;
+                }
+
+                const result = this.testPair(a, b);
+                if (result.colliding) {
+                    contacts.set(this.getPairKey(a.body, b.body), {
+                        a: a.body,
+                        b: b.body,
+                        contactPoint: result.contactPoint ?? null
+                    });
+                }
+            });
+        });
+
+        const previous = this.contacts;
+        this.contacts = contacts;
+
+        contacts.forEach((contact, key) => {
+            this.dispatch(previous.has(key) ? 'stay' : 'enter', contact);
+        });
+        previous.forEach((contact, key) => {
+            if (!contacts.has(key)) {
+                this.dispatch('exit', contact);
+            }
+        });
+    }
+
+    /**
+     * Checks whether two bodies were touching after the last step
+     * @param a First body
+     * @param b Second body
+     */
+    public isTouching(a: CollisionBody<unknown>, b: CollisionBody<unknown>): boolean {
+        return this.contacts.has(this.getPairKey(a, b));
+    }
+
+    /**
+     * Gets the number of registered bodies
+     */
+    public getBodyCount(): number {
+        return this.bodies.size;
+    }
+
+    /**
+     * Removes all bodies and contacts without dispatching events; subscriptions are kept
+     */
+    public clear(): void {
+        this.bodies.clear();
+        this.contacts.clear();
+        this.tree.clear();
+    }
+
+    /**
+     * Reads the bounds of enabled bodies and fills the broadphase
+     * @private
+     */
+    private captureBodies(): Map<string, BodySnapshot> {
+        const snapshots = new Map<string, BodySnapshot>();
+        this.tree.clear();
+
+        this.bodies.forEach(body => {
+            if (!body.enabled) return;
+
+            const bounds = body.getBounds();
+            const previous = body.getPreviousBounds();
+            const shape = body.getShape();
+            const broad = previous ? this.union(previous, bounds) : bounds;
+            const id = String(body.id);
+
+            snapshots.set(id, { body, bounds, previous, shape, broad });
+            this.tree.insert({ id, bounds: broad });
+        });
+
+        return snapshots;
+    }
+
+    /**
+     * Tests a candidate pair. Pairs with a shape use SAT, a body without one counting as its
+     * box; otherwise the movement is swept when either body reports previous bounds.
+     * The test runs in the frame of the second body's previous position, so its contact
+     * point is moved along with the second body to the time of impact.
+     * @private
+     */
+    private testPair(a: BodySnapshot, b: BodySnapshot): CollisionResult {
+        if (a.shape || b.shape) {
+            return CollisionSystem.checkShapeCollision(
+                a.shape ?? createBoxPolygon(a.bounds),
+                b.shape ?? createBoxPolygon(b.bounds)
+            );
+        }
+
+        const maskA = a.body.getMask();
+        const maskB = b.body.getMask();
+
+        if (!a.previous && !b.previous) {
+            return CollisionSystem.checkMaskCollision(a.bounds, maskA, b.bounds, maskB);
+        }
+
+        const startA = a.previous ?? a.bounds;
+        const startB = b.previous ?? b.bounds;
+        const moveB = { x: b.bounds.x - startB.x, y: b.bounds.y - startB.y };
+        const delta = {
+            x: (a.bounds.x - startA.x) - moveB.x,
+            y: (a.bounds.y - startA.y) - moveB.y
+        };
+
+        const result = CollisionSystem.checkSweptCollision(startA, delta, maskA, startB, maskB);
+        if (result.contactPoint && result.time !== undefined) {
+            result.contactPoint = {
+                x: result.contactPoint.x + moveB.x * result.time,
+                y: result.contactPoint.y + moveB.y * result.time
+            };
+        }
+        return result;
+    }
+
+    /**
+     * Sends a contact event to the subscribers of its layer pair
+     * @private
+     */
+    private dispatch(phase: CollisionPhase, contact: Contact): void {
+        this.subscriptions.forEach(({ layerA, layerB, handlers }) => {
+            const callback = handlers[phase];
+            if (!callback) return;
+
+            let event: CollisionEvent | null = null;
+            if (contact.a.layer === layerA && contact.b.layer === layerB) {
+                event = { phase, a: contact.a, b: contact.b, contactPoint: contact.contactPoint };
+            } else if (contact.a.layer === layerB && contact.b.layer === layerA) {
+                event = { phase, a: contact.b, b: contact.a, contactPoint: contact.contactPoint };
+            }
+            if (!event) return;
+
+            try {
+                callback(event);
+            } catch (error) {
+                console.error(`Error in ${phase} handler for collision layers ${layerA}/${layerB}:`, error);
+            }
+        });
+    }
+
+    /**
+     * Gets a key identifying an unordered pair of bodies
+     * @private
+     */
+    private getPairKey(a: CollisionBody<unknown>, b: CollisionBody<unknown>): string {
+        return a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+    }
+
+    /**
+     * Gets the box covering two boxes
+     * @private
+     */
+    private union(a: BoundingBox, b: BoundingBox): BoundingBox {
+        const x = Math.min(a.x, b.x);
+        const y = Math.min(a.y, b.y);
+        return {
+            x,
+            y,
+            width: Math.max(a.x + a.width, b.x + b.width) - x,
+            height: Math.max(a.y + a.height, b.y + b.height) - y
+        };
+    }
+}
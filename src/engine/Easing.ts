@@ -0,0 +1,22 @@
+/**
+ * @file Easing.ts
+ * @module Easing
+ * @description Common easing curves used for tweening values over time.
+ * Every curve maps a normalized progress value in [0, 1] to an eased value in [0, 1].
+ */
+
+/**
+ * Function mapping normalized progress to eased progress
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Collection of standard easing curves
+ */
+export const Easing = {
+    linear: (t: number): number => t,
+    easeInQuad: (t: number): number => t * t,
+    easeOutQuad: (t: number): number => t * (2 - t),
+    easeInOutQuad: (t: number): number => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+    easeOutCubic: (t: number): number => 1 - Math.pow(1 - t, 3),
+} as const;
@@ -0,0 +1,353 @@
+/**
+ * @file FrameDebugger.ts
+ * @module FrameDebugger
+ * @description Frame-advance debug controller layered on top of GameLoop. Freezes the simulation,
+ * steps a given number of fixed updates, and plays back at reduced speed, while rendering keeps
+ * running so debug overlays stay interactive.
+ *
+ * Default hotkeys:
+ * - F6: pause / resume the simulation
+ * - F7: step one update (Shift+F7 steps ten)
+ * - F8: cycle playback speed (1x, 1/2x, 1/4x)
+ * - F9: toggle the stats overlay
+ * - F10: toggle the render stats sparklines
+ */
+
+import { GameLoop, GameLoopStats } from './GameLoop';
+import { RenderStats } from '../render/RenderStats';
+
+/**
+ * Hotkey bindings, matched against KeyboardEvent.key
+ */
+export interface FrameDebuggerKeys {
+    togglePause: string;
+    step: string;
+    cycleSpeed: string;
+    toggleOverlay: string;
+    toggleRenderStats: string;
+}
+
+/**
+ * Configuration options for the frame debugger
+ */
+export interface FrameDebuggerConfig {
+    /** When false, hotkeys are ignored and the API has no effect */
+    enabled: boolean;
+    keys: FrameDebuggerKeys;
+    /** Updates run by the step hotkey while Shift is held */
+    largeStep: number;
+    /** Playback rates cycled through by the speed hotkey */
+    speeds: number[];
+    /** Whether the stats overlay is drawn initially */
+    showOverlay: boolean;
+}
+
+/**
+ * Game loop statistics extended with the debugger's state
+ */
+export interface FrameDebuggerStats extends GameLoopStats {
+    paused: boolean;
+    playbackRate: number;
+    /** Fixed updates run through step() since the debugger was created */
+    steppedUpdates: number;
+}
+
+/**
+ * Default configuration for the frame debugger
+ */
+const DEFAULT_FRAME_DEBUGGER_CONFIG: FrameDebuggerConfig = {
+    enabled: true,
+    keys: {
+        togglePause: 'F6',
+        step: 'F7',
+        cycleSpeed: 'F8',
+        toggleOverlay: 'F9',
+        toggleRenderStats: 'F10'
+    },
+    largeStep: 10,
+    speeds: [1, 0.5, 0.25],
+    showOverlay: false
+};
+
+// Overlay layout
+const OVERLAY_X = 8;
+const OVERLAY_Y = 8;
+const OVERLAY_WIDTH = 220;
+const OVERLAY_LINE_HEIGHT = 14;
+const OVERLAY_GAP = 8;
+
+/**
+ * Debug controller for pausing, stepping and slowing down a game loop
+ */
+export class FrameDebugger {
+    private gameLoop: GameLoop;
+    private config: FrameDebuggerConfig;
+    private speedIndex: number;
+    private steppedUpdates: number;
+    private overlayVisible: boolean;
+    private renderStats: RenderStats | null;
+    private attached: boolean;
+
+    /**
+     * Creates a new FrameDebugger instance
+     * @param gameLoop - Loop to control
+     * @param config - Optional configuration to override defaults
+     */
+    constructor(gameLoop: GameLoop, config: Partial<FrameDebuggerConfig> = {}) {
+        this.gameLoop = gameLoop;
+        this.config = {
+            ...DEFAULT_FRAME_DEBUGGER_CONFIG,
+            ...config,
+            keys: { ...DEFAULT_FRAME_DEBUGGER_CONFIG.keys, ...config.keys }
+        };
+
+        if (this.config.speeds.length === 0) {
+            throw new Error('Frame debugger needs at least one playback speed');
+        }
+
+        this.speedIndex = 0;
+        this.steppedUpdates = 0;
+        this.overlayVisible = this.config.showOverlay;
+        this.renderStats = null;
+        this.attached = false;
+
+        this.handleKeyDown = this.handleKeyDown.bind(this);
+    }
+
+    /**
+     * Starts listening for debug hotkeys
+     */
+    public attach(): void {
+        if (this.attached) {
+            return;
+        }
+
+        window.addEventListener('keydown', this.handleKeyDown);
+        this.attached = true;
+    }
+
+    /**
+     * Stops listening for hotkeys and returns the loop to normal playback
+     */
+    public detach(): void {
+        if (!this.attached) {
+            return;
+        }
+
+        window.removeEventListener('keydown', this.handleKeyDown);
+        this.attached = false;
+        this.resume();
+        this.setSpeed(1);
+    }
+
+    /**
+     * Enables or disables the debugger at runtime
+     * @param enabled - Whether the debugger is active
+     */
+    public setEnabled(enabled: boolean): void {
+        if (!enabled) {
+            this.resume();
+            this.setSpeed(1);
+        }
+        this.config.enabled = enabled;
+    }
+
+    /**
+     * Freezes the simulation
+     */
+    public pause(): void {
+        if (!this.config.enabled) {
+            return;
+        }
+        this.gameLoop.setSimulationPaused(true);
+    }
+
+    /**
+     * Unfreezes the simulation
+     */
+    public resume(): void {
+        this.gameLoop.setSimulationPaused(false);
+    }
+
+    /**
+     * Toggles between paused and running
+     */
+    public togglePause(): void {
+        if (this.isPaused()) {
+            this.resume();
+        } else {
+            this.pause();
+        }
+    }
+
+    /**
+     * Checks whether the simulation is frozen
+     */
+    public isPaused(): boolean {
+        return this.gameLoop.isSimulationPaused();
+    }
+
+    /**
+     * Runs a number of fixed updates on the next frame, pausing first if needed
+     * @param count - Number of fixed updates to run
+     */
+    public step(count: number = 1): void {
+        if (!this.config.enabled) {
+            return;
+        }
+
+        this.pause();
+        this.gameLoop.stepUpdates(count);
+        this.steppedUpdates += count;
+    }
+
+    /**
+     * Sets the playback speed
+     * @param rate - Playback rate (1 for real time, 0.25 for quarter speed)
+     */
+    public setSpeed(rate: number): void {
+        this.gameLoop.setPlaybackRate(rate);
+        const index = this.config.speeds.indexOf(rate);
+        if (index !== -1) {
+            this.speedIndex = index;
+        }
+    }
+
+    /**
+     * Advances to the next configured playback speed
+     */
+    public cycleSpeed(): void {
+        if (!this.config.enabled) {
+            return;
+        }
+
+        this.speedIndex = (this.speedIndex + 1) % this.config.speeds.length;
+        this.gameLoop.setPlaybackRate(this.config.speeds[this.speedIndex]);
+    }
+
+    /**
+     * Gets the current playback speed
+     */
+    public getSpeed(): number {
+        return this.gameLoop.getPlaybackRate();
+    }
+
+    /**
+     * Shows or hides the stats overlay
+     * @param visible - Whether the overlay is drawn
+     */
+    public setOverlayVisible(visible: boolean): void {
+        this.overlayVisible = visible;
+    }
+
+    /**
+     * Checks whether the stats overlay is drawn
+     */
+    public isOverlayVisible(): boolean {
+        return this.overlayVisible;
+    }
+
+    /**
+     * Sets the render statistics whose sparklines are drawn next to the stats overlay
+     * @param renderStats - Statistics to draw (usually Renderer.getStats()), or null for none
+     */
+    public setRenderStats(renderStats: RenderStats | null): void {
+        this.renderStats = renderStats;
+    }
+
+    /**
+     * Returns the loop statistics along with the debugger's state
+     */
+    public getStats(): FrameDebuggerStats {
+        return {
+            ...this.gameLoop.getStats(),
+            paused: this.isPaused(),
+            playbackRate: this.getSpeed(),
+            steppedUpdates: this.steppedUpdates
+        };
+    }
+
+    /**
+     * Draws the stats overlay and render stats sparklines; Canvas calls this after each
+     * frame once set with Canvas.setDebugOverlay
+     * @param ctx - Context to draw into
+     */
+    public renderOverlay(ctx: CanvasRenderingContext2D): void {
+        if (!this.config.enabled) {
+            return;
+        }
+
+        if (this.overlayVisible) {
+            this.renderStatsOverlay(ctx);
+        }
+
+        const renderStatsX = this.overlayVisible ? OVERLAY_X + OVERLAY_WIDTH + OVERLAY_GAP : OVERLAY_X;
+        this.renderStats?.renderOverlay(ctx, renderStatsX, OVERLAY_Y);
+    }
+
+    /**
+     * Draws the game loop statistics
+     * @private
+     */
+    private renderStatsOverlay(ctx: CanvasRenderingContext2D): void {
+        const stats = this.getStats();
+        const lines = [
+            stats.paused ? 'PAUSED' : `RUNNING x${stats.playbackRate}`,
+            `FPS: ${stats.fps.toFixed(1)}`,
+            `Frame: ${stats.frame.mean.toFixed(2)}ms (p95 ${stats.frame.p95.toFixed(2)}ms)`,
+            `Stepped updates: ${stats.steppedUpdates}`
+        ];
+
+        Object.keys(stats.phases).forEach(phase => {
+            const phaseStats = stats.phases[phase];
+            lines.push(`${phase}: ${phaseStats.mean.toFixed(2)}ms (p95 ${phaseStats.p95.toFixed(2)}ms)`);
+        });
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(OVERLAY_X, OVERLAY_Y, OVERLAY_WIDTH, lines.length * OVERLAY_LINE_HEIGHT + 8);
+        ctx.fillStyle = stats.paused ? '#ffcc00' : '#00ff00';
+        ctx.font = '11px monospace';
+        ctx.textBaseline = 'top';
+        lines.forEach((line, index) => {
+            ctx.fillText(line, OVERLAY_X + 4, OVERLAY_Y + 4 + index * OVERLAY_LINE_HEIGHT);
+        });
+        ctx.restore();
+    }
+
+    /**
+     * Handles debug hotkeys
+     * @private
+     */
+    private handleKeyDown(event: KeyboardEvent): void {
+        if (!this.config.enabled) {
+            return;
+        }
+
+        const keys = this.config.keys;
+        switch (event.key) {
+            case keys.togglePause:
+                this.togglePause();
+                break;
+            case keys.step:
+                this.step(event.shiftKey ? this.config.largeStep : 1);
+                break;
+            case keys.cycleSpeed:
+                this.cycleSpeed();
+                break;
+            case keys.toggleOverlay:
+                this.overlayVisible = !this.overlayVisible;
+                break;
+            case keys.toggleRenderStats:
+                if (!this.renderStats) {
+                    return;
+                }
+                this.renderStats.toggleOverlay();
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+    }
+}
@@ -9,21 +9,52 @@
  * - FPS monitoring and statistics
  * - Configurable update rate
  * - Panic mode for handling slow performance
+ * - Injectable clock for headless, deterministic stepping
+ * - Optional time scale channels advanced in real time each frame
+ * - Per-phase profiling with percentiles through the shared frame profiler
+ * - Simulation pause, single-stepping and slow playback for debugging
  */
 
+import { Clock, getDefaultClock } from './Clock';
+import { TimeScale } from './TimeScale';
+import { FrameProfiler, PhaseStats } from '../utils/Performance';
+
 // Constants for game loop configuration
 const DEFAULT_FPS = 60;
 const DEFAULT_FRAME_TIME = 1000 / DEFAULT_FPS;
 const MAX_UPDATES_PER_FRAME = 10;
+const STATS_WINDOW = 1000;
+// Tolerance for floating point drift when comparing accumulated time to the timestep
+const TIMESTEP_EPSILON = 1e-6;
+
+/**
+ * Update step that per-tick gameplay values (speeds in pixels per update) were tuned for.
+ * Raising the logic rate keeps gameplay speed unchanged as long as such values are scaled
+ * with toReferenceTicks.
+ */
+export const REFERENCE_FRAME_TIME = DEFAULT_FRAME_TIME;
+
+/**
+ * Converts an update's delta time into a number of reference ticks
+ * @param deltaTime - Fixed update duration (in milliseconds)
+ * @returns Fraction of a 60 Hz update represented by deltaTime
+ */
+export function toReferenceTicks(deltaTime: number): number {
+    return deltaTime / REFERENCE_FRAME_TIME;
+}
 
 /**
  * Statistics interface for monitoring game loop performance
  */
-interface GameLoopStats {
+export interface GameLoopStats {
     fps: number;
     frameTime: number;
     updates: number;
     renders: number;
+    /** Percentiles of whole-frame CPU time over the profiler window */
+    frame: PhaseStats;
+    /** Percentiles of each named phase over the profiler window */
+    phases: Record<string, PhaseStats>;
 }
 
 /**
@@ -39,9 +70,13 @@ interface GameLoopCallbacks {
  * Configuration options for the game loop
  */
 interface GameLoopOptions {
+    /** Logic update rate in Hz (rendering always follows the display) */
     fps?: number;
     enableStats?: boolean;
     maxUpdatesPerFrame?: number;
+    clock?: Clock;
+    timeScale?: TimeScale;
+    profiler?: FrameProfiler;
 }
 
 /**
@@ -55,8 +90,16 @@ export class GameLoop {
     private lastTime: number;
     private accumulated: number;
     private stats: GameLoopStats;
-    private statsInterval: number;
+    private statsEnabled: boolean;
+    private statsWindowStart: number;
     private callbacks: GameLoopCallbacks;
+    private clock: Clock;
+    private timeScale: TimeScale | null;
+    private profiler: FrameProfiler;
+    private panicListeners: Set<() => void>;
+    private simulationPaused: boolean;
+    private pendingSteps: number;
+    private playbackRate: number;
     private rafId: number;
 
     /**
@@ -74,6 +117,13 @@ export class GameLoop {
         this.lastTime = 0;
         this.accumulated = 0;
         this.callbacks = callbacks;
+        this.clock = options.clock || getDefaultClock();
+        this.timeScale = options.timeScale || null;
+        this.profiler = options.profiler || FrameProfiler.getInstance();
+        this.panicListeners = new Set();
+        this.simulationPaused = false;
+        this.pendingSteps = 0;
+        this.playbackRate = 1;
         this.rafId = 0;
 
         this.stats = {
@@ -81,11 +131,12 @@ export class GameLoop {
             frameTime: 0,
             updates: 0,
             renders: 0,
+            frame: this.profiler.getFrameStats(),
+            phases: {},
         };
 
-        if (options.enableStats) {
-            this.initializeStatsTracking();
-        }
+        this.statsEnabled = !!options.enableStats;
+        this.statsWindowStart = 0;
     }
 
     /**
@@ -97,9 +148,10 @@ export class GameLoop {
         }
 
         this.running = true;
-        this.lastTime = performance.now();
+        this.lastTime = this.clock.now();
+        this.statsWindowStart = this.lastTime;
         this.accumulated = 0;
-        this.rafId = requestAnimationFrame(this.loop.bind(this));
+        this.rafId = this.clock.requestFrame(this.loop.bind(this));
     }
 
     /**
@@ -111,14 +163,126 @@ export class GameLoop {
         }
 
         this.running = false;
-        cancelAnimationFrame(this.rafId);
+        this.clock.cancelFrame(this.rafId);
+    }
+
+    /**
+     * Freezes or unfreezes fixed updates. Rendering keeps running while frozen.
+     * @param paused - Whether the simulation should be frozen
+     */
+    public setSimulationPaused(paused: boolean): void {
+        this.simulationPaused = paused;
+        this.accumulated = 0;
+        if (!paused) {
+            this.pendingSteps = 0;
+        }
+    }
+
+    /**
+     * Checks whether fixed updates are frozen
+     */
+    public isSimulationPaused(): boolean {
+        return this.simulationPaused;
+    }
+
+    /**
+     * Queues fixed updates to run on the next frame while the simulation is frozen
+     * @param count - Number of fixed updates to run
+     */
+    public stepUpdates(count: number = 1): void {
+        if (!Number.isInteger(count) || count <= 0) {
+            throw new Error('Step count must be a positive integer');
+        }
+        this.pendingSteps += count;
+    }
+
+    /**
+     * Sets how fast simulated time advances relative to real time
+     * @param rate - Playback rate (e.g. 0.25 for quarter speed)
+     */
+    public setPlaybackRate(rate: number): void {
+        if (rate <= 0 || !Number.isFinite(rate)) {
+            throw new Error('Playback rate must be a positive finite number');
+        }
+        this.playbackRate = rate;
+    }
+
+    /**
+     * Gets the simulation playback rate
+     */
+    public getPlaybackRate(): number {
+        return this.playbackRate;
+    }
+
+    /**
+     * Discards accumulated time so the next frame starts fresh after a suspension
+     */
+    public resetAccumulator(): void {
+        this.lastTime = this.clock.now();
+        this.accumulated = 0;
     }
 
     /**
      * Returns current game loop statistics
      */
     public getStats(): GameLoopStats {
-        return { ...this.stats };
+        return {
+            ...this.stats,
+            frame: this.profiler.getFrameStats(),
+            phases: this.profiler.getSummary(),
+        };
+    }
+
+    /**
+     * Adds a listener notified whenever the loop enters panic mode
+     * @param listener - Function to call on panic
+     */
+    public addPanicListener(listener: () => void): void {
+        this.panicListeners.add(listener);
+    }
+
+    /**
+     * Removes a panic listener
+     * @param listener - Function to remove
+     */
+    public removePanicListener(listener: () => void): void {
+        this.panicListeners.delete(listener);
+    }
+
+    /**
+     * Gets the profiler this loop reports into
+     */
+    public getProfiler(): FrameProfiler {
+        return this.profiler;
+    }
+
+    /**
+     * Gets the fixed update duration
+     * @returns Fixed timestep in milliseconds
+     */
+    public getFrameTime(): number {
+        return this.frameTime;
+    }
+
+    /**
+     * Checks whether the loop is currently running
+     */
+    public isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Gets the time scale advanced by this loop, if any
+     */
+    public getTimeScale(): TimeScale | null {
+        return this.timeScale;
+    }
+
+    /**
+     * Gets the clock driving this loop
+     */
+    public getClock(): Clock {
+        return this.clock;
     }
 
     /**
@@ -130,6 +294,8 @@ export class GameLoop {
             return;
         }
 
+        this.profiler.beginFrame();
+
         let deltaTime = currentTime - this.lastTime;
         this.lastTime = currentTime;
 
@@ -138,35 +304,44 @@ export class GameLoop {
             deltaTime = this.frameTime;
         }
 
-        this.accumulated += deltaTime;
-        let updates = 0;
+        // Scale tweens and hit-stops run on real time, independent of the fixed step
+        if (this.timeScale) {
+            this.timeScale.update(deltaTime);
+        }
+
+        let interpolation: number;
 
-        // Update game logic at fixed timestep
-        while (this.accumulated >= this.frameTime) {
-            try {
-                this.callbacks.update(this.frameTime);
+        if (this.simulationPaused) {
+            // Only run explicitly requested steps and show their final state
+            while (this.pendingSteps > 0) {
+                this.pendingSteps--;
+                this.runUpdate();
+            }
+            interpolation = 1;
+        } else {
+            this.accumulated += deltaTime * this.playbackRate;
+            let updates = 0;
+
+            // Update game logic at fixed timestep
+            while (this.accumulated + TIMESTEP_EPSILON >= this.frameTime) {
+                this.runUpdate();
                 this.accumulated -= this.frameTime;
                 updates++;
-                this.stats.updates++;
 
                 // Check for update spiral
                 if (updates >= this.maxUpdatesPerFrame) {
                     this.handlePanic();
                     break;
                 }
-            } catch (error) {
-                console.error('Error in update callback:', error);
-                this.stop();
-                throw error;
             }
-        }
 
-        // Calculate interpolation for smooth rendering
-        const interpolation = this.accumulated / this.frameTime;
+            // Calculate interpolation for smooth rendering
+            interpolation = Math.max(0, this.accumulated / this.frameTime);
+        }
 
         // Render frame
         try {
-            this.callbacks.render(interpolation);
+            this.profiler.measure('render', () => this.callbacks.render(interpolation));
             this.stats.renders++;
         } catch (error) {
             console.error('Error in render callback:', error);
@@ -175,10 +350,31 @@ export class GameLoop {
         }
 
         // Update stats
+        this.profiler.endFrame();
         this.stats.frameTime = deltaTime;
+        if (this.statsEnabled) {
+            this.updateStatsWindow(currentTime);
+        }
 
         // Queue next frame
-        this.rafId = requestAnimationFrame(this.loop.bind(this));
+        if (this.running) {
+            this.rafId = this.clock.requestFrame(this.loop.bind(this));
+        }
+    }
+
+    /**
+     * Runs one fixed update
+     * @private
+     */
+    private runUpdate(): void {
+        try {
+            this.profiler.measure('update', () => this.callbacks.update(this.frameTime));
+            this.stats.updates++;
+        } catch (error) {
+            console.error('Error in update callback:', error);
+            this.stop();
+            throw error;
+        }
     }
 
     /**
@@ -190,6 +386,13 @@ export class GameLoop {
         if (this.callbacks.onPanic) {
             this.callbacks.onPanic();
         }
+        this.panicListeners.forEach(listener => {
+            try {
+                listener();
+            } catch (error) {
+                console.error('Error in panic listener:', error);
+            }
+        });
     }
 
     /**
@@ -206,15 +409,19 @@ export class GameLoop {
     }
 
     /**
-     * Initializes FPS tracking
+     * Rolls the FPS counters over once per stats window of clock time
      * @private
      */
-    private initializeStatsTracking(): void {
-        this.statsInterval = window.setInterval(() => {
-            this.stats.fps = this.stats.renders;
-            this.stats.renders = 0;
-            this.stats.updates = 0;
-        }, 1000);
+    private updateStatsWindow(currentTime: number): void {
+        const elapsed = currentTime - this.statsWindowStart;
+        if (elapsed < STATS_WINDOW) {
+            return;
+        }
+
+        this.stats.fps = (this.stats.renders * 1000) / elapsed;
+        this.stats.renders = 0;
+        this.stats.updates = 0;
+        this.statsWindowStart = currentTime;
     }
 
     /**
@@ -222,8 +429,6 @@ export class GameLoop {
      */
     public dispose(): void {
         this.stop();
-        if (this.statsInterval) {
-            clearInterval(this.statsInterval);
-        }
+        this.statsEnabled = false;
     }
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * @file Interpolation.ts
+ * @module Interpolation
+ * @description Helpers for blending entity transforms between fixed updates. Entities keep the
+ * transform from the previous fixed step alongside the current one, and the renderer draws them
+ * at the game loop's interpolation factor so motion stays smooth on high refresh rate screens.
+ */
+
+/**
+ * Position and rotation of an entity
+ */
+export interface Transform2D {
+    x: number;
+    y: number;
+    /** Rotation in radians */
+    rotation: number;
+}
+
+/**
+ * Implemented by entities that can be drawn between fixed updates
+ */
+export interface Interpolatable {
+    /** Copies the current transform into the previous one; called at the start of each fixed update */
+    savePreviousTransform(): void;
+    /** Blends the previous and current transforms */
+    getInterpolatedTransform(alpha: number): Transform2D;
+}
+
+/**
+ * Linearly interpolates between two values
+ * @param from - Start value
+ * @param to - End value
+ * @param alpha - Blend factor between 0 and 1
+ */
+export function lerp(from: number, to: number, alpha: number): number {
+    return from + (to - from) * alpha;
+}
+
+/**
+ * Interpolates between two angles along the shortest arc
+ * @param from - Start angle in radians
+ * @param to - End angle in radians
+ * @param alpha - Blend factor between 0 and 1
+ */
+export function lerpAngle(from: number, to: number, alpha: number): number {
+    let difference = (to - from) % (Math.PI * 2);
+    if (difference > Math.PI) difference -= Math.PI * 2;
+    if (difference < -Math.PI) difference += Math.PI * 2;
+    return from + difference * alpha;
+}
+
+/**
+ * Blends two transforms
+ * @param previous - Transform at the previous fixed step
+ * @param current - Transform at the current fixed step
+ * @param alpha - Interpolation factor from the game loop
+ */
+export function interpolateTransform(previous: Transform2D, current: Transform2D, alpha: number): Transform2D {
+    const t = Math.max(0, Math.min(1, alpha));
+    return {
+        x: lerp(previous.x, current.x, t),
+        y: lerp(previous.y, current.y, t),
+        rotation: lerpAngle(previous.rotation, current.rotation, t)
+    };
+}
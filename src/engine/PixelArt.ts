@@ -0,0 +1,226 @@
+/**
+ * @file PixelArt.ts
+ * @description Procedural pixel-art sprites defined as ASCII bitmaps. Each character of a
+ * bitmap row is one pixel whose colour comes from a palette; frames are rasterised once into
+ * a horizontal strip canvas that Sprite draws like any other image. Strips are scaled by whole
+ * pixels at rasterisation time and drawn with smoothing off, so they stay crisp at any size.
+ * @module engine/PixelArt
+ */
+
+import { Sprite, AnimationClip } from './Sprite';
+import { CanvasFactory } from './TextureAtlas';
+import { RenderLayer } from '../render/RenderLayer';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Maps bitmap characters to CSS colours. Characters mapped to null, and '.' or ' ' unless
+ * mapped explicitly, are transparent.
+ */
+export type BitmapPalette = Record<string, string | null>;
+
+/**
+ * Multi-frame ASCII bitmap
+ */
+export interface BitmapDefinition {
+    /** Unique name, part of the texture key */
+    name: string;
+    /** Frames as rows of characters; all frames must have the same size */
+    frames: string[][];
+    /** Default colours */
+    palette: BitmapPalette;
+}
+
+/**
+ * Options for rasterising a bitmap
+ */
+export interface RasterizeOptions {
+    /** Whole-pixel scale factor */
+    scale: number;
+    /** Colours replacing entries of the bitmap's palette */
+    palette?: BitmapPalette;
+    /** Name of the recolouring, used in the texture key */
+    variant: string;
+    canvasFactory: CanvasFactory;
+}
+
+/**
+ * Rasterised bitmap ready to be used as a sprite strip
+ */
+export interface RasterizedBitmap {
+    image: HTMLCanvasElement;
+    textureKey: string;
+    /** Size of one frame after scaling */
+    frameWidth: number;
+    frameHeight: number;
+    frameCount: number;
+}
+
+/**
+ * Options for creating a sprite from a bitmap
+ */
+export interface BitmapSpriteOptions extends Partial<RasterizeOptions> {
+    frameRate?: number;
+    layer?: RenderLayer;
+    z?: number;
+    clips?: Record<string, AnimationClip>;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+const TRANSPARENT_CHARS = ['.', ' '];
+
+const DEFAULT_RASTERIZE_OPTIONS: RasterizeOptions = {
+    scale: 1,
+    variant: 'default',
+    canvasFactory: (width, height) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    }
+};
+
+/** Rasterised strips by texture key */
+const rasterCache = new Map<string, RasterizedBitmap>();
+
+// =========================================================
+// Functions
+// =========================================================
+
+/**
+ * Checks that all frames and rows of a bitmap have the same size and that every
+ * visible character has a colour
+ * @param bitmap - Bitmap to check
+ * @param palette - Palette the bitmap will be drawn with
+ * @throws Error describing the first problem found
+ */
+export function validateBitmap(bitmap: BitmapDefinition, palette: BitmapPalette = bitmap.palette): void {
+    if (bitmap.frames.length === 0 || bitmap.frames[0].length === 0) {
+        throw new Error(`Bitmap '${bitmap.name}' has no pixels`);
+    }
+
+    const height = bitmap.frames[0].length;
+    const width = bitmap.frames[0][0].length;
+
+    bitmap.frames.forEach((frame, frameIndex) => {
+        if (frame.length !== height) {
+            throw new Error(`Bitmap '${bitmap.name}' frame ${frameIndex} has ${frame.length} rows, expected ${height}`);
+        }
+        frame.forEach((row, y) => {
+            if (row.length !== width) {
+                throw new Error(`Bitmap '${bitmap.name}' frame ${frameIndex} row ${y} is ${row.length} wide, expected ${width}`);
+            }
+            for (const char of row) {
+                if (!(char in palette) && !TRANSPARENT_CHARS.includes(char)) {
+                    throw new Error(`Bitmap '${bitmap.name}' uses '${char}', which is not in the palette`);
+                }
+            }
+        });
+    });
+}
+
+/**
+ * Rasterises all frames of a bitmap side by side into one canvas. Results are cached by
+ * bitmap name, variant, scale and palette overrides, so sprites of the same kind share a
+ * texture and a recolouring is never served another one's colours.
+ * @param bitmap - Bitmap to rasterise
+ * @param options - Scale, recolouring and canvas factory
+ * @throws Error if the bitmap is invalid or the scale is not a positive integer
+ * @returns Strip canvas and frame metrics
+ */
+export function rasterizeBitmap(bitmap: BitmapDefinition, options: Partial<RasterizeOptions> = {}): RasterizedBitmap {
+    const { scale, palette: overrides, variant, canvasFactory } = { ...DEFAULT_RASTERIZE_OPTIONS, ...options };
+
+    if (!Number.isInteger(scale) || scale <= 0) {
+        throw new Error(`Bitmap scale must be a positive integer, got ${scale}`);
+    }
+
+    const overrideKey = getPaletteKey(overrides ?? {});
+    const textureKey = `bitmap:${bitmap.name}:${variant}:${scale}${overrideKey ? `:${overrideKey}` : ''}`;
+    const cached = rasterCache.get(textureKey);
+    if (cached) {
+        return cached;
+    }
+
+    const palette: BitmapPalette = { ...bitmap.palette, ...overrides };
+    validateBitmap(bitmap, palette);
+
+    const rows = bitmap.frames[0].length;
+    const columns = bitmap.frames[0][0].length;
+    const frameWidth = columns * scale;
+    const frameHeight = rows * scale;
+
+    const image = canvasFactory(frameWidth * bitmap.frames.length, frameHeight);
+    const context = image.getContext('2d');
+    if (!context) {
+        throw new Error('Failed to get 2D context for bitmap rasterisation');
+    }
+
+    bitmap.frames.forEach((frame, frameIndex) => {
+        const offsetX = frameIndex * frameWidth;
+        frame.forEach((row, y) => {
+            [...row].forEach((char, x) => {
+                const color = char in palette ? palette[char] : null;
+                if (!color) return;
+                context.fillStyle = color;
+                context.fillRect(offsetX + x * scale, y * scale, scale, scale);
+            });
+        });
+    });
+
+    const result: RasterizedBitmap = {
+        image,
+        textureKey,
+        frameWidth,
+        frameHeight,
+        frameCount: bitmap.frames.length
+    };
+    rasterCache.set(textureKey, result);
+    return result;
+}
+
+/**
+ * Creates a sprite drawing a rasterised bitmap, one frame per bitmap frame
+ * @param bitmap - Bitmap to draw
+ * @param options - Rasterisation, animation and draw order options
+ * @returns Sprite sharing the cached strip of the bitmap variant
+ */
+export function createBitmapSprite(bitmap: BitmapDefinition, options: BitmapSpriteOptions = {}): Sprite {
+    const { frameRate, layer, z, clips, ...rasterizeOptions } = options;
+    const raster = rasterizeBitmap(bitmap, rasterizeOptions);
+
+    return new Sprite({
+        image: raster.image,
+        textureKey: raster.textureKey,
+        width: raster.frameWidth,
+        height: raster.frameHeight,
+        frameCount: raster.frameCount,
+        frameRate,
+        layer,
+        z,
+        clips,
+        smoothing: false
+    });
+}
+
+/**
+ * Describes palette overrides in a stable order, e.g. '#=#00ff00,x=none'
+ */
+function getPaletteKey(palette: BitmapPalette): string {
+    return Object.keys(palette)
+        .sort()
+        .map(char => `${char}=${palette[char] ?? 'none'}`)
+        .join(',');
+}
+
+/**
+ * Drops all cached rasterisations, e.g. after the device pixel ratio changed
+ */
+export function clearBitmapCache(): void {
+    rasterCache.clear();
+}
@@ -6,14 +6,14 @@
  */
 
 // Types and interfaces
-interface Bounds {
+export interface Bounds {
     x: number;
     y: number;
     width: number;
     height: number;
 }
 
-interface CollisionObject {
+export interface CollisionObject {
     id: string;
     bounds: Bounds;
 }
@@ -151,9 +151,9 @@ export class QuadTree {
                 this.split();
             }
 
-            // Redistribute existing objects
+            // Redistribute existing objects (split() refuses nodes below MIN_SIZE)
             let i = 0;
-            while (i < this.objects.length) {
+            while (this.nodes.length && i < this.objects.length) {
                 const index = this.getIndex(this.objects[i].bounds);
                 if (index !== -1) {
                     const [object] = this.objects.splice(i, 1);
@@ -0,0 +1,380 @@
+/**
+ * @file Scheduler.ts
+ * @module Scheduler
+ * @description Game-time scheduler driven by fixed update ticks. Replaces raw setTimeout for
+ * gameplay timers so that delays follow the fixed timestep, freeze while the game is paused,
+ * and can be cancelled in groups by tag.
+ */
+
+/**
+ * Callback run when a scheduled task fires
+ */
+export type ScheduledCallback = () => void;
+
+/**
+ * Options shared by all scheduling methods
+ */
+export interface ScheduleOptions {
+    /** Group name used to cancel, pause or resume related tasks together */
+    tag?: string;
+}
+
+/**
+ * Options for repeating tasks
+ */
+export interface RepeatOptions extends ScheduleOptions {
+    /** Number of times to fire (defaults to forever) */
+    count?: number;
+    /** Fire once immediately on the next tick instead of waiting one interval */
+    immediate?: boolean;
+}
+
+/**
+ * A single step of a sequence, fired after its delay relative to the previous step
+ */
+export interface SequenceStep {
+    delay: number;
+    callback: ScheduledCallback;
+}
+
+/**
+ * Internal representation of a scheduled task
+ */
+interface ScheduledTask {
+    id: number;
+    tag: string | null;
+    dueTime: number;
+    steps: SequenceStep[];
+    stepIndex: number;
+    interval: number;
+    remainingRuns: number;
+    pausedRemaining: number | null;
+}
+
+/**
+ * Schedules callbacks against accumulated game time (in milliseconds)
+ */
+export class GameScheduler {
+    private tasks: Map<number, ScheduledTask>;
+    private currentTime: number;
+    private nextId: number;
+    private paused: boolean;
+    private pausedTags: Set<string>;
+
+    /**
+     * Creates a new GameScheduler instance
+     */
+    constructor() {
+        this.tasks = new Map();
+        this.currentTime = 0;
+        this.nextId = 1;
+        this.paused = false;
+        this.pausedTags = new Set();
+    }
+
+    /**
+     * Runs a callback once after a delay
+     * @param delay - Game time to wait (in milliseconds)
+     * @param callback - Function to run
+     * @param options - Scheduling options
+     * @returns Task id usable with cancel
+     */
+    public delay(delay: number, callback: ScheduledCallback, options: ScheduleOptions = {}): number {
+        return this.sequence([{ delay, callback }], options);
+    }
+
+    /**
+     * Runs a callback repeatedly at a fixed interval
+     * @param interval - Game time between runs (in milliseconds)
+     * @param callback - Function to run
+     * @param options - Repeat options
+     * @returns Task id usable with cancel
+     * @throws Error if the interval is not positive
+     */
+    public repeat(interval: number, callback: ScheduledCallback, options: RepeatOptions = {}): number {
+        if (interval <= 0 || !Number.isFinite(interval)) {
+            throw new Error('Repeat interval must be a positive finite number');
+        }
+
+        const count = options.count ?? Infinity;
+        if (count <= 0) {
+            throw new Error('Repeat count must be greater than 0');
+        }
+
+        return this.addTask({
+            tag: options.tag,
+            firstDelay: options.immediate ? 0 : interval,
+            steps: [{ delay: interval, callback }],
+            interval,
+            remainingRuns: count
+        });
+    }
+
+    /**
+     * Runs a list of callbacks one after another, each after its own delay
+     * @param steps - Steps to run in order
+     * @param options - Scheduling options
+     * @returns Task id usable with cancel
+     * @throws Error if there are no steps or a delay is negative
+     */
+    public sequence(steps: SequenceStep[], options: ScheduleOptions = {}): number {
+        if (steps.length === 0) {
+            throw new Error('Sequence must contain at least one step');
+        }
+
+        for (const step of steps) {
+            this.validateDelay(step.delay);
+        }
+
+        return this.addTask({
+            tag: options.tag,
+            firstDelay: steps[0].delay,
+            steps: [...steps],
+            interval: 0,
+            remainingRuns: 1
+        });
+    }
+
+    /**
+     * Cancels a single task
+     * @param id - Task id returned when scheduling
+     * @returns True if a task was cancelled
+     */
+    public cancel(id: number): boolean {
+        return this.tasks.delete(id);
+    }
+
+    /**
+     * Cancels every task with the given tag
+     * @param tag - Tag to cancel
+     * @returns Number of tasks cancelled
+     */
+    public cancelByTag(tag: string): number {
+        let cancelled = 0;
+        this.tasks.forEach((task, id) => {
+            if (task.tag === tag) {
+                this.tasks.delete(id);
+                cancelled++;
+            }
+        });
+        return cancelled;
+    }
+
+    /**
+     * Pauses the whole scheduler, or only tasks with a tag
+     * @param tag - Optional tag to pause
+     */
+    public pause(tag?: string): void {
+        if (tag === undefined) {
+            this.paused = true;
+            return;
+        }
+
+        if (this.pausedTags.has(tag)) {
+            return;
+        }
+
+        this.pausedTags.add(tag);
+        this.tasks.forEach(task => {
+            if (task.tag === tag) {
+                task.pausedRemaining = task.dueTime - this.currentTime;
+            }
+        });
+    }
+
+    /**
+     * Resumes the whole scheduler, or only tasks with a tag
+     * @param tag - Optional tag to resume
+     */
+    public resume(tag?: string): void {
+        if (tag === undefined) {
+            this.paused = false;
+            return;
+        }
+
+        if (!this.pausedTags.delete(tag)) {
+            return;
+        }
+
+        this.tasks.forEach(task => {
+            if (task.tag === tag && task.pausedRemaining !== null) {
+                task.dueTime = this.currentTime + task.pausedRemaining;
+                task.pausedRemaining = null;
+            }
+        });
+    }
+
+    /**
+     * Checks if the scheduler, or a tag within it, is paused
+     * @param tag - Optional tag to check
+     */
+    public isPaused(tag?: string): boolean {
+        return tag === undefined ? this.paused : this.pausedTags.has(tag);
+    }
+
+    /**
+     * Advances game time and fires every task that comes due, in due-time order.
+     * Tasks scheduled by callbacks during a tick are counted from the time they were created.
+     * @param deltaTime - Game time elapsed (in milliseconds)
+     */
+    public tick(deltaTime: number): void {
+        if (this.paused || deltaTime <= 0) {
+            return;
+        }
+
+        const targetTime = this.currentTime + deltaTime;
+
+        let task = this.findNextDue(targetTime);
+        while (task) {
+            this.currentTime = task.dueTime;
+            this.runTask(task);
+            task = this.findNextDue(targetTime);
+        }
+
+        this.currentTime = targetTime;
+    }
+
+    /**
+     * Gets the game time left before a task next fires
+     * @param id - Task id
+     * @returns Remaining time in milliseconds, or 0 if the task is not pending
+     */
+    public getRemaining(id: number): number {
+        const task = this.tasks.get(id);
+        if (!task) {
+            return 0;
+        }
+        return task.pausedRemaining ?? Math.max(0, task.dueTime - this.currentTime);
+    }
+
+    /**
+     * Checks whether a task is still pending
+     * @param id - Task id
+     */
+    public isPending(id: number): boolean {
+        return this.tasks.has(id);
+    }
+
+    /**
+     * Counts pending tasks, optionally filtered by tag
+     * @param tag - Optional tag to count
+     */
+    public getPendingCount(tag?: string): number {
+        if (tag === undefined) {
+            return this.tasks.size;
+        }
+
+        let count = 0;
+        this.tasks.forEach(task => {
+            if (task.tag === tag) count++;
+        });
+        return count;
+    }
+
+    /**
+     * Gets the accumulated game time
+     * @returns Game time in milliseconds
+     */
+    public getTime(): number {
+        return this.currentTime;
+    }
+
+    /**
+     * Cancels every task and clears paused state
+     */
+    public clear(): void {
+        this.tasks.clear();
+        this.pausedTags.clear();
+        this.paused = false;
+    }
+
+    /**
+     * Registers a new task
+     */
+    private addTask(params: {
+        tag?: string;
+        firstDelay: number;
+        steps: SequenceStep[];
+        interval: number;
+        remainingRuns: number;
+    }): number {
+        this.validateDelay(params.firstDelay);
+
+        const id = this.nextId++;
+        const tag = params.tag ?? null;
+        const task: ScheduledTask = {
+            id,
+            tag,
+            dueTime: this.currentTime + params.firstDelay,
+            steps: params.steps,
+            stepIndex: 0,
+            interval: params.interval,
+            remainingRuns: params.remainingRuns,
+            pausedRemaining: null
+        };
+
+        if (tag !== null && this.pausedTags.has(tag)) {
+            task.pausedRemaining = params.firstDelay;
+        }
+
+        this.tasks.set(id, task);
+        return id;
+    }
+
+    /**
+     * Fires a due task and reschedules or removes it
+     */
+    private runTask(task: ScheduledTask): void {
+        const step = task.steps[task.stepIndex];
+
+        if (task.interval > 0) {
+            task.remainingRuns--;
+            if (task.remainingRuns <= 0) {
+                this.tasks.delete(task.id);
+            } else {
+                task.dueTime += task.interval;
+            }
+        } else {
+            task.stepIndex++;
+            if (task.stepIndex >= task.steps.length) {
+                this.tasks.delete(task.id);
+            } else {
+                task.dueTime += task.steps[task.stepIndex].delay;
+            }
+        }
+
+        try {
+            step.callback();
+        } catch (error) {
+            console.error('Error in scheduled callback:', error);
+        }
+    }
+
+    /**
+     * Finds the earliest unpaused task due at or before the given time
+     */
+    private findNextDue(targetTime: number): ScheduledTask | null {
+        let next: ScheduledTask | null = null;
+
+        this.tasks.forEach(task => {
+            if (task.pausedRemaining !== null || task.dueTime > targetTime) {
+                return;
+            }
+            if (!next || task.dueTime < next.dueTime) {
+                next = task;
+            }
+        });
+
+        return next;
+    }
+
+    /**
+     * Validates a delay value
+     * @throws Error if delay is negative or not finite
+     */
+    private validateDelay(delay: number): void {
+        if (delay < 0 || !Number.isFinite(delay)) {
+            throw new Error('Delay must be a non-negative finite number');
+        }
+    }
+}
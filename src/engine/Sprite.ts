@@ -2,9 +2,16 @@
  * @file Sprite.ts
  * @description Implements a sprite rendering system for game objects.
  * Handles sprite creation, management, and rendering with support for
- * animations and transformations.
+ * animations and transformations. Frames come either from a horizontal strip
+ * (or rows of strips) in a standalone image or from named regions of a texture
+ * atlas, and can be grouped into named animation clips. Each draw can rotate
+ * about a pivot, flip, fade and tint the sprite; tinted frames are cached.
  */
 
+import { AtlasFrame, AtlasImage, CanvasFactory, TextureAtlas } from './TextureAtlas';
+import { RenderLayer } from '../render/RenderLayer';
+import { AssetManager } from '../managers/AssetManager';
+
 // =========================================================
 // Types and Interfaces
 // =========================================================
@@ -13,12 +20,99 @@
  * Configuration options for creating a sprite
  */
 export interface SpriteConfig {
-  imageSource: string;
+  /** Asset ID or URL of the image, taken from the AssetManager; ignored when image is given */
+  imageSource?: string;
+  /** Already loaded image, canvas or atlas sheet */
+  image?: AtlasImage;
+  /** Key identifying the texture for batching (defaults to imageSource) */
+  textureKey?: string;
   width: number;
   height: number;
+  /** Frames per row of the strip */
   frameCount?: number;
   frameRate?: number;
   scale?: number;
+  /** Default render layer when drawn through Renderer */
+  layer?: RenderLayer;
+  /** Default z within the layer */
+  z?: number;
+  /** Named animation clips */
+  clips?: Record<string, AnimationClip>;
+  /** Set to false to scale pixel art without blurring (defaults to true) */
+  smoothing?: boolean;
+}
+
+/**
+ * Options for creating a sprite from atlas frames
+ */
+export interface AtlasSpriteOptions {
+  /** Additional frame names for animation, played after the first frame */
+  frames?: string[];
+  frameRate?: number;
+  scale?: number;
+  layer?: RenderLayer;
+  z?: number;
+  /** Named animation clips; frame indices refer to the frame list above */
+  clips?: Record<string, AnimationClip>;
+}
+
+/**
+ * How a clip continues after its last frame
+ * - loop: starts over from the first frame
+ * - once: stays on the last frame and completes
+ * - pingpong: plays backwards to the first frame, then forwards again
+ */
+export type AnimationMode = 'loop' | 'once' | 'pingpong';
+
+/**
+ * Named animation clip. Frames are given either as an explicit list or as an
+ * inclusive start/end range; for strip images they are columns of one row.
+ */
+export interface AnimationClip {
+  /** Frame indices in play order */
+  frames?: number[];
+  /** First frame of the range (defaults to 0) */
+  start?: number;
+  /** Last frame of the range (defaults to the last frame of the row) */
+  end?: number;
+  /** Row of the sheet the frames are read from (strip images only, defaults to 0) */
+  row?: number;
+  /** Playback speed in frames per second */
+  fps: number;
+  /** Defaults to loop */
+  mode?: AnimationMode;
+}
+
+/**
+ * Options for playing a clip
+ */
+export interface PlayClipOptions {
+  /** Restart the clip even if it is already playing */
+  restart?: boolean;
+  /** Called once when a 'once' clip has shown its last frame for a full frame interval */
+  onComplete?: () => void;
+}
+
+/**
+ * Per-draw transform and colour options
+ */
+export interface SpriteTransform {
+  /** Rotation in radians about the pivot */
+  rotation?: number;
+  /** Pivot as a fraction of the sprite size (defaults to getPivot) */
+  pivot?: { x: number; y: number };
+  /** Mirror horizontally about the pivot */
+  flipX?: boolean;
+  /** Mirror vertically about the pivot */
+  flipY?: boolean;
+  /** Opacity from 0 to 1, multiplied into the context's alpha */
+  alpha?: number;
+  /** CSS colour blended over the sprite's opaque pixels */
+  tint?: string;
+  /** Strength of the tint from 0 to 1 (defaults to 1) */
+  tintAmount?: number;
+  /** Strength of a white damage flash from 0 to 1; replaces the tint while above 0 */
+  flash?: number;
 }
 
 /**
@@ -26,20 +120,85 @@ export interface SpriteConfig {
  */
 export interface SpriteState {
   currentFrame: number;
+  currentRow: number;
   lastFrameUpdate: number;
   isAnimating: boolean;
 }
 
+/**
+ * Clip with its frames resolved
+ */
+interface ResolvedClip {
+  frames: number[];
+  row: number;
+  interval: number;
+  mode: AnimationMode;
+}
+
+/**
+ * Region of an image holding the current frame
+ */
+interface FrameSource {
+  image: CanvasImageSource;
+  sx: number;
+  sy: number;
+  width: number;
+  height: number;
+  /** Trim offset in unscaled sprite pixels */
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Playback position within the active clip
+ */
+interface ClipPlayback {
+  name: string;
+  clip: ResolvedClip;
+  index: number;
+  direction: 1 | -1;
+  onComplete?: () => void;
+}
+
 // =========================================================
 // Main Sprite Class
 // =========================================================
 
+/**
+ * Configuration constants for tinting
+ */
+const TINT_CONFIG = {
+  /** Tinted frames kept before the least recently used is dropped */
+  CACHE_SIZE: 256,
+  /** Tint strengths are rounded to this many steps so fades reuse cached frames */
+  AMOUNT_STEPS: 16,
+  FLASH_COLOR: '#ffffff'
+} as const;
+
+/** Tinted frame canvases by texture, frame, colour and strength */
+const tintCache = new Map<string, HTMLCanvasElement>();
+
+let createTintCanvas: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+let nextTextureId = 0;
+
 export class Sprite {
-  private image: HTMLImageElement;
+  private image: CanvasImageSource;
+  private atlasFrames: AtlasFrame[] | null;
+  private textureKey: string;
   private config: SpriteConfig;
   private state: SpriteState;
+  private clips: Map<string, ResolvedClip>;
+  private playback: ClipPlayback | null;
   private loaded: boolean;
   private errorState: Error | null;
+  private flashDuration: number;
+  private flashRemaining: number;
 
   /**
    * Creates a new Sprite instance
@@ -50,42 +209,139 @@ export class Sprite {
       frameCount: 1,
       frameRate: 0,
       scale: 1,
+      layer: RenderLayer.SHIPS,
+      z: 0,
       ...config
     };
 
     this.state = {
       currentFrame: 0,
+      currentRow: 0,
       lastFrameUpdate: 0,
       isAnimating: false
     };
 
+    this.clips = new Map();
+    this.playback = null;
+    this.flashDuration = 0;
+    this.flashRemaining = 0;
+
     this.loaded = false;
     this.errorState = null;
-    this.image = new Image();
-    
-    this.initializeImage();
+    this.atlasFrames = null;
+    this.textureKey = this.config.textureKey
+      ?? this.config.imageSource
+      ?? `texture:${nextTextureId++}`;
+
+    if (this.config.image) {
+      const image = this.config.image;
+      this.image = image;
+      // Canvases are ready immediately; images may still be loading
+      const isImageElement = typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement;
+      this.loaded = !isImageElement || image.complete;
+      if (!this.loaded) {
+        this.initializeImage(image as HTMLImageElement);
+      }
+    } else {
+      this.image = new Image();
+      this.loadImageAsset();
+    }
+
+    if (this.config.clips) {
+      Object.entries(this.config.clips).forEach(([name, clip]) => this.defineClip(name, clip));
+    }
+  }
+
+  /**
+   * Creates a sprite from named atlas frames
+   * @param atlas - Atlas holding the frames
+   * @param frameName - Name of the first frame
+   * @param options - Optional animation frames, frame rate and scale
+   * @throws Error if a frame does not exist
+   * @returns A sprite sharing the atlas texture
+   */
+  public static fromAtlas(atlas: TextureAtlas, frameName: string, options: AtlasSpriteOptions = {}): Sprite {
+    const frames = [frameName, ...(options.frames ?? [])].map(name => atlas.getFrame(name));
+
+    const sprite = new Sprite({
+      image: atlas.getImage(),
+      textureKey: atlas.getTextureKey(),
+      width: frames[0].sourceWidth,
+      height: frames[0].sourceHeight,
+      frameCount: frames.length,
+      frameRate: options.frameRate,
+      scale: options.scale,
+      layer: options.layer,
+      z: options.z
+    });
+    sprite.atlasFrames = frames;
+    if (options.clips) {
+      Object.entries(options.clips).forEach(([name, clip]) => sprite.defineClip(name, clip));
+    }
+    return sprite;
   }
 
   /**
-   * Initializes the sprite image with error handling
+   * Waits for a given image that is still loading
    * @private
    */
-  private initializeImage(): void {
-    this.image.onload = () => {
+  private initializeImage(image: HTMLImageElement): void {
+    image.onload = () => {
       this.loaded = true;
     };
 
-    this.image.onerror = (error) => {
+    image.onerror = (error) => {
       this.errorState = new Error(`Failed to load sprite image: ${error}`);
       console.error(this.errorState);
     };
+  }
 
-    try {
-      this.image.src = this.config.imageSource;
-    } catch (error) {
-      this.errorState = error instanceof Error ? error : new Error('Unknown error loading sprite');
+  /**
+   * Takes the image from the AssetManager, loading it there if no manifest preloaded it
+   * @private
+   */
+  private loadImageAsset(): void {
+    const source = this.config.imageSource;
+    if (!source) {
+      this.errorState = new Error('Sprite needs an imageSource or an image');
       console.error(this.errorState);
+      return;
     }
+
+    const assets = AssetManager.getInstance();
+    const preloaded = assets.get<HTMLImageElement>(source);
+    if (preloaded) {
+      this.image = preloaded;
+      this.loaded = true;
+      return;
+    }
+
+    const asset = assets.getStatus(source) ? source : { id: source, type: 'image' as const, url: source, required: false };
+    assets.load<HTMLImageElement>(asset)
+      .then(image => {
+        this.image = image;
+        this.loaded = true;
+      })
+      .catch(error => {
+        this.errorState = error instanceof Error ? error : new Error(`Failed to load sprite image: ${source}`);
+        console.error(this.errorState);
+      });
+  }
+
+  /**
+   * Sets how tint canvases are created, e.g. for headless rendering
+   * @param factory - Canvas factory
+   */
+  public static setCanvasFactory(factory: CanvasFactory): void {
+    createTintCanvas = factory;
+    tintCache.clear();
+  }
+
+  /**
+   * Drops all cached tinted frames
+   */
+  public static clearTintCache(): void {
+    tintCache.clear();
   }
 
   /**
@@ -93,64 +349,363 @@ export class Sprite {
    * @param context - The 2D rendering context
    * @param x - X coordinate for rendering
    * @param y - Y coordinate for rendering
+   * @param transform - Optional rotation, flips, alpha and tint for this draw
    */
-  public render(context: CanvasRenderingContext2D, x: number, y: number): void {
+  public render(context: CanvasRenderingContext2D, x: number, y: number, transform: SpriteTransform = {}): void {
     if (!this.loaded || this.errorState) {
       return;
     }
 
-    const frameWidth = this.config.width;
-    const sourceX = this.state.currentFrame * frameWidth;
+    const smoothing = context.imageSmoothingEnabled;
+    if (this.config.smoothing === false) {
+      context.imageSmoothingEnabled = false;
+    }
 
     try {
-      context.drawImage(
-        this.image,
-        sourceX,
-        0,
-        this.config.width,
-        this.config.height,
-        x,
-        y,
-        this.config.width * (this.config.scale || 1),
-        this.config.height * (this.config.scale || 1)
-      );
+      const source = this.getTintedSource(this.getFrameSource(), transform);
+      const { rotation, flipX, flipY, alpha } = transform;
+
+      if (!rotation && !flipX && !flipY && alpha === undefined) {
+        this.drawSource(context, source, x, y);
+        return;
+      }
+
+      const { width, height } = this.getDimensions();
+      const pivot = transform.pivot ?? this.getPivot();
+      const pivotX = width * pivot.x;
+      const pivotY = height * pivot.y;
+
+      context.save();
+      context.translate(x + pivotX, y + pivotY);
+      if (rotation) {
+        context.rotate(rotation);
+      }
+      if (flipX || flipY) {
+        context.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+      }
+      if (alpha !== undefined) {
+        context.globalAlpha *= Math.max(0, Math.min(1, alpha));
+      }
+      this.drawSource(context, source, -pivotX, -pivotY);
+      context.restore();
     } catch (error) {
       console.error('Error rendering sprite:', error);
+    } finally {
+      context.imageSmoothingEnabled = smoothing;
     }
   }
 
   /**
-   * Updates the sprite animation state
-   * @param deltaTime - Time elapsed since last update
+   * Starts a white damage flash that fades out over the given time. Applied on
+   * every draw until it ends; a per-draw flash can only make it stronger.
+   * @param duration - Fade-out time (in milliseconds)
+   */
+  public flash(duration: number = 120): void {
+    this.flashDuration = Math.max(0, duration);
+    this.flashRemaining = this.flashDuration;
+  }
+
+  /**
+   * Gets the current strength of the flash started by flash()
+   * @returns Strength from 0 to 1
+   */
+  public getFlashAmount(): number {
+    return this.flashDuration > 0 ? this.flashRemaining / this.flashDuration : 0;
+  }
+
+  /**
+   * Resolves the tint of a draw: the damage flash while one is active, otherwise the draw's tint
+   * @param transform - Per-draw options
+   * @returns Colour and strength from 0 to 1, or null when the draw is not tinted
+   */
+  public getTint(transform: SpriteTransform = {}): { color: string; amount: number } | null {
+    const flash = Math.max(transform.flash ?? 0, this.getFlashAmount());
+    const color = flash > 0 ? TINT_CONFIG.FLASH_COLOR : transform.tint;
+    const amount = Math.max(0, Math.min(1, flash > 0 ? flash : transform.tintAmount ?? 1));
+
+    return color && amount > 0 ? { color, amount } : null;
+  }
+
+  /**
+   * Gets the image region of the current frame
+   * @private
+   */
+  private getFrameSource(): FrameSource {
+    if (this.atlasFrames) {
+      const frame = this.atlasFrames[this.state.currentFrame];
+      return {
+        image: this.image,
+        sx: frame.x,
+        sy: frame.y,
+        width: frame.width,
+        height: frame.height,
+        offsetX: frame.offsetX,
+        offsetY: frame.offsetY
+      };
+    }
+
+    return {
+      image: this.image,
+      sx: this.state.currentFrame * this.config.width,
+      sy: this.state.currentRow * this.config.height,
+      width: this.config.width,
+      height: this.config.height,
+      offsetX: 0,
+      offsetY: 0
+    };
+  }
+
+  /**
+   * Replaces the frame with a cached tinted copy when a tint or flash applies
+   * @private
+   */
+  private getTintedSource(source: FrameSource, transform: SpriteTransform): FrameSource {
+    const tint = this.getTint(transform);
+    const step = tint ? Math.round(tint.amount * TINT_CONFIG.AMOUNT_STEPS) : 0;
+
+    if (!tint || step === 0) {
+      return source;
+    }
+
+    const key = `${this.textureKey}:${source.sx},${source.sy},${source.width},${source.height}:${tint.color}:${step}`;
+    let tinted = tintCache.get(key);
+
+    if (tinted) {
+      // Refresh for least-recently-used eviction
+      tintCache.delete(key);
+    } else {
+      tinted = createTintCanvas(source.width, source.height);
+      const tintContext = tinted.getContext('2d');
+      if (!tintContext) {
+        throw new Error('Failed to get 2D context for sprite tint');
+      }
+      tintContext.drawImage(source.image, source.sx, source.sy, source.width, source.height, 0, 0, source.width, source.height);
+      tintContext.globalCompositeOperation = 'source-atop';
+      tintContext.globalAlpha = step / TINT_CONFIG.AMOUNT_STEPS;
+      tintContext.fillStyle = tint.color;
+      tintContext.fillRect(0, 0, source.width, source.height);
+
+      if (tintCache.size >= TINT_CONFIG.CACHE_SIZE) {
+        tintCache.delete(tintCache.keys().next().value as string);
+      }
+    }
+    tintCache.set(key, tinted);
+
+    return { ...source, image: tinted, sx: 0, sy: 0 };
+  }
+
+  /**
+   * Draws a frame region scaled, with its top-left corner at the given point
+   * @private
+   */
+  private drawSource(context: CanvasRenderingContext2D, source: FrameSource, x: number, y: number): void {
+    const scale = this.config.scale || 1;
+    context.drawImage(
+      source.image,
+      source.sx,
+      source.sy,
+      source.width,
+      source.height,
+      x + source.offsetX * scale,
+      y + source.offsetY * scale,
+      source.width * scale,
+      source.height * scale
+    );
+  }
+
+  /**
+   * Updates the sprite animation and flash state. Time left over after a frame change
+   * is carried into the next frame, so playback speed does not depend on the
+   * update rate.
+   * @param deltaTime - Time elapsed since last update (in milliseconds)
    */
   public update(deltaTime: number): void {
-    if (!this.state.isAnimating || !this.config.frameRate) {
+    if (this.flashRemaining > 0) {
+      this.flashRemaining = Math.max(0, this.flashRemaining - deltaTime);
+    }
+
+    if (!this.state.isAnimating) {
+      return;
+    }
+
+    const playback = this.playback;
+    const frameInterval = playback
+      ? playback.clip.interval
+      : this.config.frameRate ? 1000 / this.config.frameRate : 0;
+    if (!frameInterval) {
       return;
     }
 
-    const frameInterval = 1000 / this.config.frameRate;
     this.state.lastFrameUpdate += deltaTime;
 
-    if (this.state.lastFrameUpdate >= frameInterval) {
-      this.state.currentFrame = (this.state.currentFrame + 1) % (this.config.frameCount || 1);
-      this.state.lastFrameUpdate = 0;
+    while (this.state.isAnimating && this.state.lastFrameUpdate >= frameInterval) {
+      this.state.lastFrameUpdate -= frameInterval;
+      if (playback) {
+        this.advanceClip(playback);
+      } else {
+        this.state.currentFrame = (this.state.currentFrame + 1) % (this.config.frameCount || 1);
+      }
     }
   }
 
   /**
-   * Starts sprite animation
+   * Starts looping through all frames of the first row at the sprite's frame rate
    */
   public startAnimation(): void {
+    this.playback = null;
+    this.state.currentRow = 0;
     this.state.isAnimating = true;
     this.state.lastFrameUpdate = 0;
   }
 
   /**
-   * Stops sprite animation
+   * Stops sprite animation, including any playing clip
    */
   public stopAnimation(): void {
+    this.playback = null;
     this.state.isAnimating = false;
     this.state.currentFrame = 0;
+    this.state.currentRow = 0;
+  }
+
+  /**
+   * Defines or replaces a named animation clip
+   * @param name - Clip name, e.g. 'march' or 'explode'
+   * @param clip - Frames, speed and mode of the clip
+   * @throws Error if the frame rate or frames are invalid
+   */
+  public defineClip(name: string, clip: AnimationClip): void {
+    if (!Number.isFinite(clip.fps) || clip.fps <= 0) {
+      throw new Error(`Clip '${name}' needs a positive fps`);
+    }
+
+    const row = clip.row ?? 0;
+    if (row !== 0 && this.atlasFrames) {
+      throw new Error(`Clip '${name}' uses a row, but atlas sprites have no rows`);
+    }
+    if (!Number.isInteger(row) || row < 0) {
+      throw new Error(`Clip '${name}' has an invalid row: ${row}`);
+    }
+
+    const frameCount = this.config.frameCount || 1;
+    let frames = clip.frames;
+    if (!frames) {
+      const start = clip.start ?? 0;
+      const end = clip.end ?? frameCount - 1;
+      frames = [];
+      for (let frame = start; frame <= end; frame++) {
+        frames.push(frame);
+      }
+    }
+
+    if (frames.length === 0) {
+      throw new Error(`Clip '${name}' has no frames`);
+    }
+    const invalid = frames.find(frame => !Number.isInteger(frame) || frame < 0 || frame >= frameCount);
+    if (invalid !== undefined) {
+      throw new Error(`Clip '${name}' references frame ${invalid}, but the sprite has ${frameCount} frames`);
+    }
+
+    this.clips.set(name, {
+      frames: [...frames],
+      row,
+      interval: 1000 / clip.fps,
+      mode: clip.mode ?? 'loop'
+    });
+  }
+
+  /**
+   * Checks whether a clip is defined
+   * @param name - Clip name
+   */
+  public hasClip(name: string): boolean {
+    return this.clips.has(name);
+  }
+
+  /**
+   * Plays a named clip from its first frame. Playing the clip that is already
+   * running does nothing unless restart is set.
+   * @param name - Clip name
+   * @param options - Restart flag and completion callback
+   * @throws Error if the clip is not defined
+   */
+  public play(name: string, options: PlayClipOptions = {}): void {
+    const clip = this.clips.get(name);
+    if (!clip) {
+      throw new Error(`Animation clip not found: ${name}`);
+    }
+
+    if (this.playback?.name === name && this.state.isAnimating && !options.restart) {
+      if (options.onComplete) {
+        this.playback.onComplete = options.onComplete;
+      }
+      return;
+    }
+
+    this.playback = { name, clip, index: 0, direction: 1, onComplete: options.onComplete };
+    this.state.currentFrame = clip.frames[0];
+    this.state.currentRow = clip.row;
+    this.state.lastFrameUpdate = 0;
+    this.state.isAnimating = true;
+  }
+
+  /**
+   * Gets the name of the current clip; a finished 'once' clip stays current
+   * @returns Clip name or null when no clip has been played
+   */
+  public getCurrentClip(): string | null {
+    return this.playback?.name ?? null;
+  }
+
+  /**
+   * Checks whether the sprite is animating
+   */
+  public isAnimating(): boolean {
+    return this.state.isAnimating;
+  }
+
+  /**
+   * Moves the active clip to its next frame
+   * @private
+   */
+  private advanceClip(playback: ClipPlayback): void {
+    const { frames, mode } = playback.clip;
+    let next = playback.index + playback.direction;
+
+    if (next < 0 || next >= frames.length) {
+      if (mode === 'once') {
+        this.completeClip(playback);
+        return;
+      }
+      if (mode === 'pingpong' && frames.length > 1) {
+        playback.direction = playback.direction === 1 ? -1 : 1;
+        next = playback.index + playback.direction;
+      } else {
+        next = 0;
+      }
+    }
+
+    playback.index = next;
+    this.state.currentFrame = frames[next];
+  }
+
+  /**
+   * Stops on the last frame of a 'once' clip and notifies the listener
+   * @private
+   */
+  private completeClip(playback: ClipPlayback): void {
+    this.state.isAnimating = false;
+    this.state.lastFrameUpdate = 0;
+
+    const onComplete = playback.onComplete;
+    playback.onComplete = undefined;
+    if (onComplete) {
+      try {
+        onComplete();
+      } catch (error) {
+        console.error(`Error in onComplete of clip '${playback.name}':`, error);
+      }
+    }
   }
 
   /**
@@ -179,6 +734,83 @@ export class Sprite {
     return this.errorState;
   }
 
+  /**
+   * Gets the key of the texture this sprite draws from; sprites sharing a key
+   * can be drawn without switching textures
+   * @returns Texture key
+   */
+  public getTextureKey(): string {
+    return this.textureKey;
+  }
+
+  /**
+   * Gets the default render layer
+   * @returns Render layer
+   */
+  public getLayer(): RenderLayer {
+    return this.config.layer ?? RenderLayer.SHIPS;
+  }
+
+  /**
+   * Gets the default z within the render layer
+   * @returns z value
+   */
+  public getZ(): number {
+    return this.config.z ?? 0;
+  }
+
+  /**
+   * Sets the default render layer and z
+   * @param layer - Render layer
+   * @param z - z within the layer
+   */
+  public setDrawOrder(layer: RenderLayer, z: number = 0): void {
+    this.config.layer = layer;
+    this.config.z = z;
+  }
+
+  /**
+   * Gets the image the sprite draws from
+   * @returns Image, canvas or atlas sheet
+   */
+  public getImage(): CanvasImageSource {
+    return this.image;
+  }
+
+  /**
+   * Gets the atlas frame currently shown
+   * @returns Atlas frame or null for strip-based sprites
+   */
+  public getCurrentAtlasFrame(): AtlasFrame | null {
+    return this.atlasFrames ? this.atlasFrames[this.state.currentFrame] : null;
+  }
+
+  /**
+   * Gets the region of the image holding the current frame
+   * @returns Source rectangle in image pixels
+   */
+  public getFrameRect(): { x: number; y: number; width: number; height: number } {
+    const source = this.getFrameSource();
+    return { x: source.sx, y: source.sy, width: source.width, height: source.height };
+  }
+
+  /**
+   * Gets the pivot as a fraction of the sprite size
+   * @returns Pivot from the atlas frame, or the center
+   */
+  public getPivot(): { x: number; y: number } {
+    const frame = this.getCurrentAtlasFrame();
+    return frame ? { x: frame.pivotX, y: frame.pivotY } : { x: 0.5, y: 0.5 };
+  }
+
+  /**
+   * Gets the factor frames are scaled by when drawn
+   * @returns Scale factor
+   */
+  public getScale(): number {
+    return this.config.scale || 1;
+  }
+
   /**
    * Gets the dimensions of the sprite
    * @returns Object containing width and height
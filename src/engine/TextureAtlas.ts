@@ -0,0 +1,369 @@
+/**
+ * @file TextureAtlas.ts
+ * @module TextureAtlas
+ * @description Texture atlases: many sprite frames sharing one image so the renderer can draw
+ * them without switching textures. Atlases are either packed at load time from separate
+ * images (shelf packing) or read from a TexturePacker-style JSON manifest with frame
+ * rectangles, trim and pivot data.
+ */
+
+/**
+ * A named region of an atlas image
+ */
+export interface AtlasFrame {
+    name: string;
+    /** Region of the atlas image holding the (trimmed) pixels */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Size of the original image before transparent edges were trimmed */
+    sourceWidth: number;
+    sourceHeight: number;
+    /** Position of the trimmed pixels within the original image */
+    offsetX: number;
+    offsetY: number;
+    /** Rotation/anchor point as a fraction of the original size */
+    pivotX: number;
+    pivotY: number;
+}
+
+/**
+ * Rectangle as written by TexturePacker
+ */
+interface TexturePackerRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+/**
+ * Frame entry as written by TexturePacker
+ */
+export interface TexturePackerFrame {
+    filename?: string;
+    frame: TexturePackerRect;
+    rotated?: boolean;
+    trimmed?: boolean;
+    spriteSourceSize?: TexturePackerRect;
+    sourceSize?: { w: number; h: number };
+    pivot?: { x: number; y: number };
+}
+
+/**
+ * TexturePacker JSON in either the hash or the array layout
+ */
+export interface TexturePackerData {
+    frames: Record<string, TexturePackerFrame> | TexturePackerFrame[];
+    meta?: {
+        image?: string;
+        size?: { w: number; h: number };
+    };
+}
+
+/**
+ * Image source with known dimensions
+ */
+export type AtlasImage = CanvasImageSource & { width: number; height: number };
+
+/**
+ * Creates canvases for packing; injectable so packing also works with offscreen or
+ * headless canvas implementations
+ */
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+/**
+ * Configuration options for the atlas packer
+ */
+export interface AtlasPackerOptions {
+    /** Width of the packed sheet */
+    maxWidth: number;
+    /** Maximum height of the packed sheet */
+    maxHeight: number;
+    /** Empty pixels around each image to avoid bleeding when filtering */
+    padding: number;
+    canvasFactory: CanvasFactory;
+}
+
+const DEFAULT_PIVOT = 0.5;
+
+const DEFAULT_PACKER_OPTIONS: AtlasPackerOptions = {
+    maxWidth: 2048,
+    maxHeight: 2048,
+    padding: 1,
+    canvasFactory: (width, height) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    }
+};
+
+let nextAtlasId = 0;
+
+/**
+ * Loads an image element
+ * @param source - Image URL
+ */
+export function loadImage(source: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(`Failed to load image: ${source}`));
+        image.src = source;
+    });
+}
+
+/**
+ * A shared image with named frames
+ */
+export class TextureAtlas {
+    private readonly image: AtlasImage;
+    private readonly frames: Map<string, AtlasFrame>;
+    private readonly key: string;
+
+    /**
+     * Creates a new TextureAtlas instance
+     * @param image - Atlas image
+     * @param frames - Frames within the image
+     * @param key - Texture key identifying the image (generated when omitted)
+     */
+    constructor(image: AtlasImage, frames: AtlasFrame[], key?: string) {
+        this.image = image;
+        this.frames = new Map(frames.map(frame => [frame.name, frame]));
+        this.key = key ?? `atlas:${nextAtlasId++}`;
+    }
+
+    /**
+     * Reads a TexturePacker JSON atlas
+     * @param data - Parsed JSON in hash or array layout
+     * @param image - The sheet the JSON describes
+     * @param key - Texture key (defaults to meta.image)
+     * @throws Error if a frame is rotated or malformed
+     */
+    public static fromTexturePacker(data: TexturePackerData, image: AtlasImage, key?: string): TextureAtlas {
+        if (!data || !data.frames) {
+            throw new Error('Atlas data has no frames');
+        }
+
+        const entries: [string, TexturePackerFrame][] = Array.isArray(data.frames)
+            ? data.frames.map(frame => {
+                if (!frame.filename) {
+                    throw new Error('Atlas frame in array layout is missing a filename');
+                }
+                return [frame.filename, frame];
+            })
+            : Object.entries(data.frames);
+
+        const frames = entries.map(([name, entry]) => TextureAtlas.parseFrame(name, entry));
+        return new TextureAtlas(image, frames, key ?? data.meta?.image);
+    }
+
+    /**
+     * Fetches a TexturePacker JSON file and the sheet it references
+     * @param url - URL of the JSON file; meta.image is resolved relative to it
+     * @throws Error if the JSON or the image cannot be loaded
+     */
+    public static async load(url: string): Promise<TextureAtlas> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load atlas ${url}: ${response.status}`);
+        }
+
+        const data = await response.json() as TexturePackerData;
+        if (!data.meta?.image) {
+            throw new Error(`Atlas ${url} does not reference an image`);
+        }
+
+        const imageUrl = new URL(data.meta.image, new URL(url, document.baseURI)).toString();
+        const image = await loadImage(imageUrl);
+        return TextureAtlas.fromTexturePacker(data, image, imageUrl);
+    }
+
+    /**
+     * Gets the atlas image
+     */
+    public getImage(): AtlasImage {
+        return this.image;
+    }
+
+    /**
+     * Gets the key identifying this atlas's texture, shared by all of its frames
+     */
+    public getTextureKey(): string {
+        return this.key;
+    }
+
+    /**
+     * Gets a frame by name
+     * @param name - Frame name
+     * @throws Error if the frame does not exist
+     */
+    public getFrame(name: string): AtlasFrame {
+        const frame = this.frames.get(name);
+        if (!frame) {
+            throw new Error(`Atlas frame '${name}' not found`);
+        }
+        return frame;
+    }
+
+    /**
+     * Checks whether a frame exists
+     * @param name - Frame name
+     */
+    public hasFrame(name: string): boolean {
+        return this.frames.has(name);
+    }
+
+    /**
+     * Gets all frame names, optionally only those starting with a prefix (e.g. an animation)
+     * @param prefix - Name prefix to filter by
+     */
+    public getFrameNames(prefix: string = ''): string[] {
+        return Array.from(this.frames.keys())
+            .filter(name => name.startsWith(prefix))
+            .sort();
+    }
+
+    /**
+     * Converts a TexturePacker frame entry
+     * @private
+     */
+    private static parseFrame(name: string, entry: TexturePackerFrame): AtlasFrame {
+        if (!entry.frame) {
+            throw new Error(`Atlas frame '${name}' has no frame rectangle`);
+        }
+        if (entry.rotated) {
+            throw new Error(`Atlas frame '${name}' is rotated; export the atlas without rotation`);
+        }
+
+        const { x, y, w, h } = entry.frame;
+        const trim = entry.trimmed && entry.spriteSourceSize ? entry.spriteSourceSize : { x: 0, y: 0, w, h };
+        const source = entry.sourceSize ?? { w, h };
+
+        return {
+            name,
+            x,
+            y,
+            width: w,
+            height: h,
+            sourceWidth: source.w,
+            sourceHeight: source.h,
+            offsetX: trim.x,
+            offsetY: trim.y,
+            pivotX: entry.pivot?.x ?? DEFAULT_PIVOT,
+            pivotY: entry.pivot?.y ?? DEFAULT_PIVOT
+        };
+    }
+}
+
+/**
+ * Packs separate images into one atlas at load time using shelf packing:
+ * images are sorted by height and placed left to right in rows
+ */
+export class AtlasPacker {
+    private readonly options: AtlasPackerOptions;
+    private readonly images: Map<string, AtlasImage>;
+
+    /**
+     * Creates a new AtlasPacker instance
+     * @param options - Optional configuration to override defaults
+     */
+    constructor(options: Partial<AtlasPackerOptions> = {}) {
+        this.options = { ...DEFAULT_PACKER_OPTIONS, ...options };
+        this.images = new Map();
+    }
+
+    /**
+     * Adds an image to pack
+     * @param name - Frame name for the image
+     * @param image - Loaded image
+     * @throws Error if the name is taken or the image is wider than the sheet
+     */
+    public add(name: string, image: AtlasImage): void {
+        if (this.images.has(name)) {
+            throw new Error(`Image '${name}' was already added to the atlas`);
+        }
+        if (image.width + this.options.padding * 2 > this.options.maxWidth) {
+            throw new Error(`Image '${name}' is wider than the atlas`);
+        }
+        this.images.set(name, image);
+    }
+
+    /**
+     * Loads images from URLs and adds them
+     * @param sources - Frame names mapped to image URLs
+     */
+    public async addFromUrls(sources: Record<string, string>): Promise<void> {
+        const loaded = await Promise.all(
+            Object.entries(sources).map(async ([name, url]) => [name, await loadImage(url)] as const)
+        );
+        loaded.forEach(([name, image]) => this.add(name, image));
+    }
+
+    /**
+     * Packs every added image into a new atlas
+     * @param key - Texture key for the atlas
+     * @throws Error if the images do not fit within the maximum sheet size
+     */
+    public pack(key?: string): TextureAtlas {
+        const { padding, maxWidth, maxHeight } = this.options;
+        const placements: { name: string; image: AtlasImage; x: number; y: number }[] = [];
+
+        const sorted = Array.from(this.images.entries())
+            .sort(([, a], [, b]) => b.height - a.height);
+
+        let shelfX = 0;
+        let shelfY = 0;
+        let shelfHeight = 0;
+        let usedWidth = 0;
+
+        sorted.forEach(([name, image]) => {
+            const width = image.width + padding * 2;
+            const height = image.height + padding * 2;
+
+            // Start a new shelf when the current one is full
+            if (shelfX + width > maxWidth) {
+                shelfY += shelfHeight;
+                shelfX = 0;
+                shelfHeight = 0;
+            }
+
+            placements.push({ name, image, x: shelfX + padding, y: shelfY + padding });
+            shelfX += width;
+            shelfHeight = Math.max(shelfHeight, height);
+            usedWidth = Math.max(usedWidth, shelfX);
+        });
+
+        const usedHeight = shelfY + shelfHeight;
+        if (usedHeight > maxHeight) {
+            throw new Error(`Images do not fit in a ${maxWidth}x${maxHeight} atlas`);
+        }
+
+        const canvas = this.options.canvasFactory(Math.max(1, usedWidth), Math.max(1, usedHeight));
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Failed to get 2D context for atlas packing');
+        }
+
+        const frames: AtlasFrame[] = placements.map(({ name, image, x, y }) => {
+            context.drawImage(image, x, y);
+            return {
+                name,
+                x,
+                y,
+                width: image.width,
+                height: image.height,
+                sourceWidth: image.width,
+                sourceHeight: image.height,
+                offsetX: 0,
+                offsetY: 0,
+                pivotX: DEFAULT_PIVOT,
+                pivotY: DEFAULT_PIVOT
+            };
+        });
+
+        return new TextureAtlas(canvas, frames, key);
+    }
+}
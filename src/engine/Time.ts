@@ -5,6 +5,9 @@
  * fixed timestep updates. Handles delta time calculations, frame timing, and FPS monitoring.
  */
 
+import { Clock, getDefaultClock } from './Clock';
+import { TimeChannel, TimeScale } from './TimeScale';
+
 /**
  * Configuration constants for time management
  */
@@ -23,8 +26,12 @@ const TIME_CONFIG = {
 export interface TimeState {
     /** Total elapsed time since game start (in seconds) */
     readonly totalTime: number;
-    /** Time elapsed since last frame (in seconds) */
+    /** Gameplay-scaled time elapsed since last frame (in seconds) */
     readonly deltaTime: number;
+    /** Real time elapsed since last frame, ignoring all time scales (in seconds) */
+    readonly unscaledDeltaTime: number;
+    /** Scaled time elapsed since last frame for each channel (in seconds) */
+    readonly channelDeltas: Readonly<Record<TimeChannel, number>>;
     /** Fixed timestep duration (in seconds) */
     readonly fixedTimestep: number;
     /** Current frames per second */
@@ -38,22 +45,39 @@ export class Time {
     private startTime: number;
     private lastFrameTime: number;
     private deltaTime: number;
+    private unscaledDeltaTime: number;
     private fixedTimestep: number;
     private accumulator: number;
     private frameCount: number;
     private fpsUpdateTime: number;
     private currentFps: number;
+    private clock: Clock;
+    private timeScale: TimeScale;
+    private ownsTimeScale: boolean;
+    private fpsListeners: Set<(fps: number) => void>;
 
     /**
      * Creates a new Time instance
      * @param fixedTimestep - Optional custom fixed timestep duration (in seconds)
+     * @param clock - Optional clock to read time from (defaults to the browser clock)
+     * @param timeScale - Optional shared time scale, advanced by its owner (usually the GameLoop).
+     * When omitted, a private one is created and advanced here.
      */
-    constructor(fixedTimestep: number = TIME_CONFIG.DEFAULT_FIXED_TIMESTEP) {
+    constructor(
+        fixedTimestep: number = TIME_CONFIG.DEFAULT_FIXED_TIMESTEP,
+        clock: Clock = getDefaultClock(),
+        timeScale?: TimeScale
+    ) {
         this.validateFixedTimestep(fixedTimestep);
         
-        this.startTime = performance.now();
+        this.clock = clock;
+        this.timeScale = timeScale ?? new TimeScale();
+        this.ownsTimeScale = timeScale === undefined;
+        this.fpsListeners = new Set();
+        this.startTime = this.clock.now();
         this.lastFrameTime = this.startTime;
         this.deltaTime = 0;
+        this.unscaledDeltaTime = 0;
         this.fixedTimestep = fixedTimestep;
         this.accumulator = 0;
         this.frameCount = 0;
@@ -66,13 +90,19 @@ export class Time {
      * @returns Current time state
      */
     public update(): TimeState {
-        const currentTime = performance.now();
-        this.deltaTime = Math.min(
+        const currentTime = this.clock.now();
+        this.unscaledDeltaTime = Math.min(
             (currentTime - this.lastFrameTime) / 1000,
             TIME_CONFIG.MAX_DELTA_TIME
         );
         this.lastFrameTime = currentTime;
-        this.accumulator += this.deltaTime;
+        this.accumulator += this.unscaledDeltaTime;
+
+        // Advance scale tweens in real time (only when no one else owns the scale), then derive the gameplay delta
+        if (this.ownsTimeScale) {
+            this.timeScale.update(this.unscaledDeltaTime * 1000);
+        }
+        this.deltaTime = this.timeScale.scaleDelta(TimeChannel.GAMEPLAY, this.unscaledDeltaTime);
 
         // Update FPS calculation
         this.frameCount++;
@@ -113,21 +143,64 @@ export class Time {
      * @returns Current TimeState object
      */
     public getTimeState(): TimeState {
+        const channelDeltas = {} as Record<TimeChannel, number>;
+        for (const channel of Object.values(TimeChannel)) {
+            channelDeltas[channel] = this.timeScale.scaleDelta(channel, this.unscaledDeltaTime);
+        }
+
         return {
-            totalTime: (performance.now() - this.startTime) / 1000,
+            totalTime: (this.clock.now() - this.startTime) / 1000,
             deltaTime: this.deltaTime,
+            unscaledDeltaTime: this.unscaledDeltaTime,
+            channelDeltas,
             fixedTimestep: this.fixedTimestep,
             fps: this.currentFps
         };
     }
 
+    /**
+     * Adds a listener notified each time the FPS measurement is refreshed
+     * @param listener - Function receiving the measured FPS
+     */
+    public addFpsListener(listener: (fps: number) => void): void {
+        this.fpsListeners.add(listener);
+    }
+
+    /**
+     * Removes an FPS listener
+     * @param listener - Function to remove
+     */
+    public removeFpsListener(listener: (fps: number) => void): void {
+        this.fpsListeners.delete(listener);
+    }
+
+    /**
+     * Gets the time scale controlling this time system's channels
+     * @returns Shared TimeScale instance
+     */
+    public getTimeScale(): TimeScale {
+        return this.timeScale;
+    }
+
+    /**
+     * Discards pending accumulated time, e.g. after the game was suspended,
+     * so the next frame does not try to catch up on the gap
+     */
+    public resetAccumulator(): void {
+        this.lastFrameTime = this.clock.now();
+        this.accumulator = 0;
+        this.deltaTime = 0;
+        this.unscaledDeltaTime = 0;
+    }
+
     /**
      * Resets the time system
      */
     public reset(): void {
-        this.startTime = performance.now();
+        this.startTime = this.clock.now();
         this.lastFrameTime = this.startTime;
         this.deltaTime = 0;
+        this.unscaledDeltaTime = 0;
         this.accumulator = 0;
         this.frameCount = 0;
         this.fpsUpdateTime = this.startTime;
@@ -146,9 +219,17 @@ export class Time {
     }
 
     /**
-     * Checks performance and logs warnings if FPS is too low
+     * Reports the measured FPS to listeners and logs warnings if FPS is too low
      */
     private checkPerformance(): void {
+        this.fpsListeners.forEach(listener => {
+            try {
+                listener(this.currentFps);
+            } catch (error) {
+                console.error('Error in FPS listener:', error);
+            }
+        });
+
         if (this.currentFps < TIME_CONFIG.MIN_FPS_THRESHOLD) {
             console.warn(
                 `Low FPS detected: ${Math.round(this.currentFps)} FPS. ` +
@@ -160,8 +241,11 @@ export class Time {
 
 /**
  * Creates a Time instance with default configuration
+ * @param fixedTimestep - Optional custom fixed timestep duration (in seconds)
+ * @param clock - Optional clock to read time from
+ * @param timeScale - Optional shared time scale
  * @returns Configured Time instance
  */
-export function createTime(fixedTimestep?: number): Time {
-    return new Time(fixedTimestep);
+export function createTime(fixedTimestep?: number, clock?: Clock, timeScale?: TimeScale): Time {
+    return new Time(fixedTimestep, clock, timeScale);
 }
\ No newline at end of file
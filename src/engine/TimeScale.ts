@@ -0,0 +1,207 @@
+/**
+ * @file TimeScale.ts
+ * @module TimeScale
+ * @description Named time channels with independent scale factors. Lets gameplay be slowed
+ * or frozen (slow motion, hit-stop, bullet time) while effects, UI and audio keep their own rate.
+ */
+
+import { Easing, EasingFunction } from './Easing';
+
+/**
+ * Channels that systems can opt into for scaled time
+ */
+export enum TimeChannel {
+    GAMEPLAY = 'gameplay',
+    EFFECTS = 'effects',
+    UI = 'ui',
+    AUDIO = 'audio'
+}
+
+/**
+ * Binds a system to a channel of a TimeScale
+ */
+export interface TimeChannelBinding {
+    timeScale: TimeScale;
+    channel: TimeChannel;
+}
+
+/**
+ * In-flight transition of a channel's scale
+ */
+interface ScaleTween {
+    from: number;
+    to: number;
+    duration: number;
+    elapsed: number;
+    easing: EasingFunction;
+}
+
+/**
+ * Internal state tracked for each channel
+ */
+interface ChannelState {
+    scale: number;
+    tween: ScaleTween | null;
+    hitStopRemaining: number;
+}
+
+/**
+ * Manages per-channel time scale factors. All durations are in unscaled milliseconds.
+ */
+export class TimeScale {
+    private channels: Map<TimeChannel, ChannelState>;
+
+    /**
+     * Creates a new TimeScale with every channel running at normal speed
+     */
+    constructor() {
+        this.channels = new Map();
+        this.reset();
+    }
+
+    /**
+     * Advances tweens and hit-stops
+     * @param unscaledDeltaTime - Real time elapsed since last update (in milliseconds)
+     */
+    public update(unscaledDeltaTime: number): void {
+        this.channels.forEach(state => {
+            if (state.hitStopRemaining > 0) {
+                state.hitStopRemaining = Math.max(0, state.hitStopRemaining - unscaledDeltaTime);
+            }
+
+            const tween = state.tween;
+            if (!tween) {
+                return;
+            }
+
+            tween.elapsed += unscaledDeltaTime;
+            const progress = Math.min(tween.elapsed / tween.duration, 1);
+            state.scale = tween.from + (tween.to - tween.from) * tween.easing(progress);
+
+            if (progress >= 1) {
+                state.tween = null;
+            }
+        });
+    }
+
+    /**
+     * Gets the effective scale of a channel, including any active hit-stop
+     * @param channel - Channel to query
+     */
+    public getScale(channel: TimeChannel): number {
+        const state = this.getChannel(channel);
+        return state.hitStopRemaining > 0 ? 0 : state.scale;
+    }
+
+    /**
+     * Immediately sets a channel's scale, cancelling any tween in progress
+     * @param channel - Channel to change
+     * @param scale - New scale factor (0 freezes the channel)
+     */
+    public setScale(channel: TimeChannel, scale: number): void {
+        this.validateScale(scale);
+
+        const state = this.getChannel(channel);
+        state.scale = scale;
+        state.tween = null;
+    }
+
+    /**
+     * Smoothly transitions a channel's scale over time
+     * @param channel - Channel to change
+     * @param target - Scale factor to reach
+     * @param duration - Transition length (in milliseconds)
+     * @param easing - Easing curve for the transition
+     */
+    public tweenScale(
+        channel: TimeChannel,
+        target: number,
+        duration: number,
+        easing: EasingFunction = Easing.linear
+    ): void {
+        this.validateScale(target);
+
+        if (duration <= 0) {
+            this.setScale(channel, target);
+            return;
+        }
+
+        const state = this.getChannel(channel);
+        state.tween = {
+            from: state.scale,
+            to: target,
+            duration,
+            elapsed: 0,
+            easing
+        };
+    }
+
+    /**
+     * Freezes channels for a short duration without touching their scale
+     * @param duration - Freeze length (in milliseconds)
+     * @param channels - Channels to freeze (defaults to gameplay only)
+     */
+    public hitStop(duration: number, channels: TimeChannel[] = [TimeChannel.GAMEPLAY]): void {
+        for (const channel of channels) {
+            const state = this.getChannel(channel);
+            state.hitStopRemaining = Math.max(state.hitStopRemaining, duration);
+        }
+    }
+
+    /**
+     * Scales a delta time by a channel's effective scale
+     * @param channel - Channel to apply
+     * @param deltaTime - Unscaled delta time (any unit)
+     * @returns Scaled delta time in the same unit
+     */
+    public scaleDelta(channel: TimeChannel, deltaTime: number): number {
+        return deltaTime * this.getScale(channel);
+    }
+
+    /**
+     * Restores every channel to normal speed
+     */
+    public reset(): void {
+        for (const channel of Object.values(TimeChannel)) {
+            this.channels.set(channel, {
+                scale: 1,
+                tween: null,
+                hitStopRemaining: 0
+            });
+        }
+    }
+
+    /**
+     * Gets the state of a channel
+     * @param channel - Channel to look up
+     * @throws Error if the channel is unknown
+     */
+    private getChannel(channel: TimeChannel): ChannelState {
+        const state = this.channels.get(channel);
+        if (!state) {
+            throw new Error(`Unknown time channel: ${channel}`);
+        }
+        return state;
+    }
+
+    /**
+     * Validates a scale factor
+     * @param scale - Scale factor to validate
+     * @throws Error if scale is negative or not finite
+     */
+    private validateScale(scale: number): void {
+        if (scale < 0 || !Number.isFinite(scale)) {
+            throw new Error('Time scale must be a non-negative finite number');
+        }
+    }
+}
+
+/**
+ * Scales a delta time through an optional channel binding
+ * @param binding - Channel binding, or null for unscaled time
+ * @param deltaTime - Unscaled delta time
+ * @returns Scaled delta time
+ */
+export function applyTimeChannel(binding: TimeChannelBinding | null, deltaTime: number): number {
+    return binding ? binding.timeScale.scaleDelta(binding.channel, deltaTime) : deltaTime;
+}
@@ -4,7 +4,9 @@
  * @module entities/Enemy
  */
 
-import { AudioManager } from '../managers/AudioManager';
+import { AudioManager } from '../audio/AudioManager';
+import { Interpolatable, Transform2D, interpolateTransform } from '../engine/Interpolation';
+import { toReferenceTicks } from '../engine/GameLoop';
 
 // =========================================================
 // Types and Interfaces
@@ -55,8 +57,9 @@ const ENEMY_DEATH_SOUND = 'enemy-destruction';
 // Enemy Class Implementation
 // =========================================================
 
-export class Enemy {
+export class Enemy implements Interpolatable {
   private position: Vector2D;
+  private previousPosition: Vector2D;
   private velocity: Vector2D;
   private initialPosition: Vector2D;
   private movementPattern: MovementPattern;
@@ -77,6 +80,7 @@ export class Enemy {
     this.validateConfig(config);
 
     this.position = { ...config.position };
+    this.previousPosition = { ...config.position };
     this.initialPosition = { ...config.position };
     this.speed = config.speed || DEFAULT_SPEED;
     this.movementPattern = config.movementPattern;
@@ -98,7 +102,9 @@ export class Enemy {
     }
 
     try {
-      this.audioManager.playSound(ENEMY_DEATH_SOUND);
+      if (this.audioManager.hasAudio(ENEMY_DEATH_SOUND)) {
+        this.audioManager.play(ENEMY_DEATH_SOUND);
+      }
       this.isDestroyed = true;
       return true;
     } catch (error) {
@@ -116,6 +122,42 @@ export class Enemy {
     return this.isDestroyed;
   }
 
+  /**
+   * Gets the position as of the latest fixed step
+   * @returns {Vector2D} Top-left corner of the enemy
+   */
+  public getPosition(): Vector2D {
+    return { ...this.position };
+  }
+
+  /**
+   * Gets the position as of the previous fixed step
+   * @returns {Vector2D} Top-left corner of the enemy
+   */
+  public getPreviousPosition(): Vector2D {
+    return { ...this.previousPosition };
+  }
+
+  /**
+   * Stores the current position as the previous fixed step's position
+   */
+  public savePreviousTransform(): void {
+    this.previousPosition = { ...this.position };
+  }
+
+  /**
+   * Gets the position blended between the previous and current fixed steps
+   * @param alpha - Interpolation factor from the game loop
+   * @returns Interpolated transform for rendering
+   */
+  public getInterpolatedTransform(alpha: number): Transform2D {
+    return interpolateTransform(
+      { ...this.previousPosition, rotation: 0 },
+      { ...this.position, rotation: 0 },
+      alpha
+    );
+  }
+
   // ... [All existing methods remain unchanged]
 
   /**
@@ -127,6 +169,8 @@ export class Enemy {
       return;
     }
 
+    this.savePreviousTransform();
+
     switch (this.movementPattern) {
       case MovementPattern.LINEAR:
         this.updateLinearMovement(deltaTime);
@@ -148,5 +192,53 @@ export class Enemy {
     }
   }
 
+  /**
+   * Validates enemy configuration
+   * @param config - Enemy configuration options
+   * @throws {Error} If the position, speed or movement pattern is invalid
+   * @private
+   */
+  private validateConfig(config: EnemyConfig): void {
+    if (!config?.position || !Number.isFinite(config.position.x) || !Number.isFinite(config.position.y)) {
+      throw new Error('Enemy position must have finite coordinates');
+    }
+    if (config.speed < 0) {
+      throw new Error('Enemy speed cannot be negative');
+    }
+    if (!Object.values(MovementPattern).includes(config.movementPattern)) {
+      throw new Error(`Unsupported movement pattern: ${config.movementPattern}`);
+    }
+  }
+
+  /**
+   * Moves straight down. Speed is per 60 Hz tick, like the player's.
+   * @private
+   */
+  private updateLinearMovement(deltaTime: number): void {
+    this.velocity = { x: 0, y: this.speed };
+    this.position.y += this.velocity.y * toReferenceTicks(deltaTime);
+  }
+
+  /**
+   * Circles the spawn position at the patrol radius
+   * @private
+   */
+  private updateCircularMovement(deltaTime: number): void {
+    this.angle += (this.speed / this.patrolRadius) * toReferenceTicks(deltaTime);
+    this.position.x = this.initialPosition.x + Math.cos(this.angle) * this.patrolRadius;
+    this.position.y = this.initialPosition.y + Math.sin(this.angle) * this.patrolRadius;
+  }
+
+  /**
+   * Moves down while swaying sideways; the sway follows the distance travelled, so it
+   * keeps the same shape at any speed
+   * @private
+   */
+  private updateSineWaveMovement(deltaTime: number): void {
+    this.position.y += this.speed * toReferenceTicks(deltaTime);
+    this.angle = (this.position.y - this.initialPosition.y) * this.frequency;
+    this.position.x = this.initialPosition.x + Math.sin(this.angle) * this.amplitude;
+  }
+
   // ... [Rest of the existing code remains unchanged]
 }
\ No newline at end of file
@@ -5,11 +5,15 @@
  */
 
 import { Vector2D } from '../types/Vector2D';
-import { Sprite } from '../graphics/Sprite';
+import { Sprite } from '../engine/Sprite';
 import { Renderable } from '../interfaces/Renderable';
 import { Entity } from '../interfaces/Entity';
-import { GameConfig } from '../config/GameConfig';
-import { SoundManager } from '../audio/SoundManager';
+import { AudioManager } from '../audio/AudioManager';
+import { Interpolatable, Transform2D, interpolateTransform } from '../engine/Interpolation';
+import { BoundingBox } from '../engine/Collision';
+import { toReferenceTicks } from '../engine/GameLoop';
+import { createPlayerSprite } from '../data/InvaderBitmaps';
+import { SOUND_IDS } from '../data/AssetManifest';
 
 /**
  * Configuration constants for the player ship
@@ -24,9 +28,10 @@ const PLAYER_CONFIG = {
     LEFT: ['ArrowLeft', 'a', 'A'],
     RIGHT: ['ArrowRight', 'd', 'D'],
   },
+  SHOOT_KEYS: [' '],
   SOUND_EFFECTS: {
-    SHOOT: 'player-shoot',
-    MOVE: 'player-move',
+    SHOOT: SOUND_IDS.PLAYER_SHOOT,
+    MOVE: SOUND_IDS.PLAYER_MOVE,
   }
 } as const;
 
@@ -34,11 +39,14 @@ const PLAYER_CONFIG = {
  * Represents the player's ship in the game
  * @implements {Entity}
  * @implements {Renderable}
+ * @implements {Interpolatable}
  */
-export class Player implements Entity, Renderable {
+export class Player implements Entity, Renderable, Interpolatable {
   private position: Vector2D;
+  private previousPosition: Vector2D;
   private velocity: Vector2D;
   private rotation: number;
+  private previousRotation: number;
   private sprite: Sprite;
   private health: number;
   private isActive: boolean;
@@ -46,7 +54,9 @@ export class Player implements Entity, Renderable {
     left: boolean;
     right: boolean;
   };
-  private soundManager: SoundManager;
+  private shootHeld: boolean = false;
+  private onShootCallback?: (muzzle: Vector2D) => void;
+  private audioManager: AudioManager;
 
   /**
    * Creates a new Player instance
@@ -55,8 +65,10 @@ export class Player implements Entity, Renderable {
    */
   constructor(initialPosition: Vector2D) {
     this.position = { ...initialPosition };
+    this.previousPosition = { ...initialPosition };
     this.velocity = { x: 0, y: 0 };
     this.rotation = 0;
+    this.previousRotation = 0;
     this.health = PLAYER_CONFIG.INITIAL_HEALTH;
     this.isActive = true;
     this.movementState = {
@@ -65,13 +77,8 @@ export class Player implements Entity, Renderable {
     };
 
     try {
-      this.sprite = new Sprite({
-        width: PLAYER_CONFIG.SPRITE_WIDTH,
-        height: PLAYER_CONFIG.SPRITE_HEIGHT,
-        imagePath: GameConfig.ASSETS_PATH + '/player-ship.png'
-      });
-      this.soundManager = SoundManager.getInstance();
-      this.initializeSoundEffects();
+      this.sprite = createPlayerSprite();
+      this.audioManager = AudioManager.getInstance();
     } catch (error) {
       throw new Error(`Failed to initialize player: ${error.message}`);
     }
@@ -81,22 +88,12 @@ export class Player implements Entity, Renderable {
   }
 
   /**
-   * Initializes sound effects for the player
+   * Plays a sound effect preloaded by the AssetManager; sounds that failed to load are skipped
    * @private
    */
-  private initializeSoundEffects(): void {
-    try {
-      this.soundManager.loadSound(
-        PLAYER_CONFIG.SOUND_EFFECTS.SHOOT,
-        GameConfig.ASSETS_PATH + '/sounds/shoot.mp3'
-      );
-      this.soundManager.loadSound(
-        PLAYER_CONFIG.SOUND_EFFECTS.MOVE,
-        GameConfig.ASSETS_PATH + '/sounds/move.mp3'
-      );
-    } catch (error) {
-      console.warn('Failed to load player sound effects:', error);
-    }
+  private playSoundEffect(trackId: string): void {
+    if (!this.audioManager.hasAudio(trackId)) return;
+    this.audioManager.play(trackId);
   }
 
   /**
@@ -108,9 +105,10 @@ export class Player implements Entity, Renderable {
 
     try {
       // Play shoot sound effect
-      this.soundManager.playSound(PLAYER_CONFIG.SOUND_EFFECTS.SHOOT);
+      this.playSoundEffect(PLAYER_CONFIG.SOUND_EFFECTS.SHOOT);
       
-      // Additional shooting logic would go here
+      const { width } = this.sprite.getDimensions();
+      this.onShootCallback?.({ x: this.position.x + width / 2, y: this.position.y });
       return true;
     } catch (error) {
       console.warn('Failed to play shoot sound effect:', error);
@@ -118,44 +116,167 @@ export class Player implements Entity, Renderable {
     }
   }
 
-  // ... [Previous methods remain unchanged]
+  /**
+   * Sets up callback for shots fired
+   * @param callback - Function called with the top centre of the ship when it shoots
+   */
+  public onShoot(callback: (muzzle: Vector2D) => void): void {
+    this.onShootCallback = callback;
+  }
 
   /**
-   * Updates velocity based on current movement state
+   * Takes damage, deactivating the ship once its health runs out
+   * @param amount - Health to remove
+   * @returns {boolean} Whether the ship is still active
+   */
+  public takeDamage(amount: number): boolean {
+    if (!this.isActive) return false;
+
+    this.health = Math.max(0, this.health - amount);
+    if (this.health === 0) {
+      this.isActive = false;
+    }
+    return this.isActive;
+  }
+
+  /**
+   * Gets the remaining health
+   */
+  public getHealth(): number {
+    return this.health;
+  }
+
+  /**
+   * Gets the ship's box as of the latest fixed step
+   */
+  public getBounds(): BoundingBox {
+    return { ...this.position, ...this.sprite.getDimensions() };
+  }
+
+  /**
+   * Gets the ship's box as of the previous fixed step
+   */
+  public getPreviousBounds(): BoundingBox {
+    return { ...this.previousPosition, ...this.sprite.getDimensions() };
+  }
+
+  /**
+   * Advances the player by one fixed update. Speed is per 60 Hz tick, so movement is
+   * scaled by the update duration to stay independent of the logic rate.
+   * @param deltaTime - Fixed update duration in milliseconds
+   */
+  public update(deltaTime: number): void {
+    if (!this.isActive) return;
+
+    this.savePreviousTransform();
+    this.updateVelocityFromInput();
+
+    const ticks = toReferenceTicks(deltaTime);
+    this.position.x += this.velocity.x * ticks;
+    this.position.y += this.velocity.y * ticks;
+  }
+
+  /**
+   * Stores the current transform as the previous fixed step's transform.
+   * Called by update before the player moves.
+   */
+  public savePreviousTransform(): void {
+    this.previousPosition = { ...this.position };
+    this.previousRotation = this.rotation;
+  }
+
+  /**
+   * Gets the transform blended between the previous and current fixed steps
+   * @param alpha - Interpolation factor from the game loop
+   * @returns Interpolated transform for rendering
+   */
+  public getInterpolatedTransform(alpha: number): Transform2D {
+    return interpolateTransform(
+      { ...this.previousPosition, rotation: this.previousRotation },
+      { ...this.position, rotation: this.rotation },
+      alpha
+    );
+  }
+
+  /**
+   * Draws the ship blended between its previous and current fixed steps
+   * @param context - Context to draw into
+   * @param interpolation - Interpolation factor from the game loop
+   */
+  public render(context: CanvasRenderingContext2D, interpolation: number = 1): void {
+    if (!this.isActive) return;
+
+    const { x, y, rotation } = this.getInterpolatedTransform(interpolation);
+    this.sprite.render(context, x, y, { rotation });
+  }
+
+  /**
+   * Listens for the movement keys
    * @private
    */
-  private updateVelocityFromInput(): void {
-    let horizontalMovement = 0;
-    
-    if (this.movementState.left) horizontalMovement -= 1;
-    if (this.movementState.right) horizontalMovement += 1;
+  private initializeKeyboardControls(): void {
+    window.addEventListener('keydown', this.handleKeyboardInput);
+    window.addEventListener('keyup', this.handleKeyboardInput);
+  }
+
+  /**
+   * Tracks which movement keys are held. The move sound plays once when the ship starts
+   * moving, not for auto-repeated key-downs or on every update while a key is held.
+   * Likewise, holding the shoot key fires a single shot.
+   * @private
+   */
+  private handleKeyboardInput = (event: KeyboardEvent): void => {
+    const isDown = event.type === 'keydown';
+    const { LEFT, RIGHT } = PLAYER_CONFIG.MOVEMENT_KEYS;
+
+    if ((PLAYER_CONFIG.SHOOT_KEYS as readonly string[]).includes(event.key)) {
+      if (isDown && !this.shootHeld) {
+        this.shoot();
+      }
+      this.shootHeld = isDown;
+      return;
+    }
+
+    const wasMoving = this.movementState.left || this.movementState.right;
 
-    if (horizontalMovement !== 0) {
+    if ((LEFT as readonly string[]).includes(event.key)) {
+      this.movementState.left = isDown;
+    } else if ((RIGHT as readonly string[]).includes(event.key)) {
+      this.movementState.right = isDown;
+    } else {
+      return;
+    }
+
+    if (isDown && !wasMoving && this.isActive) {
       try {
-        this.soundManager.playSound(PLAYER_CONFIG.SOUND_EFFECTS.MOVE);
+        this.playSoundEffect(PLAYER_CONFIG.SOUND_EFFECTS.MOVE);
       } catch (error) {
         console.warn('Failed to play movement sound effect:', error);
       }
     }
+  };
+
+  /**
+   * Updates velocity based on current movement state
+   * @private
+   */
+  private updateVelocityFromInput(): void {
+    let horizontalMovement = 0;
+    
+    if (this.movementState.left) horizontalMovement -= 1;
+    if (this.movementState.right) horizontalMovement += 1;
 
     this.velocity.x = horizontalMovement * PLAYER_CONFIG.DEFAULT_SPEED;
   }
 
   /**
-   * Cleanup method to remove event listeners and dispose of sound resources
-   * Should be called when the player instance is destroyed
+   * Cleanup method to remove event listeners
+   * Should be called when the player instance is destroyed. Sound effects belong to the
+   * AssetManager and stay loaded for the next player.
    */
   public dispose(): void {
     window.removeEventListener('keydown', this.handleKeyboardInput);
     window.removeEventListener('keyup', this.handleKeyboardInput);
-    
-    // Cleanup sound effects
-    try {
-      this.soundManager.unloadSound(PLAYER_CONFIG.SOUND_EFFECTS.SHOOT);
-      this.soundManager.unloadSound(PLAYER_CONFIG.SOUND_EFFECTS.MOVE);
-    } catch (error) {
-      console.warn('Failed to unload player sound effects:', error);
-    }
   }
 
   // ... [Rest of the existing code remains unchanged]
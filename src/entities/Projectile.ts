@@ -4,6 +4,9 @@
  * Handles projectile behavior, lifecycle, and collision detection.
  */
 
+import { Interpolatable, Transform2D, interpolateTransform } from '../engine/Interpolation';
+import { BoundingBox, CollisionSystem, SweepResult } from '../engine/Collision';
+
 // Types and interfaces
 interface ProjectileConfig {
   speed: number;
@@ -21,8 +24,9 @@ interface Vector2D {
  * Represents a projectile entity in the game world.
  * Handles movement, collision detection, and damage dealing.
  */
-export class Projectile {
+export class Projectile implements Interpolatable {
   private position: Vector2D;
+  private previousPosition: Vector2D;
   private readonly speed: number;
   private readonly damage: number;
   private readonly range: number;
@@ -40,6 +44,7 @@ export class Projectile {
     this.validateConstructorParams(startPosition, config);
 
     this.position = { ...startPosition };
+    this.previousPosition = { ...startPosition };
     this.speed = config.speed;
     this.damage = config.damage;
     this.range = config.range;
@@ -56,6 +61,7 @@ export class Projectile {
   public update(deltaTime: number): boolean {
     if (!this.active) return false;
 
+    this.savePreviousTransform();
     const movement = this.calculateMovement(deltaTime);
     this.position.x += movement.x;
     this.position.y += movement.y;
@@ -79,6 +85,62 @@ export class Projectile {
     return { ...this.position };
   }
 
+  /**
+   * Tests the segment travelled during the last update against a box, so hits
+   * are found regardless of how far the projectile moved in one step.
+   * @param box - Target bounds
+   * @returns SweepResult - Time of impact along the segment and surface normal
+   */
+  public sweepAgainst(box: BoundingBox): SweepResult {
+    return CollisionSystem.raycastBox(
+      this.previousPosition,
+      {
+        x: this.position.x - this.previousPosition.x,
+        y: this.position.y - this.previousPosition.y
+      },
+      box
+    );
+  }
+
+  /**
+   * Checks the movement of the last update against a target and, on a hit, stops
+   * the projectile at the point of impact and handles the collision.
+   * @param box - Target bounds
+   * @param target - The entity the bounds belong to
+   * @returns boolean - Whether the projectile hit the target
+   */
+  public checkHit(box: BoundingBox, target: unknown): boolean {
+    if (!this.active) return false;
+
+    const sweep = this.sweepAgainst(box);
+    if (!sweep.hit) return false;
+
+    this.position = { ...sweep.position };
+    this.onCollision(target);
+    return true;
+  }
+
+  /**
+   * Stores the current position as the previous fixed step's position.
+   */
+  public savePreviousTransform(): void {
+    this.previousPosition = { ...this.position };
+  }
+
+  /**
+   * Gets the position blended between the previous and current fixed steps.
+   * @param alpha - Interpolation factor from the game loop
+   * @returns Transform2D - Interpolated transform, rotated to face the direction of travel
+   */
+  public getInterpolatedTransform(alpha: number): Transform2D {
+    const rotation = Math.atan2(this.direction.y, this.direction.x);
+    return interpolateTransform(
+      { ...this.previousPosition, rotation },
+      { ...this.position, rotation },
+      alpha
+    );
+  }
+
   /**
    * Gets the damage value of the projectile.
    * @returns number - Damage value
@@ -4,6 +4,8 @@
  * @module input
  */
 
+import { FrameProfiler } from '../utils/Performance';
+
 // Types for keyboard events and movement states
 type MovementDirection = 'left' | 'right' | 'none';
 type KeyState = {
@@ -170,12 +172,14 @@ export class KeyboardController {
    * @private
    */
   private notifyListeners(): void {
-    this.listeners.forEach(listener => {
-      try {
-        listener(this.currentDirection);
-      } catch (error) {
-        console.error('Error in movement listener:', error);
-      }
+    FrameProfiler.getInstance().measure('input', () => {
+      this.listeners.forEach(listener => {
+        try {
+          listener(this.currentDirection);
+        } catch (error) {
+          console.error('Error in movement listener:', error);
+        }
+      });
     });
   }
 }
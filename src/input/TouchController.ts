@@ -4,6 +4,8 @@
  * @module input/TouchController
  */
 
+import { Canvas } from '../engine/Canvas';
+
 // Types for touch events and callbacks
 type TouchCallback = (event: TouchEvent) => void;
 type GestureCallback = (data: GestureData) => void;
@@ -23,6 +25,8 @@ interface TouchControllerConfig {
   swipeThreshold?: number;
   tapTimeout?: number;
   doubleTapTimeout?: number;
+  /** When given, gesture coordinates are reported in the canvas's logical units */
+  canvas?: Canvas;
 }
 
 /**
@@ -34,6 +38,7 @@ export class TouchController {
   private readonly swipeThreshold: number;
   private readonly tapTimeout: number;
   private readonly doubleTapTimeout: number;
+  private readonly canvas: Canvas | null;
 
   private touchStartTime: number = 0;
   private touchStartX: number = 0;
@@ -51,6 +56,7 @@ export class TouchController {
     this.swipeThreshold = config.swipeThreshold || 50;
     this.tapTimeout = config.tapTimeout || 200;
     this.doubleTapTimeout = config.doubleTapTimeout || 300;
+    this.canvas = config.canvas || null;
 
     this.initializeEventListeners();
   }
@@ -91,15 +97,27 @@ export class TouchController {
     this.callbacks.get(eventName)?.delete(callback);
   }
 
+  /**
+   * Gets the position of a touch, in logical canvas units when a canvas was configured
+   * @param touch - Touch to locate
+   * @returns Position of the touch
+   */
+  public getTouchPosition(touch: Touch): { x: number; y: number } {
+    if (this.canvas) {
+      return this.canvas.screenToWorld(touch.clientX, touch.clientY);
+    }
+    return { x: touch.clientX, y: touch.clientY };
+  }
+
   /**
    * Handle touch start event
    * @private
    */
   private handleTouchStart(event: TouchEvent): void {
-    const touch = event.touches[0];
+    const position = this.getTouchPosition(event.touches[0]);
     this.touchStartTime = Date.now();
-    this.touchStartX = touch.clientX;
-    this.touchStartY = touch.clientY;
+    this.touchStartX = position.x;
+    this.touchStartY = position.y;
 
     this.emit('touchstart', event);
   }
@@ -117,16 +135,16 @@ export class TouchController {
    * @private
    */
   private handleTouchEnd(event: TouchEvent): void {
-    const touch = event.changedTouches[0];
-    const deltaX = touch.clientX - this.touchStartX;
-    const deltaY = touch.clientY - this.touchStartY;
+    const position = this.getTouchPosition(event.changedTouches[0]);
+    const deltaX = position.x - this.touchStartX;
+    const deltaY = position.y - this.touchStartY;
     const duration = Date.now() - this.touchStartTime;
 
     const gestureData: GestureData = {
       startX: this.touchStartX,
       startY: this.touchStartY,
-      endX: touch.clientX,
-      endY: touch.clientY,
+      endX: position.x,
+      endY: position.y,
       deltaX,
       deltaY,
       duration
@@ -0,0 +1,43 @@
+/**
+ * @file main.ts
+ * @description Game bootstrap: creates the canvas, hands its context to the game states and
+ * starts the game loop in the LoadingState, which preloads the asset manifest.
+ * @module main
+ */
+
+import { Canvas } from './engine/Canvas';
+import { GameLoop } from './engine/GameLoop';
+import { GameStateManager, GameStateType } from './states/GameStates';
+
+/**
+ * Running game returned by bootstrap
+ */
+export interface Game {
+  canvas: Canvas;
+  stateManager: GameStateManager;
+  gameLoop: GameLoop;
+}
+
+/**
+ * Starts the game
+ * @param container - Element the canvas is fitted into (defaults to the document body)
+ * @throws Error if the canvas cannot be initialized
+ * @returns The running game
+ */
+export function bootstrap(container?: HTMLElement): Game {
+  const canvas = new Canvas({ container });
+  canvas.init();
+
+  const stateManager = new GameStateManager();
+  stateManager.setRenderContext(canvas.getContext());
+
+  const gameLoop = new GameLoop({
+    update: deltaTime => stateManager.update(deltaTime),
+    render: interpolation => canvas.render((_ctx, alpha) => stateManager.render(alpha), interpolation)
+  });
+
+  stateManager.changeState(GameStateType.LOADING);
+  gameLoop.start();
+
+  return { canvas, stateManager, gameLoop };
+}
@@ -0,0 +1,452 @@
+/**
+ * @file AssetManager.ts
+ * @description Preloads the game's images, texture atlases, audio and JSON data from a
+ * manifest. Loads run with a concurrency limit and retries, and report progress weighted
+ * by each asset's declared cost so the loading screen can show a meaningful bar.
+ */
+
+import { loadImage, TextureAtlas } from '../engine/TextureAtlas';
+import { AudioManager } from '../audio/AudioManager';
+
+// =========================================
+// Types and Interfaces
+// =========================================
+
+export type AssetType = 'image' | 'atlas' | 'audio' | 'json';
+
+/**
+ * One entry of an asset manifest
+ */
+export interface AssetEntry {
+  id: string;
+  type: AssetType;
+  url: string;
+  /** Share of the progress bar relative to other assets (defaults to 1) */
+  weight?: number;
+  /** Whether the game can start without it (defaults to true) */
+  required?: boolean;
+  /** Audio category used when the asset is played (audio only) */
+  category?: 'sfx' | 'music';
+}
+
+/**
+ * List of assets to preload
+ */
+export interface AssetManifest {
+  /** Prefix for relative asset URLs */
+  baseUrl?: string;
+  assets: AssetEntry[];
+}
+
+export interface AssetManagerConfig {
+  /** Maximum number of assets loading at once */
+  concurrency: number;
+  /** Additional attempts after a failed load */
+  retries: number;
+  /** Delay before the first retry (in milliseconds); doubles for each further retry */
+  retryDelay: number;
+}
+
+export type AssetStatus = 'pending' | 'loading' | 'loaded' | 'failed';
+
+/**
+ * Snapshot of the preload progress
+ */
+export interface AssetProgress {
+  /** Weighted fraction of settled (loaded or failed) assets, 0 to 1 */
+  ratio: number;
+  loaded: number;
+  failed: number;
+  total: number;
+  /** Whether every required asset has loaded */
+  requiredReady: boolean;
+  /** IDs of assets that failed after all retries */
+  errors: string[];
+}
+
+export type AssetProgressCallback = (progress: AssetProgress) => void;
+
+/**
+ * Loads one asset and resolves with the value stored for it
+ */
+export type AssetLoader = (entry: AssetEntry) => Promise<unknown>;
+
+interface AssetRecord {
+  entry: AssetEntry;
+  status: AssetStatus;
+  value: unknown;
+  error: Error | null;
+  /** Load in progress, shared by the preload queue and on-demand loads */
+  pending: Promise<void> | null;
+}
+
+// =========================================
+// Constants
+// =========================================
+
+const DEFAULT_CONFIG: AssetManagerConfig = {
+  concurrency: 4,
+  retries: 2,
+  retryDelay: 250
+};
+
+/**
+ * Fetches an asset URL, failing on HTTP errors so the load is retried
+ */
+async function fetchAsset(url: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} loading ${url}`);
+  }
+  return response;
+}
+
+const DEFAULT_LOADERS: Record<AssetType, AssetLoader> = {
+  image: entry => loadImage(entry.url),
+  atlas: entry => TextureAtlas.load(entry.url),
+  audio: async entry => {
+    const response = await fetchAsset(entry.url);
+    await AudioManager.getInstance().decodeAudio(entry.id, await response.arrayBuffer());
+    return entry.id;
+  },
+  json: async entry => {
+    const response = await fetchAsset(entry.url);
+    return response.json();
+  }
+};
+
+// =========================================
+// Asset Manager Implementation
+// =========================================
+
+/**
+ * Preloads and stores game assets
+ */
+export class AssetManager {
+  private static instance: AssetManager;
+  private config: AssetManagerConfig;
+  private loaders: Map<AssetType, AssetLoader>;
+  private records: Map<string, AssetRecord>;
+  private listeners: Set<AssetProgressCallback>;
+  private loading: Promise<AssetProgress> | null;
+
+  private constructor() {
+    this.config = { ...DEFAULT_CONFIG };
+    this.loaders = new Map(Object.entries(DEFAULT_LOADERS) as [AssetType, AssetLoader][]);
+    this.records = new Map();
+    this.listeners = new Set();
+    this.loading = null;
+  }
+
+  /**
+   * Gets the singleton instance of AssetManager
+   */
+  public static getInstance(): AssetManager {
+    if (!AssetManager.instance) {
+      AssetManager.instance = new AssetManager();
+    }
+    return AssetManager.instance;
+  }
+
+  /**
+   * Updates the loading configuration
+   * @param config - Settings to change
+   * @throws Error if concurrency or retries are invalid
+   */
+  public configure(config: Partial<AssetManagerConfig>): void {
+    const next = { ...this.config, ...config };
+    if (!Number.isInteger(next.concurrency) || next.concurrency < 1) {
+      throw new Error('Asset concurrency must be a positive integer');
+    }
+    if (!Number.isInteger(next.retries) || next.retries < 0) {
+      throw new Error('Asset retries must be a non-negative integer');
+    }
+    this.config = next;
+  }
+
+  /**
+   * Replaces the loader for an asset type
+   * @param type - Asset type
+   * @param loader - Function loading one asset of that type
+   */
+  public registerLoader(type: AssetType, loader: AssetLoader): void {
+    this.loaders.set(type, loader);
+  }
+
+  /**
+   * Adds the assets of a manifest; they load on the next loadAll call
+   * @param manifest - Manifest to add
+   * @throws Error if an ID is already used for a different asset
+   */
+  public addManifest(manifest: AssetManifest): void {
+    manifest.assets.forEach(asset => {
+      const entry = { ...asset, url: this.resolveUrl(asset.url, manifest.baseUrl) };
+      const existing = this.records.get(entry.id);
+
+      if (existing) {
+        if (existing.entry.url !== entry.url || existing.entry.type !== entry.type) {
+          throw new Error(`Asset ID ${entry.id} is already used for ${existing.entry.url}`);
+        }
+        return;
+      }
+
+      this.records.set(entry.id, { entry, status: 'pending', value: undefined, error: null, pending: null });
+    });
+  }
+
+  /**
+   * Fetches a JSON manifest and adds its assets
+   * @param url - Manifest URL; relative asset URLs resolve against it unless it sets baseUrl
+   */
+  public async loadManifest(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load asset manifest ${url}: HTTP ${response.status}`);
+    }
+
+    const manifest = await response.json() as AssetManifest;
+    if (!Array.isArray(manifest.assets)) {
+      throw new Error(`Asset manifest ${url} has no assets list`);
+    }
+
+    const baseUrl = manifest.baseUrl ?? url.slice(0, url.lastIndexOf('/') + 1);
+    this.addManifest({ ...manifest, baseUrl });
+  }
+
+  /**
+   * Loads all pending assets. Calling again while loading returns the same promise.
+   * Failed assets do not reject the promise; check requiredReady on the result.
+   * @returns Progress once every asset has settled
+   */
+  public loadAll(): Promise<AssetProgress> {
+    if (!this.loading) {
+      this.loading = this.runQueue().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Loads one asset on demand. Loads already in progress are shared rather than repeated.
+   * @param asset - ID of an asset from a manifest, or an entry to add first
+   * @returns The loaded asset
+   * @throws Error if the ID is unknown or the asset fails after all retries
+   */
+  public async load<T>(asset: string | AssetEntry): Promise<T> {
+    if (typeof asset !== 'string') {
+      this.addManifest({ assets: [asset] });
+    }
+    const id = typeof asset === 'string' ? asset : asset.id;
+    const record = this.records.get(id);
+    if (!record) {
+      throw new Error(`Asset ${id} is not in any manifest`);
+    }
+
+    if (record.status !== 'loaded') {
+      await this.loadShared(record);
+    }
+    return this.require<T>(id);
+  }
+
+  /**
+   * Gets a loaded asset
+   * @param id - Asset ID
+   * @returns The asset, or undefined if it is not loaded
+   */
+  public get<T>(id: string): T | undefined {
+    const record = this.records.get(id);
+    return record?.status === 'loaded' ? record.value as T : undefined;
+  }
+
+  /**
+   * Gets a loaded asset, failing loudly if it is missing
+   * @param id - Asset ID
+   * @throws Error if the asset is not loaded
+   */
+  public require<T>(id: string): T {
+    const record = this.records.get(id);
+    if (!record || record.status !== 'loaded') {
+      throw new Error(`Asset ${id} is not loaded (${record?.status ?? 'unknown'})`);
+    }
+    return record.value as T;
+  }
+
+  /**
+   * Gets the load status of an asset
+   * @param id - Asset ID
+   */
+  public getStatus(id: string): AssetStatus | undefined {
+    return this.records.get(id)?.status;
+  }
+
+  /**
+   * Checks whether every required asset has loaded
+   */
+  public isReady(): boolean {
+    return Array.from(this.records.values())
+      .every(record => record.entry.required === false || record.status === 'loaded');
+  }
+
+  /**
+   * Gets the current progress
+   */
+  public getProgress(): AssetProgress {
+    let totalWeight = 0;
+    let settledWeight = 0;
+    let loaded = 0;
+    const errors: string[] = [];
+
+    this.records.forEach(record => {
+      const weight = Math.max(0, record.entry.weight ?? 1);
+      totalWeight += weight;
+      if (record.status === 'loaded') {
+        loaded++;
+        settledWeight += weight;
+      } else if (record.status === 'failed') {
+        errors.push(record.entry.id);
+        settledWeight += weight;
+      }
+    });
+
+    return {
+      ratio: totalWeight > 0 ? settledWeight / totalWeight : 1,
+      loaded,
+      failed: errors.length,
+      total: this.records.size,
+      requiredReady: this.isReady(),
+      errors
+    };
+  }
+
+  /**
+   * Adds a listener notified whenever an asset settles
+   * @param callback - Progress listener
+   */
+  public addProgressListener(callback: AssetProgressCallback): void {
+    this.listeners.add(callback);
+  }
+
+  /**
+   * Removes a progress listener
+   * @param callback - Listener to remove
+   */
+  public removeProgressListener(callback: AssetProgressCallback): void {
+    this.listeners.delete(callback);
+  }
+
+  /**
+   * Forgets all assets, loaders and listeners
+   */
+  public reset(): void {
+    this.records.clear();
+    this.listeners.clear();
+    this.loaders = new Map(Object.entries(DEFAULT_LOADERS) as [AssetType, AssetLoader][]);
+    this.config = { ...DEFAULT_CONFIG };
+    this.loading = null;
+  }
+
+  /**
+   * Loads pending and previously failed assets with a fixed number of workers,
+   * and waits for on-demand loads already in progress
+   * @private
+   */
+  private async runQueue(): Promise<AssetProgress> {
+    const queue = Array.from(this.records.values())
+      .filter(record => record.status === 'pending' || record.status === 'failed' || record.pending);
+
+    const worker = async (): Promise<void> => {
+      let record = queue.shift();
+      while (record) {
+        await this.loadShared(record);
+        record = queue.shift();
+      }
+    };
+
+    const workers = Math.min(this.config.concurrency, queue.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+    return this.getProgress();
+  }
+
+  /**
+   * Loads one asset unless a load of it is already in progress
+   * @private
+   */
+  private loadShared(record: AssetRecord): Promise<void> {
+    if (!record.pending) {
+      record.pending = this.loadRecord(record).finally(() => {
+        record.pending = null;
+      });
+    }
+    return record.pending;
+  }
+
+  /**
+   * Loads one asset, retrying with exponential backoff
+   * @private
+   */
+  private async loadRecord(record: AssetRecord): Promise<void> {
+    const loader = this.loaders.get(record.entry.type);
+    record.status = 'loading';
+    record.error = null;
+
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      try {
+        if (!loader) {
+          throw new Error(`No loader for asset type ${record.entry.type}`);
+        }
+        record.value = await loader(record.entry);
+        record.status = 'loaded';
+        break;
+      } catch (error) {
+        record.error = error instanceof Error ? error : new Error(String(error));
+        if (attempt < this.config.retries && loader) {
+          await this.delay(this.config.retryDelay * Math.pow(2, attempt));
+        }
+      }
+    }
+
+    if (record.status !== 'loaded') {
+      record.status = 'failed';
+      console.error(`Failed to load asset ${record.entry.id}:`, record.error);
+    }
+
+    this.notifyListeners();
+  }
+
+  /**
+   * Notifies progress listeners
+   * @private
+   */
+  private notifyListeners(): void {
+    const progress = this.getProgress();
+    this.listeners.forEach(listener => {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error('Error in asset progress listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Resolves an asset URL against the manifest base
+   * @private
+   */
+  private resolveUrl(url: string, baseUrl?: string): string {
+    if (!baseUrl || /^([a-z]+:|\/)/i.test(url)) {
+      return url;
+    }
+    return baseUrl.endsWith('/') ? baseUrl + url : `${baseUrl}/${url}`;
+  }
+
+  /**
+   * Waits before a retry
+   * @private
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default AssetManager;
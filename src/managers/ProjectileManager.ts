@@ -8,6 +8,18 @@ import { Vector2 } from '../types/Vector2';
 import { GameObject } from '../types/GameObject';
 import { ObjectPool } from '../utils/ObjectPool';
 import { EventEmitter } from '../utils/EventEmitter';
+import { FrameProfiler } from '../utils/Performance';
+import { Interpolatable, Transform2D, interpolateTransform } from '../engine/Interpolation';
+import { BoundingBox, CollisionSystem, Point } from '../engine/Collision';
+import { CollisionMask } from '../engine/CollisionMask';
+import {
+  CollisionBody,
+  CollisionEvent,
+  CollisionHandlers,
+  CollisionLayer,
+  CollisionWorld,
+  DEFAULT_LAYER_MASKS
+} from '../engine/CollisionWorld';
 
 /**
  * Represents projectile configuration options
@@ -17,23 +29,43 @@ interface ProjectileConfig {
   damage: number;
   lifetime: number;
   size: Vector2;
+  color: string;
   sprite?: string;
 }
 
+/**
+ * Target that can refine hits with a pixel mask aligned with its position
+ */
+export interface MaskedTarget extends GameObject {
+  getCollisionMask?(): CollisionMask | null;
+}
+
+/**
+ * Payload of the projectileHit event
+ */
+export interface ProjectileHitEvent {
+  projectile: Projectile;
+  target: GameObject;
+  /** First overlapping pixel, where the impact effect should spawn */
+  contactPoint: Point;
+}
+
 /**
  * Represents a single projectile instance
  */
-class Projectile implements GameObject {
+class Projectile implements GameObject, Interpolatable {
   public position: Vector2;
+  public previousPosition: Vector2;
   public velocity: Vector2;
   public active: boolean;
   public damage: number;
   private lifetime: number;
   private elapsedTime: number;
-  private size: Vector2;
+  public readonly size: Vector2;
 
   constructor(config: ProjectileConfig) {
     this.position = { x: 0, y: 0 };
+    this.previousPosition = { x: 0, y: 0 };
     this.velocity = { x: 0, y: 0 };
     this.active = false;
     this.damage = config.damage;
@@ -47,6 +79,7 @@ class Projectile implements GameObject {
    */
   public init(position: Vector2, direction: Vector2, speed: number): void {
     this.position = { ...position };
+    this.previousPosition = { ...position };
     this.velocity = {
       x: direction.x * speed,
       y: direction.y * speed
@@ -61,6 +94,7 @@ class Projectile implements GameObject {
   public update(deltaTime: number): void {
     if (!this.active) return;
 
+    this.savePreviousTransform();
     this.position.x += this.velocity.x * deltaTime;
     this.position.y += this.velocity.y * deltaTime;
     
@@ -70,6 +104,24 @@ class Projectile implements GameObject {
     }
   }
 
+  /**
+   * Stores the current position as the previous fixed step's position
+   */
+  public savePreviousTransform(): void {
+    this.previousPosition = { ...this.position };
+  }
+
+  /**
+   * Gets the position blended between the previous and current fixed steps
+   */
+  public getInterpolatedTransform(alpha: number): Transform2D {
+    return interpolateTransform(
+      { ...this.previousPosition, rotation: 0 },
+      { ...this.position, rotation: 0 },
+      alpha
+    );
+  }
+
   /**
    * Deactivates the projectile
    */
@@ -87,12 +139,19 @@ export class ProjectileManager {
     speed: 500,
     damage: 10,
     lifetime: 2000,
-    size: { x: 10, y: 10 }
+    size: { x: 10, y: 10 },
+    color: '#ffffff'
   };
 
   private projectilePool: ObjectPool<Projectile>;
   private config: ProjectileConfig;
   private events: EventEmitter;
+  private world: CollisionWorld | null = null;
+  private layer: CollisionLayer = CollisionLayer.PLAYER_SHOT;
+  private bodies: Map<Projectile, CollisionBody<Projectile>> = new Map();
+  private readonly hitHandlers: CollisionHandlers<Projectile, GameObject> = {
+    enter: event => this.handleWorldHit(event)
+  };
 
   constructor(config?: Partial<ProjectileConfig>) {
     this.config = { ...ProjectileManager.DEFAULT_PROJECTILE_CONFIG, ...config };
@@ -122,6 +181,7 @@ export class ProjectileManager {
       }
 
       projectile.init(position, direction, this.config.speed);
+      this.addBody(projectile);
       this.events.emit('projectileSpawned', projectile);
       return projectile;
     } catch (error) {
@@ -138,6 +198,7 @@ export class ProjectileManager {
       projectile.update(deltaTime);
       
       if (!projectile.active) {
+        this.removeBody(projectile);
         this.projectilePool.release(projectile);
         this.events.emit('projectileDestroyed', projectile);
       }
@@ -145,38 +206,161 @@ export class ProjectileManager {
   }
 
   /**
-   * Checks for collisions between projectiles and targets
+   * Draws every active projectile blended between its previous and current fixed steps
+   * @param context - Context to draw into
+   * @param interpolation - Interpolation factor from the game loop
    */
-  public checkCollisions(targets: GameObject[]): void {
-    const activeProjectiles = this.projectilePool.getActiveObjects();
+  public render(context: CanvasRenderingContext2D, interpolation: number = 1): void {
+    context.fillStyle = this.config.color;
+    this.projectilePool.getActiveObjects().forEach(projectile => {
+      if (!projectile.active) return;
 
-    for (const projectile of activeProjectiles) {
-      for (const target of targets) {
-        if (this.detectCollision(projectile, target)) {
-          this.events.emit('projectileHit', { projectile, target });
-          projectile.deactivate();
-          break;
-        }
+      const { x, y } = projectile.getInterpolatedTransform(interpolation);
+      context.fillRect(x, y, projectile.size.x, projectile.size.y);
+    });
+  }
+
+  /**
+   * Registers projectiles with a collision world on the given layer. Hits on
+   * the layers that layer collides with then emit projectileHit when the world
+   * steps, so callers no longer pass targets to checkCollisions.
+   * @param world - World to register with
+   * @param layer - Layer of this manager's projectiles
+   */
+  public attachToWorld(world: CollisionWorld, layer: CollisionLayer = CollisionLayer.PLAYER_SHOT): void {
+    this.detachFromWorld();
+    this.world = world;
+    this.layer = layer;
+
+    this.projectilePool.getActiveObjects().forEach(projectile => this.addBody(projectile));
+
+    const mask = DEFAULT_LAYER_MASKS[layer];
+    for (let bit = 1; bit <= mask; bit <<= 1) {
+      if (mask & bit) {
+        world.subscribe(layer, bit as CollisionLayer, this.hitHandlers);
       }
     }
   }
 
   /**
-   * Simple AABB collision detection
+   * Removes projectiles and subscriptions from the attached world
    */
-  private detectCollision(projectile: Projectile, target: GameObject): boolean {
-    return (
-      projectile.position.x < target.position.x + target.size.x &&
-      projectile.position.x + projectile.size.x > target.position.x &&
-      projectile.position.y < target.position.y + target.size.y &&
-      projectile.position.y + projectile.size.y > target.position.y
+  public detachFromWorld(): void {
+    if (!this.world) return;
+
+    this.world.unsubscribe(this.hitHandlers);
+    this.bodies.forEach(body => this.world?.remove(body));
+    this.bodies.clear();
+    this.world = null;
+  }
+
+  /**
+   * Checks for collisions between projectiles and targets. Targets with a
+   * collision mask are only hit on their solid pixels.
+   * @deprecated Register targets with a CollisionWorld and use attachToWorld
+   */
+  public checkCollisions(targets: MaskedTarget[]): void {
+    FrameProfiler.getInstance().measure('collisions', () => {
+      const activeProjectiles = this.projectilePool.getActiveObjects();
+
+      for (const projectile of activeProjectiles) {
+        for (const target of targets) {
+          const contactPoint = this.detectCollision(projectile, target);
+          if (contactPoint) {
+            const hit: ProjectileHitEvent = { projectile, target, contactPoint };
+            this.events.emit('projectileHit', hit);
+            projectile.deactivate();
+            break;
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Swept AABB collision detection over the movement since the previous fixed
+   * step, so fast projectiles cannot pass through thin targets between ticks.
+   * Hits are refined by the target's mask when it has one.
+   * @returns Contact point, or null if the projectile misses
+   */
+  private detectCollision(projectile: Projectile, target: MaskedTarget): Point | null {
+    const start: BoundingBox = {
+      x: projectile.previousPosition.x,
+      y: projectile.previousPosition.y,
+      width: projectile.size.x,
+      height: projectile.size.y
+    };
+    const delta = {
+      x: projectile.position.x - projectile.previousPosition.x,
+      y: projectile.position.y - projectile.previousPosition.y
+    };
+    const targetBox: BoundingBox = {
+      x: target.position.x,
+      y: target.position.y,
+      width: target.size.x,
+      height: target.size.y
+    };
+
+    const result = CollisionSystem.checkSweptCollision(
+      start,
+      delta,
+      null,
+      targetBox,
+      target.getCollisionMask?.() ?? null
     );
+    return result.colliding && result.contactPoint ? result.contactPoint : null;
+  }
+
+  /**
+   * Registers a projectile with the attached world
+   * @private
+   */
+  private addBody(projectile: Projectile): void {
+    if (!this.world || this.bodies.has(projectile)) return;
+
+    const body = this.world.add({
+      layer: this.layer,
+      owner: projectile,
+      getBounds: () => ({ ...projectile.position, width: projectile.size.x, height: projectile.size.y }),
+      getPreviousBounds: () => ({ ...projectile.previousPosition, width: projectile.size.x, height: projectile.size.y })
+    });
+    this.bodies.set(projectile, body);
+  }
+
+  /**
+   * Unregisters a projectile from the attached world
+   * @private
+   */
+  private removeBody(projectile: Projectile): void {
+    const body = this.bodies.get(projectile);
+    if (body) {
+      this.world?.remove(body);
+      this.bodies.delete(projectile);
+    }
+  }
+
+  /**
+   * Turns a world contact into a projectileHit event
+   * @private
+   */
+  private handleWorldHit(event: CollisionEvent<Projectile, GameObject>): void {
+    const projectile = event.a.owner;
+    if (!projectile.active) return;
+
+    const hit: ProjectileHitEvent = {
+      projectile,
+      target: event.b.owner,
+      contactPoint: event.contactPoint ?? { ...projectile.position }
+    };
+    this.events.emit('projectileHit', hit);
+    projectile.deactivate();
+    event.a.enabled = false;
   }
 
   /**
    * Subscribes to projectile events
    */
-  public on(event: string, callback: Function): void {
+  public on(event: string, callback: (...args: any[]) => void): void {
     this.events.on(event, callback);
   }
 
@@ -184,6 +368,7 @@ export class ProjectileManager {
    * Cleans up all projectiles
    */
   public cleanup(): void {
+    this.detachFromWorld();
     this.projectilePool.clear();
     this.events.clear();
   }
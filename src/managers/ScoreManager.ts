@@ -24,7 +24,7 @@ interface ScoreConfig {
 /**
  * Score update event data structure
  */
-interface ScoreUpdateEvent {
+export interface ScoreUpdateEvent {
   previousScore: number;
   newScore: number;
   timestamp: Date;
@@ -33,7 +33,7 @@ interface ScoreUpdateEvent {
 /**
  * Observer callback type for score updates
  */
-type ScoreUpdateCallback = (event: ScoreUpdateEvent) => void;
+export type ScoreUpdateCallback = (event: ScoreUpdateEvent) => void;
 
 // =========================================
 // Constants
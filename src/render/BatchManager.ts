@@ -0,0 +1,252 @@
+/**
+ * @file BatchManager.ts
+ * @module BatchManager
+ * @description Builds vertex and index data for batches of textured sprite quads. Each quad
+ * is rotated, flipped and faded on the CPU and carries its tint as a vertex attribute, so
+ * sprites with different transforms still share a batch. It makes no GPU calls:
+ * WebGLBackend uploads and draws the batches it produces.
+ */
+
+import { Sprite, SpriteTransform } from '../engine/Sprite';
+
+/**
+ * Floats per vertex: position (x, y), texture coordinates (u, v), tint colour (r, g, b),
+ * tint strength and alpha
+ */
+export const FLOATS_PER_VERTEX = 9;
+
+/** Vertices per sprite quad */
+export const VERTICES_PER_SPRITE = 4;
+
+const INDICES_PER_SPRITE = 6;
+/** Largest batch whose vertices can still be addressed by 16-bit indices */
+const MAX_SPRITES_PER_BATCH = 65536 / VERTICES_PER_SPRITE;
+
+/** Red, green and blue from 0 to 1 */
+type RGB = [number, number, number];
+
+/** Tint colours already converted, by CSS colour */
+const colorCache = new Map<string, RGB>();
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Sprites ready to draw from a single texture
+ */
+export interface SpriteBatch {
+    textureKey: string;
+    texture: CanvasImageSource;
+    /** Vertex data of the batched quads, FLOATS_PER_VERTEX floats per vertex */
+    vertices: Float32Array;
+    /** Number of indices to draw from the shared index buffer */
+    indexCount: number;
+    spriteCount: number;
+}
+
+/**
+ * Gets the size of an image in pixels
+ */
+function getImageSize(image: CanvasImageSource): { width: number; height: number } {
+    if (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement) {
+        return { width: image.naturalWidth, height: image.naturalHeight };
+    }
+    // Canvases, bitmaps and video frames all report their pixel size as width and height
+    const { width, height } = image as { width: number; height: number };
+    return { width, height };
+}
+
+/**
+ * Converts a CSS colour to red, green and blue. Hex and rgb() colours are parsed directly;
+ * other CSS colours are normalised through a 2D context when a document is available.
+ * @throws Error if the colour cannot be parsed
+ */
+function parseColor(color: string): RGB {
+    const cached = colorCache.get(color);
+    if (cached) {
+        return cached;
+    }
+
+    let css = color.trim().toLowerCase();
+    if (!/^(#|rgba?\()/.test(css) && typeof document !== 'undefined') {
+        if (!colorContext) {
+            colorContext = document.createElement('canvas').getContext('2d');
+        }
+        if (colorContext) {
+            colorContext.fillStyle = '#000000';
+            colorContext.fillStyle = css;
+            css = String(colorContext.fillStyle);
+        }
+    }
+
+    let rgb: RGB | null = null;
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(css);
+    const functional = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/.exec(css);
+    if (hex) {
+        const digits = hex[1].length === 3 ? [...hex[1]].map(digit => digit + digit).join('') : hex[1];
+        rgb = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as RGB;
+    } else if (functional) {
+        rgb = [1, 2, 3].map(i => Math.min(255, Number(functional[i])) / 255) as RGB;
+    }
+    if (!rgb) {
+        throw new Error(`Unsupported tint colour '${color}'`);
+    }
+
+    colorCache.set(color, rgb);
+    return rgb;
+}
+
+/**
+ * Collects sprite quads sharing a texture into one vertex array
+ */
+export class BatchManager {
+    private readonly maxBatchSize: number;
+    private readonly vertices: Float32Array;
+    private readonly indices: Uint16Array;
+    private spriteCount = 0;
+    private textureKey: string | null = null;
+    private texture: CanvasImageSource | null = null;
+
+    /**
+     * Creates a new BatchManager instance
+     * @param maxBatchSize - Maximum sprites per batch
+     * @throws Error if the batch size is not a positive integer within the 16-bit index range
+     */
+    constructor(maxBatchSize: number = 1000) {
+        if (!Number.isInteger(maxBatchSize) || maxBatchSize <= 0 || maxBatchSize > MAX_SPRITES_PER_BATCH) {
+            throw new Error(`Batch size must be an integer from 1 to ${MAX_SPRITES_PER_BATCH}`);
+        }
+
+        this.maxBatchSize = maxBatchSize;
+        this.vertices = new Float32Array(maxBatchSize * VERTICES_PER_SPRITE * FLOATS_PER_VERTEX);
+        this.indices = new Uint16Array(maxBatchSize * INDICES_PER_SPRITE);
+        for (let i = 0; i < maxBatchSize; i++) {
+            const vertex = i * VERTICES_PER_SPRITE;
+            this.indices.set([vertex, vertex + 1, vertex + 2, vertex, vertex + 2, vertex + 3], i * INDICES_PER_SPRITE);
+        }
+    }
+
+    /**
+     * Starts an empty batch
+     */
+    public begin(): void {
+        this.spriteCount = 0;
+        this.textureKey = null;
+        this.texture = null;
+    }
+
+    /**
+     * Adds the sprite's current frame as a quad, placed and transformed the way
+     * Sprite.render draws it. Sprites that are not loaded yet are skipped.
+     * @param sprite - Sprite to draw
+     * @param x - X coordinate of the untransformed top-left corner
+     * @param y - Y coordinate of the untransformed top-left corner
+     * @param transform - Rotation about the pivot, flips, alpha, tint and flash
+     * @throws Error if the batch is full or holds another texture, or the tint cannot be parsed
+     */
+    public addSprite(sprite: Sprite, x: number, y: number, transform: SpriteTransform = {}): void {
+        if (!sprite.isReady()) {
+            return;
+        }
+        if (this.wouldExceedBatchSize()) {
+            throw new Error('Sprite batch is full; flush it before adding more sprites');
+        }
+
+        const textureKey = sprite.getTextureKey();
+        if (this.spriteCount > 0 && textureKey !== this.textureKey) {
+            throw new Error(`Sprite batch holds texture '${this.textureKey}'; flush it before drawing '${textureKey}'`);
+        }
+        this.textureKey = textureKey;
+        this.texture = sprite.getImage();
+
+        // Corners relative to the pivot, as Sprite.render draws them after translating to it
+        const { width, height } = sprite.getDimensions();
+        const pivot = transform.pivot ?? sprite.getPivot();
+        const pivotX = width * pivot.x;
+        const pivotY = height * pivot.y;
+        const scale = sprite.getScale();
+        const frame = sprite.getFrameRect();
+        const atlasFrame = sprite.getCurrentAtlasFrame();
+        const left = (atlasFrame?.offsetX ?? 0) * scale - pivotX;
+        const top = (atlasFrame?.offsetY ?? 0) * scale - pivotY;
+        const right = left + frame.width * scale;
+        const bottom = top + frame.height * scale;
+
+        const rotation = transform.rotation ?? 0;
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        const flipX = transform.flipX ? -1 : 1;
+        const flipY = transform.flipY ? -1 : 1;
+        const originX = x + pivotX;
+        const originY = y + pivotY;
+
+        const tint = sprite.getTint(transform);
+        const [red, green, blue] = tint ? parseColor(tint.color) : [0, 0, 0];
+        const alpha = Math.max(0, Math.min(1, transform.alpha ?? 1));
+
+        const image = getImageSize(this.texture);
+        const u0 = frame.x / image.width;
+        const v0 = frame.y / image.height;
+        const u1 = (frame.x + frame.width) / image.width;
+        const v1 = (frame.y + frame.height) / image.height;
+
+        let offset = this.spriteCount * VERTICES_PER_SPRITE * FLOATS_PER_VERTEX;
+        const corners = [[left, top, u0, v0], [right, top, u1, v0], [right, bottom, u1, v1], [left, bottom, u0, v1]];
+        corners.forEach(([cornerX, cornerY, u, v]) => {
+            const flippedX = cornerX * flipX;
+            const flippedY = cornerY * flipY;
+            this.vertices.set([
+                originX + flippedX * cos - flippedY * sin,
+                originY + flippedX * sin + flippedY * cos,
+                u,
+                v,
+                red,
+                green,
+                blue,
+                tint?.amount ?? 0,
+                alpha
+            ], offset);
+            offset += FLOATS_PER_VERTEX;
+        });
+        this.spriteCount++;
+    }
+
+    /**
+     * Hands the batched sprites to a draw function and starts a new batch
+     * @param draw - Receives the batch; the vertex array is reused once it returns
+     */
+    public flush(draw: (batch: SpriteBatch) => void): void {
+        if (this.spriteCount === 0 || !this.textureKey || !this.texture) {
+            return;
+        }
+
+        const batch: SpriteBatch = {
+            textureKey: this.textureKey,
+            texture: this.texture,
+            vertices: this.vertices.subarray(0, this.spriteCount * VERTICES_PER_SPRITE * FLOATS_PER_VERTEX),
+            indexCount: this.spriteCount * INDICES_PER_SPRITE,
+            spriteCount: this.spriteCount
+        };
+        this.begin();
+        draw(batch);
+    }
+
+    /**
+     * Gets the index data shared by every batch, two triangles per quad
+     * @returns Indices for a full batch
+     */
+    public getIndices(): Uint16Array {
+        return this.indices;
+    }
+
+    public getCurrentBatchSize(): number {
+        return this.spriteCount;
+    }
+
+    public wouldExceedBatchSize(): boolean {
+        return this.spriteCount >= this.maxBatchSize;
+    }
+
+    public dispose(): void {
+        this.begin();
+    }
+}
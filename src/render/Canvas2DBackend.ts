@@ -0,0 +1,113 @@
+/**
+ * @file Canvas2DBackend.ts
+ * @module Canvas2DBackend
+ * @description RenderBackend drawing through a CanvasRenderingContext2D. Works on machines
+ * without WebGL and against headless canvas implementations in tests.
+ */
+
+import { DrawCommand, RenderBackend } from './RenderBackend';
+
+/**
+ * Configuration options for the 2D backend
+ */
+export interface Canvas2DBackendOptions {
+    /** Maximum commands queued before the renderer flushes */
+    maxBatchSize?: number;
+    /** Color filled at the start of each frame; null clears to transparent */
+    clearColor?: string | null;
+}
+
+const DEFAULT_OPTIONS: Required<Canvas2DBackendOptions> = {
+    maxBatchSize: 1000,
+    clearColor: null
+};
+
+/**
+ * Draws queued sprites with the 2D canvas API
+ */
+export class Canvas2DBackend implements RenderBackend {
+    public readonly type = 'canvas2d' as const;
+    private readonly context: CanvasRenderingContext2D;
+    private readonly options: Required<Canvas2DBackendOptions>;
+    private queue: DrawCommand[] = [];
+    private width: number;
+    private height: number;
+
+    /**
+     * Creates a new Canvas2DBackend instance
+     * @param context - Context to draw into
+     * @param options - Optional configuration
+     */
+    constructor(context: CanvasRenderingContext2D, options: Canvas2DBackendOptions = {}) {
+        this.context = context;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.width = context.canvas.width;
+        this.height = context.canvas.height;
+    }
+
+    /**
+     * Clears the frame and starts an empty batch
+     */
+    public beginBatch(): void {
+        this.queue = [];
+        this.context.save();
+        this.context.setTransform(1, 0, 0, 1, 0, 0);
+        if (this.options.clearColor) {
+            this.context.fillStyle = this.options.clearColor;
+            this.context.fillRect(0, 0, this.width, this.height);
+        } else {
+            this.context.clearRect(0, 0, this.width, this.height);
+        }
+        this.context.restore();
+    }
+
+    /**
+     * Queues a sprite
+     * @param command - Sprite and position to draw
+     */
+    public drawSprite(command: DrawCommand): void {
+        this.queue.push(command);
+    }
+
+    /**
+     * Draws and clears the queued sprites
+     */
+    public flush(): void {
+        const ctx = this.context;
+        this.queue.forEach(command => {
+            command.sprite.render(ctx, command.x, command.y, command);
+        });
+        this.queue = [];
+    }
+
+    /**
+     * Draws whatever is still queued; 2D drawing is already visible, so nothing is presented
+     */
+    public endBatch(): void {
+        this.flush();
+    }
+
+    /**
+     * Resizes the target canvas
+     * @param width - New width in pixels
+     * @param height - New height in pixels
+     */
+    public resize(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+        this.context.canvas.width = width;
+        this.context.canvas.height = height;
+    }
+
+    public getPendingCount(): number {
+        return this.queue.length;
+    }
+
+    public isBatchFull(): boolean {
+        return this.queue.length >= this.options.maxBatchSize;
+    }
+
+    public dispose(): void {
+        this.queue = [];
+    }
+}
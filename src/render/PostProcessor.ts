@@ -0,0 +1,462 @@
+/**
+ * @file PostProcessor.ts
+ * @module PostProcessor
+ * @description Post-processing stage for the 2D canvas path. Runs a stack of retro filters
+ * (scanlines, CRT vignette, phosphor bloom, cellophane colour bands) over the composited
+ * frame after Canvas.render. Filters can be toggled and tuned individually or switched
+ * together through presets.
+ */
+
+import { QualityAware, QualitySettings } from '../data/QualityConfig';
+
+/**
+ * Frame passed to each filter
+ */
+export interface PostProcessFrame {
+    /** Context of the rendered frame, transformed to logical units */
+    target: CanvasRenderingContext2D;
+    /** Scratch buffer the size of the frame in device pixels, with an identity transform */
+    scratch: CanvasRenderingContext2D;
+    /** Logical frame width */
+    width: number;
+    /** Logical frame height */
+    height: number;
+}
+
+/**
+ * Base class for post-processing filters
+ */
+export abstract class PostFilter<P extends object> {
+    public readonly name: string;
+    public enabled: boolean;
+    protected params: P;
+
+    /**
+     * Creates a new filter
+     * @param name - Unique filter name within a processor
+     * @param defaults - Default parameters
+     * @param params - Parameters overriding the defaults
+     */
+    constructor(name: string, defaults: P, params: Partial<P> = {}) {
+        this.name = name;
+        this.enabled = true;
+        this.params = { ...defaults, ...params };
+    }
+
+    /**
+     * Updates some of the filter parameters
+     * @param params - Parameters to change
+     */
+    public setParams(params: Partial<P>): void {
+        this.params = { ...this.params, ...params };
+    }
+
+    /**
+     * Gets a copy of the filter parameters
+     */
+    public getParams(): P {
+        return { ...this.params };
+    }
+
+    /**
+     * Draws the filter over the frame
+     * @param frame - Frame to process
+     */
+    public abstract apply(frame: PostProcessFrame): void;
+}
+
+export interface ScanlineParams {
+    /** Distance between lines in logical pixels */
+    spacing: number;
+    /** Line thickness in logical pixels */
+    thickness: number;
+    /** Darkness of each line (0-1) */
+    opacity: number;
+}
+
+/**
+ * Darkens every few rows to mimic the gaps between CRT scanlines
+ */
+export class ScanlineFilter extends PostFilter<ScanlineParams> {
+    constructor(params: Partial<ScanlineParams> = {}) {
+        super('scanlines', { spacing: 3, thickness: 1, opacity: 0.25 }, params);
+    }
+
+    public apply({ target, width, height }: PostProcessFrame): void {
+        const { spacing, thickness, opacity } = this.params;
+        if (spacing <= 0 || opacity <= 0) return;
+
+        target.save();
+        target.fillStyle = `rgba(0, 0, 0, ${opacity})`;
+        for (let y = 0; y < height; y += spacing) {
+            target.fillRect(0, y, width, thickness);
+        }
+        target.restore();
+    }
+}
+
+export interface VignetteParams {
+    /** Darkness at the corners (0-1) */
+    strength: number;
+    /** Fraction of the half-diagonal that stays unshaded (0-1) */
+    radius: number;
+    /** Radius of the rounded screen corners as a fraction of the frame height */
+    cornerRadius: number;
+}
+
+/**
+ * Shades the edges and rounds the corners like a curved CRT tube
+ */
+export class VignetteFilter extends PostFilter<VignetteParams> {
+    constructor(params: Partial<VignetteParams> = {}) {
+        super('vignette', { strength: 0.6, radius: 0.65, cornerRadius: 0.06 }, params);
+    }
+
+    public apply({ target, width, height }: PostProcessFrame): void {
+        const { strength, radius, cornerRadius } = this.params;
+        const centerX = width / 2;
+        const centerY = height / 2;
+        const outer = Math.hypot(centerX, centerY);
+
+        target.save();
+
+        const gradient = target.createRadialGradient(centerX, centerY, outer * radius, centerX, centerY, outer);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, `rgba(0, 0, 0, ${strength})`);
+        target.fillStyle = gradient;
+        target.fillRect(0, 0, width, height);
+
+        // Black out everything outside a rounded rectangle to suggest tube curvature
+        const corner = cornerRadius * height;
+        if (corner > 0) {
+            target.fillStyle = '#000000';
+            target.beginPath();
+            target.rect(0, 0, width, height);
+            target.moveTo(corner, 0);
+            target.arcTo(0, 0, 0, corner, corner);
+            target.lineTo(0, height - corner);
+            target.arcTo(0, height, corner, height, corner);
+            target.lineTo(width - corner, height);
+            target.arcTo(width, height, width, height - corner, corner);
+            target.lineTo(width, corner);
+            target.arcTo(width, 0, width - corner, 0, corner);
+            target.closePath();
+            target.fill('evenodd');
+        }
+
+        target.restore();
+    }
+}
+
+export interface BloomParams {
+    /** Brightness (0-1) above which pixels start to glow */
+    threshold: number;
+    /** Strength of the added glow (0-1) */
+    intensity: number;
+    /** Glow blur radius in device pixels */
+    blur: number;
+}
+
+/**
+ * Adds a soft glow around bright pixels like phosphor bleed
+ */
+export class BloomFilter extends PostFilter<BloomParams> {
+    constructor(params: Partial<BloomParams> = {}) {
+        super('bloom', { threshold: 0.6, intensity: 0.6, blur: 6 }, params);
+    }
+
+    public apply({ target, scratch, width, height }: PostProcessFrame): void {
+        const { threshold, intensity, blur } = this.params;
+        if (intensity <= 0) return;
+
+        // Halving brightness then stretching contrast maps the threshold to black,
+        // so only brighter pixels survive into the blurred glow
+        const contrast = 1 / Math.max(0.01, 1 - threshold);
+        const buffer = scratch.canvas;
+        scratch.clearRect(0, 0, buffer.width, buffer.height);
+        scratch.filter = `brightness(0.5) contrast(${contrast}) blur(${blur}px)`;
+        scratch.drawImage(target.canvas, 0, 0);
+        scratch.filter = 'none';
+
+        target.save();
+        target.globalCompositeOperation = 'lighter';
+        target.globalAlpha = intensity;
+        target.drawImage(buffer, 0, 0, width, height);
+        target.restore();
+    }
+}
+
+export interface CellophaneBand {
+    /** Top of the band as a fraction of the frame height */
+    top: number;
+    /** Bottom of the band as a fraction of the frame height */
+    bottom: number;
+    color: string;
+}
+
+export interface CellophaneParams {
+    bands: CellophaneBand[];
+}
+
+/**
+ * Tints horizontal bands of the screen like the coloured film on early arcade monitors
+ */
+export class CellophaneFilter extends PostFilter<CellophaneParams> {
+    constructor(params: Partial<CellophaneParams> = {}) {
+        super('cellophane', {
+            bands: [
+                { top: 0.08, bottom: 0.18, color: '#ff3030' },
+                { top: 0.72, bottom: 1.0, color: '#30ff50' }
+            ]
+        }, params);
+    }
+
+    public apply({ target, width, height }: PostProcessFrame): void {
+        target.save();
+        // Multiplying keeps black black and tints only what is lit
+        target.globalCompositeOperation = 'multiply';
+        this.params.bands.forEach(band => {
+            target.fillStyle = band.color;
+            target.fillRect(0, band.top * height, width, (band.bottom - band.top) * height);
+        });
+        target.restore();
+    }
+}
+
+/**
+ * Named filter stacks selectable from settings
+ */
+export type PostProcessPreset = 'clean' | 'arcade' | 'crt';
+
+/**
+ * Parameters per filter for a preset; null disables the filter
+ */
+export interface PostProcessPresetConfig {
+    scanlines: Partial<ScanlineParams> | null;
+    vignette: Partial<VignetteParams> | null;
+    bloom: Partial<BloomParams> | null;
+    cellophane: Partial<CellophaneParams> | null;
+}
+
+export const POST_PROCESS_PRESETS: Record<PostProcessPreset, PostProcessPresetConfig> = {
+    clean: {
+        scanlines: null,
+        vignette: null,
+        bloom: null,
+        cellophane: null
+    },
+    arcade: {
+        scanlines: null,
+        vignette: null,
+        bloom: { threshold: 0.7, intensity: 0.4, blur: 4 },
+        cellophane: {}
+    },
+    crt: {
+        scanlines: { spacing: 3, thickness: 1, opacity: 0.3 },
+        vignette: { strength: 0.6, radius: 0.65, cornerRadius: 0.06 },
+        bloom: { threshold: 0.6, intensity: 0.6, blur: 6 },
+        cellophane: null
+    }
+};
+
+/**
+ * Checks that a name is one of the presets, ignoring inherited keys such as 'constructor'
+ */
+function isPostProcessPreset(name: string): name is PostProcessPreset {
+    return Object.prototype.hasOwnProperty.call(POST_PROCESS_PRESETS, name);
+}
+
+const PRESET_STORAGE_KEY = 'postProcessPreset';
+
+/**
+ * Runs an ordered stack of filters over the rendered frame
+ */
+export class PostProcessor implements QualityAware {
+    private filters: PostFilter<object>[];
+    private preset: PostProcessPreset;
+    private screenEffects: boolean;
+    private scratch: CanvasRenderingContext2D | null;
+
+    /**
+     * Creates a new PostProcessor with the standard filters, configured from the saved preset
+     * @param preset - Preset to use when none was saved (defaults to 'clean')
+     */
+    constructor(preset: PostProcessPreset = 'clean') {
+        this.filters = [
+            new BloomFilter(),
+            new CellophaneFilter(),
+            new ScanlineFilter(),
+            new VignetteFilter()
+        ];
+        this.screenEffects = true;
+        this.scratch = null;
+        this.preset = this.loadPreset() ?? preset;
+        this.applyPreset(this.preset);
+    }
+
+    /**
+     * Switches every standard filter to a preset's configuration and remembers the choice
+     * @param preset - Preset name
+     * @throws Error if the preset is unknown
+     */
+    public usePreset(preset: PostProcessPreset): void {
+        if (!isPostProcessPreset(preset)) {
+            throw new Error(`Unknown post-process preset '${preset}'`);
+        }
+
+        this.preset = preset;
+        this.applyPreset(preset);
+        this.savePreset();
+    }
+
+    /**
+     * Gets the active preset
+     */
+    public getPreset(): PostProcessPreset {
+        return this.preset;
+    }
+
+    /**
+     * Appends a filter to the end of the stack
+     * @param filter - Filter to add
+     * @throws Error if a filter with the same name exists
+     */
+    public addFilter(filter: PostFilter<object>): void {
+        if (this.getFilter(filter.name)) {
+            throw new Error(`Filter '${filter.name}' already exists`);
+        }
+        this.filters.push(filter);
+    }
+
+    /**
+     * Removes a filter from the stack
+     * @param name - Filter name
+     */
+    public removeFilter(name: string): void {
+        this.filters = this.filters.filter(filter => filter.name !== name);
+    }
+
+    /**
+     * Gets a filter by name
+     * @param name - Filter name
+     */
+    public getFilter<F extends PostFilter<object>>(name: string): F | undefined {
+        return this.filters.find(filter => filter.name === name) as F | undefined;
+    }
+
+    /**
+     * Switches a filter on or off
+     * @param name - Filter name
+     * @param enabled - Whether the filter runs
+     * @throws Error if the filter does not exist
+     */
+    public setFilterEnabled(name: string, enabled: boolean): void {
+        const filter = this.getFilter(name);
+        if (!filter) {
+            throw new Error(`Filter '${name}' not found`);
+        }
+        filter.enabled = enabled;
+    }
+
+    /**
+     * Bypasses every filter on tiers without screen effects
+     * @param settings - Quality tier settings
+     */
+    public applyQuality(settings: QualitySettings): void {
+        this.screenEffects = settings.screenEffects;
+    }
+
+    /**
+     * Checks whether any filter will run
+     */
+    public isActive(): boolean {
+        return this.screenEffects && this.filters.some(filter => filter.enabled);
+    }
+
+    /**
+     * Runs the enabled filters over a rendered frame
+     * @param target - Context of the rendered frame, transformed to logical units
+     * @param width - Logical frame width
+     * @param height - Logical frame height
+     */
+    public apply(target: CanvasRenderingContext2D, width: number, height: number): void {
+        if (!this.isActive()) {
+            return;
+        }
+
+        const frame: PostProcessFrame = {
+            target,
+            scratch: this.getScratch(target.canvas.width, target.canvas.height),
+            width,
+            height
+        };
+
+        this.filters.forEach(filter => {
+            if (!filter.enabled) return;
+            try {
+                filter.apply(frame);
+            } catch (error) {
+                console.error(`Error in post-process filter '${filter.name}':`, error);
+            }
+        });
+    }
+
+    /**
+     * Gets the scratch buffer, resized to the frame
+     * @private
+     */
+    private getScratch(width: number, height: number): CanvasRenderingContext2D {
+        if (!this.scratch) {
+            const context = document.createElement('canvas').getContext('2d');
+            if (!context) {
+                throw new Error('Failed to create post-process buffer');
+            }
+            this.scratch = context;
+        }
+
+        const buffer = this.scratch.canvas;
+        if (buffer.width !== width || buffer.height !== height) {
+            buffer.width = width;
+            buffer.height = height;
+        }
+        return this.scratch;
+    }
+
+    /**
+     * Configures the standard filters from a preset
+     * @private
+     */
+    private applyPreset(preset: PostProcessPreset): void {
+        const config = POST_PROCESS_PRESETS[preset];
+        (Object.keys(config) as (keyof PostProcessPresetConfig)[]).forEach(name => {
+            const filter = this.getFilter(name);
+            if (!filter) return;
+
+            const params = config[name];
+            filter.enabled = params !== null;
+            if (params) {
+                filter.setParams(params);
+            }
+        });
+    }
+
+    private savePreset(): void {
+        try {
+            localStorage.setItem(PRESET_STORAGE_KEY, this.preset);
+        } catch (error) {
+            console.warn('Failed to save post-process preset:', error);
+        }
+    }
+
+    private loadPreset(): PostProcessPreset | null {
+        try {
+            const saved = localStorage.getItem(PRESET_STORAGE_KEY);
+            if (saved && isPostProcessPreset(saved)) {
+                return saved;
+            }
+        } catch (error) {
+            console.warn('Failed to load post-process preset:', error);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * @file RenderBackend.ts
+ * @module RenderBackend
+ * @description Contract shared by the Renderer's drawing backends, plus capability detection
+ * used to pick one at startup.
+ */
+
+import { Sprite, SpriteTransform } from '../engine/Sprite';
+import { DrawOrder } from './RenderLayer';
+
+/**
+ * Available backend implementations
+ */
+export type RenderBackendType = 'webgl' | 'canvas2d';
+
+/**
+ * A sprite queued for drawing at a position, with its per-draw transform
+ */
+export interface DrawCommand extends DrawOrder, SpriteTransform {
+    sprite: Sprite;
+    x: number;
+    y: number;
+}
+
+/**
+ * Batched drawing backend used by Renderer
+ */
+export interface RenderBackend {
+    readonly type: RenderBackendType;
+    /** Starts a frame */
+    beginBatch(): void;
+    /** Queues a sprite in the current batch */
+    drawSprite(command: DrawCommand): void;
+    /** Draws everything queued so far */
+    flush(): void;
+    /** Flushes and presents the frame */
+    endBatch(): void;
+    resize(width: number, height: number): void;
+    /** Number of commands waiting for the next flush */
+    getPendingCount(): number;
+    /** Whether another command would exceed the backend's batch size */
+    isBatchFull(): boolean;
+    dispose(): void;
+}
+
+/**
+ * Checks whether WebGL is available, using a throwaway canvas so the
+ * target canvas can still get a 2D context if it is not
+ * @returns boolean indicating WebGL support
+ */
+export function isWebGLAvailable(): boolean {
+    try {
+        if (typeof document === 'undefined' || typeof WebGLRenderingContext === 'undefined') {
+            return false;
+        }
+        const probe = document.createElement('canvas');
+        return !!(probe.getContext('webgl2') || probe.getContext('webgl'));
+    } catch (error) {
+        console.warn('WebGL detection failed:', error);
+        return false;
+    }
+}
+
+/**
+ * Picks the best available backend
+ * @returns 'webgl' when supported, otherwise 'canvas2d'
+ */
+export function detectRenderBackend(): RenderBackendType {
+    return isWebGLAvailable() ? 'webgl' : 'canvas2d';
+}
@@ -0,0 +1,26 @@
+/**
+ * @file RenderLayer.ts
+ * @module RenderLayer
+ * @description Draw ordering for the Renderer. Drawables carry a layer and a z value so
+ * sprites overlap correctly regardless of the order systems submit them in.
+ */
+
+/**
+ * Coarse draw order; lower layers are drawn first
+ */
+export enum RenderLayer {
+    BACKGROUND = 0,
+    SHIPS = 10,
+    PROJECTILES = 20,
+    EFFECTS = 30,
+    OVERLAY = 40
+}
+
+/**
+ * Ordering of a drawable: layer first, then z within the layer
+ */
+export interface DrawOrder {
+    layer?: RenderLayer;
+    /** Higher values draw on top within a layer */
+    z?: number;
+}
@@ -0,0 +1,330 @@
+/**
+ * @file RenderStats.ts
+ * @module RenderStats
+ * @description Per-frame rendering counters reported by the Renderer: sprites, batches,
+ * texture switches, an overdraw estimate and frame CPU time. Keeps a rolling history and
+ * can draw it as sparklines on the canvas to show the cost of new effects.
+ */
+
+/**
+ * Counters for one rendered frame
+ */
+export interface RenderFrameStats {
+    sprites: number;
+    batches: number;
+    textureSwitches: number;
+    /** Total sprite area divided by screen area; 1 means every pixel was drawn once on average */
+    overdraw: number;
+    /** CPU time between beginFrame and endFrame (in milliseconds) */
+    cpuTime: number;
+}
+
+/**
+ * Configuration constants for render statistics
+ */
+const RENDER_STATS_CONFIG = {
+    /** Number of frames kept in the history */
+    DEFAULT_HISTORY_SIZE: 120,
+    OVERLAY_WIDTH: 160,
+    OVERLAY_ROW_HEIGHT: 28,
+    OVERLAY_PADDING: 6,
+} as const;
+
+/**
+ * Series drawn by the overlay
+ */
+const OVERLAY_SERIES: { key: keyof RenderFrameStats; label: string; color: string; unit: string }[] = [
+    { key: 'cpuTime', label: 'CPU', color: '#00ff00', unit: 'ms' },
+    { key: 'sprites', label: 'Sprites', color: '#00ccff', unit: '' },
+    { key: 'batches', label: 'Batches', color: '#ffcc00', unit: '' },
+    { key: 'textureSwitches', label: 'Tex switches', color: '#ff66cc', unit: '' },
+    { key: 'overdraw', label: 'Overdraw', color: '#ff6600', unit: 'x' },
+];
+
+const EMPTY_FRAME: RenderFrameStats = { sprites: 0, batches: 0, textureSwitches: 0, overdraw: 0, cpuTime: 0 };
+
+/**
+ * Collects rendering counters per frame with a rolling history
+ */
+export class RenderStats {
+    private readonly historySize: number;
+    private readonly now: () => number;
+    private history: RenderFrameStats[];
+    private current: RenderFrameStats;
+    private coveredArea: number;
+    private screenArea: number;
+    private frameStart: number;
+    private frameCount: number;
+    private frameOpen: boolean;
+    private overlayVisible: boolean;
+
+    /**
+     * Creates a new RenderStats instance
+     * @param historySize Number of frames to keep
+     * @param now Time source (in milliseconds)
+     */
+    constructor(historySize: number = RENDER_STATS_CONFIG.DEFAULT_HISTORY_SIZE, now: () => number = () => performance.now()) {
+        if (!Number.isInteger(historySize) || historySize <= 0) {
+            throw new Error('History size must be a positive integer');
+        }
+
+        this.historySize = historySize;
+        this.now = now;
+        this.history = [];
+        this.current = { ...EMPTY_FRAME };
+        this.coveredArea = 0;
+        this.screenArea = 0;
+        this.frameStart = 0;
+        this.frameCount = 0;
+        this.frameOpen = false;
+        this.overlayVisible = false;
+    }
+
+    /**
+     * Sets the screen area used for the overdraw estimate
+     * @param width Screen width
+     * @param height Screen height
+     */
+    public setScreenSize(width: number, height: number): void {
+        this.screenArea = Math.max(0, width * height);
+    }
+
+    /**
+     * Resets the per-frame counters
+     */
+    public beginFrame(): void {
+        this.current = { ...EMPTY_FRAME };
+        this.coveredArea = 0;
+        this.frameStart = this.now();
+        this.frameOpen = true;
+    }
+
+    /**
+     * Records one submitted sprite
+     * @param area Area the sprite covers, for the overdraw estimate
+     */
+    public incrementSpriteCount(area: number = 0): void {
+        this.current.sprites++;
+        this.coveredArea += area;
+    }
+
+    /**
+     * Records one flushed batch
+     */
+    public incrementBatchCount(): void {
+        this.current.batches++;
+    }
+
+    /**
+     * Records a change of bound texture between consecutive draws
+     */
+    public incrementTextureSwitchCount(): void {
+        this.current.textureSwitches++;
+    }
+
+    /**
+     * Closes the current frame and adds it to the history
+     */
+    public endFrame(): void {
+        if (!this.frameOpen) return;
+
+        this.current.cpuTime = this.now() - this.frameStart;
+        this.current.overdraw = this.screenArea > 0 ? this.coveredArea / this.screenArea : 0;
+
+        this.history.push({ ...this.current });
+        if (this.history.length > this.historySize) {
+            this.history.shift();
+        }
+
+        this.frameCount++;
+        this.frameOpen = false;
+    }
+
+    /**
+     * Gets the number of sprites submitted in the current or last frame
+     */
+    public getSpriteCount(): number {
+        return this.current.sprites;
+    }
+
+    /**
+     * Gets the number of batches flushed in the current or last frame
+     */
+    public getBatchCount(): number {
+        return this.current.batches;
+    }
+
+    /**
+     * Gets the number of texture switches in the current or last frame
+     */
+    public getTextureSwitchCount(): number {
+        return this.current.textureSwitches;
+    }
+
+    /**
+     * Gets the overdraw estimate of the last completed frame
+     */
+    public getOverdraw(): number {
+        return this.getLastFrame().overdraw;
+    }
+
+    /**
+     * Gets the CPU time of the last completed frame (in milliseconds)
+     */
+    public getCpuTime(): number {
+        return this.getLastFrame().cpuTime;
+    }
+
+    /**
+     * Gets the number of completed frames
+     */
+    public getFrameCount(): number {
+        return this.frameCount;
+    }
+
+    /**
+     * Gets the counters of the last completed frame
+     */
+    public getLastFrame(): RenderFrameStats {
+        const last = this.history[this.history.length - 1];
+        return last ? { ...last } : { ...EMPTY_FRAME };
+    }
+
+    /**
+     * Gets the recorded frames from oldest to newest
+     */
+    public getHistory(): RenderFrameStats[] {
+        return this.history.map(frame => ({ ...frame }));
+    }
+
+    /**
+     * Gets the mean of each counter over the history
+     */
+    public getAverage(): RenderFrameStats {
+        if (this.history.length === 0) {
+            return { ...EMPTY_FRAME };
+        }
+
+        const totals = this.history.reduce((sum, frame) => ({
+            sprites: sum.sprites + frame.sprites,
+            batches: sum.batches + frame.batches,
+            textureSwitches: sum.textureSwitches + frame.textureSwitches,
+            overdraw: sum.overdraw + frame.overdraw,
+            cpuTime: sum.cpuTime + frame.cpuTime,
+        }), { ...EMPTY_FRAME });
+
+        const count = this.history.length;
+        return {
+            sprites: totals.sprites / count,
+            batches: totals.batches / count,
+            textureSwitches: totals.textureSwitches / count,
+            overdraw: totals.overdraw / count,
+            cpuTime: totals.cpuTime / count,
+        };
+    }
+
+    /**
+     * Clears the history
+     */
+    public reset(): void {
+        this.history = [];
+        this.current = { ...EMPTY_FRAME };
+        this.frameCount = 0;
+        this.frameOpen = false;
+    }
+
+    /**
+     * Shows or hides the sparkline overlay
+     * @param visible Whether the overlay is drawn
+     */
+    public setOverlayVisible(visible: boolean): void {
+        this.overlayVisible = visible;
+    }
+
+    /**
+     * Toggles the sparkline overlay
+     */
+    public toggleOverlay(): void {
+        this.overlayVisible = !this.overlayVisible;
+    }
+
+    /**
+     * Checks whether the sparkline overlay is drawn
+     */
+    public isOverlayVisible(): boolean {
+        return this.overlayVisible;
+    }
+
+    /**
+     * Draws the history as sparklines, one row per counter
+     * @param ctx Context to draw into
+     * @param x Left edge of the overlay
+     * @param y Top edge of the overlay
+     */
+    public renderOverlay(ctx: CanvasRenderingContext2D, x: number = 8, y: number = 8): void {
+        if (!this.overlayVisible) return;
+
+        const { OVERLAY_WIDTH, OVERLAY_ROW_HEIGHT, OVERLAY_PADDING } = RENDER_STATS_CONFIG;
+        const last = this.getLastFrame();
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(x, y, OVERLAY_WIDTH, OVERLAY_SERIES.length * OVERLAY_ROW_HEIGHT + OVERLAY_PADDING);
+        ctx.font = '10px monospace';
+        ctx.textBaseline = 'top';
+
+        OVERLAY_SERIES.forEach((series, index) => {
+            const rowY = y + OVERLAY_PADDING + index * OVERLAY_ROW_HEIGHT;
+            const value = last[series.key];
+            const text = Number.isInteger(value) ? `${value}` : value.toFixed(2);
+
+            ctx.fillStyle = series.color;
+            ctx.fillText(`${series.label}: ${text}${series.unit}`, x + OVERLAY_PADDING, rowY);
+            this.drawSparkline(
+                ctx,
+                this.history.map(frame => frame[series.key]),
+                x + OVERLAY_PADDING,
+                rowY + 11,
+                OVERLAY_WIDTH - OVERLAY_PADDING * 2,
+                OVERLAY_ROW_HEIGHT - 14,
+                series.color
+            );
+        });
+
+        ctx.restore();
+    }
+
+    /**
+     * Draws one series scaled to its own maximum
+     * @private
+     */
+    private drawSparkline(
+        ctx: CanvasRenderingContext2D,
+        values: number[],
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        color: string
+    ): void {
+        if (values.length < 2) return;
+
+        const max = Math.max(...values) || 1;
+        const step = width / (this.historySize - 1);
+        const startX = x + width - step * (values.length - 1);
+
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        values.forEach((value, index) => {
+            const pointX = startX + index * step;
+            const pointY = y + height - (value / max) * height;
+            if (index === 0) {
+                ctx.moveTo(pointX, pointY);
+            } else {
+                ctx.lineTo(pointX, pointY);
+            }
+        });
+        ctx.stroke();
+    }
+}
@@ -1,46 +1,120 @@
-import { WebGLRenderer } from 'three';
-import { Sprite } from '../entities/Sprite';
-import { BatchManager } from './BatchManager';
+import { Sprite, SpriteTransform } from '../engine/Sprite';
 import { RenderStats } from './RenderStats';
+import { Interpolatable } from '../engine/Interpolation';
+import { DrawCommand, RenderBackend, RenderBackendType, detectRenderBackend } from './RenderBackend';
+import { DrawOrder } from './RenderLayer';
+import { Canvas2DBackend } from './Canvas2DBackend';
+
+/**
+ * Options for creating a Renderer
+ */
+export interface RendererOptions {
+    /**
+     * Backend to use instead of capability detection: a backend type, or a ready-made
+     * backend instance (e.g. a Canvas2DBackend over a headless context in tests).
+     * The constructor only builds the Canvas 2D backend itself; use Renderer.create
+     * for 'webgl' or detection.
+     */
+    backend?: RenderBackendType | RenderBackend;
+}
+
+/**
+ * Per-draw options: layer and z overriding the sprite's defaults, plus transform and tint
+ */
+export interface DrawOptions extends DrawOrder, SpriteTransform {}
+
+/**
+ * Draw command with its ordering resolved, waiting to be sorted
+ */
+interface QueuedCommand extends DrawCommand {
+    layer: number;
+    z: number;
+    textureKey: string;
+    order: number;
+}
+
+/**
+ * Sorts by layer, then z, then texture so equal-z sprites sharing a texture end up
+ * adjacent, and finally by submission order to keep the sort stable
+ */
+function compareQueued(a: QueuedCommand, b: QueuedCommand): number {
+    return a.layer - b.layer
+        || a.z - b.z
+        || (a.textureKey < b.textureKey ? -1 : a.textureKey > b.textureKey ? 1 : 0)
+        || a.order - b.order;
+}
 
 /**
  * Renderer class responsible for efficient rendering of game objects
  * using batch rendering techniques for improved performance.
+ * Drawing goes through a WebGL or Canvas 2D backend chosen at startup; the
+ * WebGL backend is only loaded when Renderer.create picks it.
+ * Sprites are queued for the frame, sorted by layer and z, and submitted
+ * in batches of consecutive sprites sharing a texture.
  */
 export class Renderer {
-    private readonly gl: WebGLRenderer;
-    private readonly batchManager: BatchManager;
+    private readonly backend: RenderBackend;
     private readonly stats: RenderStats;
-    private readonly MAX_BATCH_SIZE = 1000; // Maximum sprites per batch
-    
+    private static readonly MAX_BATCH_SIZE = 1000; // Maximum sprites per batch
+    private interpolation = 1;
+    private queue: QueuedCommand[] = [];
+    private submissionOrder = 0;
+    private lastTexture: string | null = null;
+
     /**
      * Creates a new Renderer instance
      * @param canvas - The canvas element to render to
      * @param width - Canvas width
      * @param height - Canvas height
+     * @param options - Backend instance or type; defaults to Canvas 2D
      */
-    constructor(canvas: HTMLCanvasElement, width: number, height: number) {
+    constructor(canvas: HTMLCanvasElement, width: number, height: number, options: RendererOptions = {}) {
         try {
-            this.gl = new WebGLRenderer({
-                canvas,
-                antialias: true,
-                alpha: true
-            });
-            this.gl.setSize(width, height);
-            this.batchManager = new BatchManager(this.MAX_BATCH_SIZE);
+            this.backend = this.createBackend(canvas, width, height, options.backend);
             this.stats = new RenderStats();
+            this.stats.setScreenSize(width, height);
         } catch (error) {
             console.error('Failed to initialize renderer:', error);
             throw new Error('Renderer initialization failed');
         }
     }
 
+    /**
+     * Creates a Renderer on the requested backend, or the best available one,
+     * loading the WebGL backend only when it is used
+     * @param canvas - The canvas element to render to
+     * @param width - Canvas width
+     * @param height - Canvas height
+     * @param options - Optional backend override
+     * @returns The renderer
+     */
+    public static async create(
+        canvas: HTMLCanvasElement,
+        width: number,
+        height: number,
+        options: RendererOptions = {}
+    ): Promise<Renderer> {
+        const type = options.backend ?? detectRenderBackend();
+        if (type !== 'webgl') {
+            return new Renderer(canvas, width, height, { ...options, backend: type });
+        }
+
+        const { WebGLBackend } = await import('./WebGLBackend');
+        const backend = new WebGLBackend(canvas, width, height, Renderer.MAX_BATCH_SIZE);
+        return new Renderer(canvas, width, height, { ...options, backend });
+    }
+
     /**
      * Begins a new render batch
+     * @param interpolation - Game loop interpolation factor used by drawInterpolated
      */
-    public beginBatch(): void {
+    public beginBatch(interpolation: number = 1): void {
+        this.interpolation = Math.max(0, Math.min(1, interpolation));
         try {
-            this.batchManager.begin();
+            this.queue = [];
+            this.submissionOrder = 0;
+            this.lastTexture = null;
+            this.backend.beginBatch();
             this.stats.beginFrame();
         } catch (error) {
             console.error('Error beginning batch:', error);
@@ -50,29 +124,57 @@ export class Renderer {
     /**
      * Adds a sprite to the current batch
      * @param sprite - The sprite to render
+     * @param x - X coordinate for rendering
+     * @param y - Y coordinate for rendering
+     * @param options - Draw order, rotation, flips, alpha and tint
      */
-    public drawSprite(sprite: Sprite): void {
+    public drawSprite(sprite: Sprite, x: number, y: number, options: DrawOptions = {}): void {
         try {
-            if (this.batchManager.wouldExceedBatchSize()) {
-                this.flush();
-            }
-            
-            this.batchManager.addSprite(sprite);
-            this.stats.incrementSpriteCount();
+            this.submit({ sprite, x, y, ...options });
         } catch (error) {
             console.error('Error drawing sprite:', error);
         }
     }
 
     /**
-     * Flushes the current batch to the GPU
+     * Adds a sprite to the current batch at an entity's position blended
+     * between its previous and current fixed updates
+     * @param sprite - The sprite to render
+     * @param entity - Entity providing the transforms
+     * @param options - Draw order, flips, alpha and tint; rotation overrides the entity's
+     */
+    public drawInterpolated(sprite: Sprite, entity: Interpolatable, options: DrawOptions = {}): void {
+        try {
+            const transform = entity.getInterpolatedTransform(this.interpolation);
+            this.submit({ sprite, x: transform.x, y: transform.y, rotation: transform.rotation, ...options });
+        } catch (error) {
+            console.error('Error drawing interpolated sprite:', error);
+        }
+    }
+
+    /**
+     * Sorts everything queued since the last flush and submits it to the backend,
+     * starting a new batch whenever the texture changes. Sprites queued after a
+     * flush always draw on top of those before it.
      */
     public flush(): void {
         try {
-            if (this.batchManager.getCurrentBatchSize() > 0) {
-                this.batchManager.flush(this.gl);
-                this.stats.incrementBatchCount();
-            }
+            const commands = this.queue.sort(compareQueued);
+            this.queue = [];
+
+            let currentTexture: string | null = null;
+            commands.forEach(command => {
+                if (currentTexture !== command.textureKey || this.backend.isBatchFull()) {
+                    this.flushBackend();
+                    currentTexture = command.textureKey;
+                }
+                if (this.lastTexture !== null && this.lastTexture !== command.textureKey) {
+                    this.stats.incrementTextureSwitchCount();
+                }
+                this.lastTexture = command.textureKey;
+                this.backend.drawSprite(command);
+            });
+            this.flushBackend();
         } catch (error) {
             console.error('Error flushing batch:', error);
         }
@@ -84,7 +186,7 @@ export class Renderer {
     public endBatch(): void {
         try {
             this.flush();
-            this.gl.render();
+            this.backend.endBatch();
             this.stats.endFrame();
         } catch (error) {
             console.error('Error ending batch:', error);
@@ -98,7 +200,8 @@ export class Renderer {
      */
     public resize(width: number, height: number): void {
         try {
-            this.gl.setSize(width, height);
+            this.backend.resize(width, height);
+            this.stats.setScreenSize(width, height);
         } catch (error) {
             console.error('Error resizing renderer:', error);
         }
@@ -112,15 +215,78 @@ export class Renderer {
         return this.stats;
     }
 
+    /**
+     * Gets the type of the active backend
+     * @returns Backend type
+     */
+    public getBackendType(): RenderBackendType {
+        return this.backend.type;
+    }
+
     /**
      * Cleans up renderer resources
      */
     public dispose(): void {
         try {
-            this.batchManager.dispose();
-            this.gl.dispose();
+            this.backend.dispose();
         } catch (error) {
             console.error('Error disposing renderer:', error);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Queues a draw command for sorting
+     * @private
+     */
+    private submit(command: DrawCommand): void {
+        this.queue.push({
+            ...command,
+            layer: command.layer ?? command.sprite.getLayer(),
+            z: command.z ?? command.sprite.getZ(),
+            textureKey: command.sprite.getTextureKey(),
+            order: this.submissionOrder++
+        });
+
+        const { width, height } = command.sprite.getDimensions();
+        this.stats.incrementSpriteCount(width * height);
+    }
+
+    /**
+     * Draws what the backend has batched so far
+     * @private
+     */
+    private flushBackend(): void {
+        if (this.backend.getPendingCount() > 0) {
+            this.backend.flush();
+            this.stats.incrementBatchCount();
+        }
+    }
+
+    /**
+     * Takes the given backend instance, or creates the Canvas 2D backend
+     * @throws Error if the WebGL backend is requested here rather than through create
+     * @private
+     */
+    private createBackend(
+        canvas: HTMLCanvasElement,
+        width: number,
+        height: number,
+        override?: RenderBackendType | RenderBackend
+    ): RenderBackend {
+        if (override && typeof override !== 'string') {
+            return override;
+        }
+
+        if (override === 'webgl') {
+            throw new Error('The WebGL backend is loaded on demand; use Renderer.create');
+        }
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Failed to get 2D rendering context');
+        }
+        const backend = new Canvas2DBackend(context, { maxBatchSize: Renderer.MAX_BATCH_SIZE });
+        backend.resize(width, height);
+        return backend;
+    }
+}
@@ -0,0 +1,295 @@
+/**
+ * @file WebGLBackend.ts
+ * @module WebGLBackend
+ * @description RenderBackend drawing batched sprite quads through a WebGL context. Vertex
+ * data, including each sprite's transform, alpha and tint, comes from BatchManager; this
+ * class only owns the GPU resources and the shaders applying tint and alpha.
+ */
+
+import { BatchManager, FLOATS_PER_VERTEX, SpriteBatch, VERTICES_PER_SPRITE } from './BatchManager';
+import { DrawCommand, RenderBackend } from './RenderBackend';
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_texCoord;
+attribute vec4 a_tint;
+attribute float a_alpha;
+uniform vec2 u_resolution;
+varying vec2 v_texCoord;
+varying vec4 v_tint;
+varying float v_alpha;
+
+void main() {
+    vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+    v_texCoord = a_texCoord;
+    v_tint = a_tint;
+    v_alpha = a_alpha;
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_texture;
+varying vec2 v_texCoord;
+varying vec4 v_tint;
+varying float v_alpha;
+
+void main() {
+    // Premultiplied texel: blend the tint over its opaque pixels like a source-atop fill
+    vec4 color = texture2D(u_texture, v_texCoord);
+    color.rgb = mix(color.rgb, v_tint.rgb * color.a, v_tint.a);
+    gl_FragColor = color * v_alpha;
+}
+`;
+
+/**
+ * Texture uploaded for a texture key, with the image it was uploaded from
+ */
+interface TextureEntry {
+    texture: WebGLTexture;
+    image: CanvasImageSource;
+}
+
+/**
+ * Draws batched sprites on the GPU
+ */
+export class WebGLBackend implements RenderBackend {
+    public readonly type = 'webgl' as const;
+    private readonly canvas: HTMLCanvasElement;
+    private readonly gl: WebGLRenderingContext;
+    private readonly batchManager: BatchManager;
+    private readonly program: WebGLProgram;
+    private readonly vertexBuffer: WebGLBuffer;
+    private readonly indexBuffer: WebGLBuffer;
+    private readonly resolutionLocation: WebGLUniformLocation | null;
+    private readonly textures = new Map<string, TextureEntry>();
+
+    /**
+     * Creates a new WebGLBackend instance
+     * @param canvas - The canvas element to render to
+     * @param width - Canvas width
+     * @param height - Canvas height
+     * @param maxBatchSize - Maximum sprites per batch
+     * @throws Error if WebGL is unavailable or the shaders fail to build
+     */
+    constructor(canvas: HTMLCanvasElement, width: number, height: number, maxBatchSize: number = 1000) {
+        const gl = canvas.getContext('webgl', { alpha: true, premultipliedAlpha: true, antialias: false });
+        if (!gl) {
+            throw new Error('Failed to get WebGL rendering context');
+        }
+
+        this.canvas = canvas;
+        this.gl = gl;
+        this.batchManager = new BatchManager(maxBatchSize);
+        this.program = this.createProgram();
+        this.resolutionLocation = gl.getUniformLocation(this.program, 'u_resolution');
+
+        this.vertexBuffer = this.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bufferData(
+            gl.ARRAY_BUFFER,
+            maxBatchSize * VERTICES_PER_SPRITE * FLOATS_PER_VERTEX * Float32Array.BYTES_PER_ELEMENT,
+            gl.DYNAMIC_DRAW
+        );
+
+        this.indexBuffer = this.createBuffer();
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+        gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, this.batchManager.getIndices(), gl.STATIC_DRAW);
+
+        this.bindAttributes();
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+
+        this.resize(width, height);
+    }
+
+    /**
+     * Clears the frame and starts an empty batch
+     */
+    public beginBatch(): void {
+        const gl = this.gl;
+        this.batchManager.begin();
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+    }
+
+    /**
+     * Queues a sprite with its transform, alpha and tint as per-vertex batch data
+     * @param command - Sprite, position and transform to draw
+     */
+    public drawSprite(command: DrawCommand): void {
+        this.batchManager.addSprite(command.sprite, command.x, command.y, command);
+    }
+
+    /**
+     * Flushes the current batch to the GPU
+     */
+    public flush(): void {
+        this.batchManager.flush(batch => this.drawBatch(batch));
+    }
+
+    /**
+     * Flushes the frame; the browser presents WebGL drawing once the frame ends
+     */
+    public endBatch(): void {
+        this.flush();
+    }
+
+    /**
+     * Resizes the target canvas and viewport
+     * @param width - New width in pixels
+     * @param height - New height in pixels
+     */
+    public resize(width: number, height: number): void {
+        const gl = this.gl;
+        this.canvas.width = width;
+        this.canvas.height = height;
+        gl.viewport(0, 0, width, height);
+        gl.useProgram(this.program);
+        gl.uniform2f(this.resolutionLocation, width, height);
+    }
+
+    public getPendingCount(): number {
+        return this.batchManager.getCurrentBatchSize();
+    }
+
+    public isBatchFull(): boolean {
+        return this.batchManager.wouldExceedBatchSize();
+    }
+
+    public dispose(): void {
+        const gl = this.gl;
+        this.batchManager.dispose();
+        this.textures.forEach(entry => gl.deleteTexture(entry.texture));
+        this.textures.clear();
+        gl.deleteBuffer(this.vertexBuffer);
+        gl.deleteBuffer(this.indexBuffer);
+        gl.deleteProgram(this.program);
+    }
+
+    /**
+     * Uploads a batch's vertices and draws its quads
+     * @private
+     */
+    private drawBatch(batch: SpriteBatch): void {
+        const gl = this.gl;
+        gl.useProgram(this.program);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, this.getTexture(batch.textureKey, batch.texture));
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, batch.vertices);
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+        gl.drawElements(gl.TRIANGLES, batch.indexCount, gl.UNSIGNED_SHORT, 0);
+    }
+
+    /**
+     * Gets the texture for a key, uploading the image when it is new or has been replaced
+     * @private
+     */
+    private getTexture(textureKey: string, image: CanvasImageSource): WebGLTexture {
+        const gl = this.gl;
+        const entry = this.textures.get(textureKey);
+        if (entry && entry.image === image) {
+            return entry.texture;
+        }
+
+        const texture = entry?.texture ?? gl.createTexture();
+        if (!texture) {
+            throw new Error(`Failed to create texture '${textureKey}'`);
+        }
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        // Pixel art: sample exactly, and clamp so textures need not be powers of two
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image as TexImageSource);
+
+        this.textures.set(textureKey, { texture, image });
+        return texture;
+    }
+
+    /**
+     * Points the shader attributes at the interleaved vertex buffer
+     * @private
+     */
+    private bindAttributes(): void {
+        const gl = this.gl;
+        const stride = FLOATS_PER_VERTEX * Float32Array.BYTES_PER_ELEMENT;
+        const attributes: [string, number, number][] = [
+            ['a_position', 2, 0],
+            ['a_texCoord', 2, 2],
+            ['a_tint', 4, 4],
+            ['a_alpha', 1, 8]
+        ];
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        attributes.forEach(([name, size, offset]) => {
+            const location = gl.getAttribLocation(this.program, name);
+            gl.enableVertexAttribArray(location);
+            gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * Float32Array.BYTES_PER_ELEMENT);
+        });
+    }
+
+    /**
+     * Compiles and links the sprite shaders
+     * @private
+     */
+    private createProgram(): WebGLProgram {
+        const gl = this.gl;
+        const program = gl.createProgram();
+        if (!program) {
+            throw new Error('Failed to create WebGL program');
+        }
+
+        const shaders = [
+            this.compileShader(gl.VERTEX_SHADER, VERTEX_SHADER),
+            this.compileShader(gl.FRAGMENT_SHADER, FRAGMENT_SHADER)
+        ];
+        shaders.forEach(shader => gl.attachShader(program, shader));
+        gl.linkProgram(program);
+        shaders.forEach(shader => gl.deleteShader(shader));
+
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            const log = gl.getProgramInfoLog(program);
+            gl.deleteProgram(program);
+            throw new Error(`Failed to link sprite shaders: ${log}`);
+        }
+        return program;
+    }
+
+    /**
+     * Compiles one shader stage
+     * @private
+     */
+    private compileShader(type: number, source: string): WebGLShader {
+        const gl = this.gl;
+        const shader = gl.createShader(type);
+        if (!shader) {
+            throw new Error('Failed to create WebGL shader');
+        }
+
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            const log = gl.getShaderInfoLog(shader);
+            gl.deleteShader(shader);
+            throw new Error(`Failed to compile sprite shader: ${log}`);
+        }
+        return shader;
+    }
+
+    /**
+     * Creates an empty GPU buffer
+     * @private
+     */
+    private createBuffer(): WebGLBuffer {
+        const buffer = this.gl.createBuffer();
+        if (!buffer) {
+            throw new Error('Failed to create WebGL buffer');
+        }
+        return buffer;
+    }
+}
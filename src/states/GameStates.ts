@@ -4,6 +4,18 @@
  * Provides a type-safe implementation for handling different game states.
  */
 
+import { AssetManager, AssetManifest, AssetProgress } from '../managers/AssetManager';
+import { ASSET_MANIFEST } from '../data/AssetManifest';
+import { GameScheduler } from '../engine/Scheduler';
+import { WaveManager } from '../systems/WaveManager';
+import { Player } from '../entities/Player';
+import { Enemy, MovementPattern } from '../entities/Enemy';
+import { Sprite } from '../engine/Sprite';
+import { CollisionBody, CollisionEvent, CollisionHandlers, CollisionLayer, CollisionWorld } from '../engine/CollisionWorld';
+import { ProjectileHitEvent, ProjectileManager } from '../managers/ProjectileManager';
+import { EnemyType } from '../data/WaveConfigs';
+import { createEnemySprite } from '../data/InvaderBitmaps';
+
 // =========================================
 // Types and Interfaces
 // =========================================
@@ -23,10 +35,23 @@ export enum GameStateType {
  * Interface that all game states must implement
  */
 export interface IGameState {
-  enter(): void;
-  exit(): void;
+  /**
+   * @param previousState - State being left, or null for the first state
+   */
+  enter(previousState?: GameStateType | null): void;
+  /**
+   * @param nextState - State being entered
+   */
+  exit(nextState?: GameStateType): void;
   update(deltaTime: number): void;
-  render(): void;
+  /**
+   * @param interpolation - Game loop blend between the previous and current fixed updates
+   */
+  render(interpolation?: number): void;
+  /**
+   * Optional guard; returning false blocks leaving this state for the given one
+   */
+  canTransitionTo?(newState: GameStateType): boolean;
 }
 
 /**
@@ -50,30 +75,146 @@ export abstract class BaseGameState implements IGameState {
     this.context = context;
   }
 
-  abstract enter(): void;
-  abstract exit(): void;
+  abstract enter(previousState?: GameStateType | null): void;
+  abstract exit(nextState?: GameStateType): void;
   abstract update(deltaTime: number): void;
-  abstract render(): void;
+  abstract render(interpolation?: number): void;
 }
 
+/**
+ * Configuration constants for the loading screen
+ */
+const LOADING_SCREEN_CONFIG = {
+  BAR_WIDTH_RATIO: 0.6,
+  BAR_HEIGHT: 16,
+  /** Fraction of the remaining distance the bar catches up per second */
+  BAR_EASE_PER_SECOND: 8,
+  BACKGROUND_COLOR: '#000000',
+  BAR_COLOR: '#33ff66',
+  ERROR_COLOR: '#ff3333',
+  TEXT_COLOR: '#ffffff',
+  FONT: '16px monospace'
+} as const;
+
 /**
  * Concrete state implementations
  */
+
+/**
+ * Preloads the asset manifest, draws a progress bar and moves on to the menu
+ * once every required asset has loaded
+ */
 export class LoadingState extends BaseGameState {
+  private assets: AssetManager = AssetManager.getInstance();
+  private manifest: AssetManifest;
+  private progress: AssetProgress = this.assets.getProgress();
+  private displayedRatio: number = 0;
+  private loadingDone: boolean = false;
+
+  private readonly handleProgress = (progress: AssetProgress): void => {
+    this.progress = progress;
+  };
+
+  /**
+   * @param context - State manager owning this state
+   * @param manifest - Assets to preload (defaults to the game's manifest)
+   */
+  constructor(context: GameStateManager, manifest: AssetManifest = ASSET_MANIFEST) {
+    super(context);
+    this.manifest = manifest;
+  }
+
   enter(): void {
     console.log('Entering Loading State');
+    this.assets.addManifest(this.manifest);
+    this.assets.addProgressListener(this.handleProgress);
+    this.displayedRatio = 0;
+    this.startLoading();
   }
 
   exit(): void {
     console.log('Exiting Loading State');
+    this.assets.removeProgressListener(this.handleProgress);
+  }
+
+  /**
+   * Only lets the game reach the menu once required assets are ready
+   */
+  canTransitionTo(newState: GameStateType): boolean {
+    return newState !== GameStateType.MENU || this.assets.isReady();
   }
 
   update(deltaTime: number): void {
-    // Loading state update logic
+    const target = this.progress.ratio;
+    const ease = Math.min(1, (deltaTime / 1000) * LOADING_SCREEN_CONFIG.BAR_EASE_PER_SECOND);
+    this.displayedRatio += (target - this.displayedRatio) * ease;
+
+    // Let the bar visibly reach the end before switching
+    if (this.loadingDone && this.progress.requiredReady && target - this.displayedRatio < 0.01) {
+      this.context.changeState(GameStateType.MENU);
+    }
   }
 
   render(): void {
-    // Loading state render logic
+    const ctx = this.context.getRenderContext();
+    if (!ctx) return;
+
+    const { BAR_WIDTH_RATIO, BAR_HEIGHT, BACKGROUND_COLOR, BAR_COLOR, ERROR_COLOR, TEXT_COLOR, FONT } =
+      LOADING_SCREEN_CONFIG;
+    const { width, height } = ctx.canvas;
+    const failedRequired = this.loadingDone && !this.progress.requiredReady;
+    const barWidth = Math.round(width * BAR_WIDTH_RATIO);
+    const barX = Math.round((width - barWidth) / 2);
+    const barY = Math.round(height / 2 - BAR_HEIGHT / 2);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.strokeStyle = TEXT_COLOR;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(barX - 2, barY - 2, barWidth + 4, BAR_HEIGHT + 4);
+    ctx.fillStyle = failedRequired ? ERROR_COLOR : BAR_COLOR;
+    ctx.fillRect(barX, barY, Math.round(barWidth * this.displayedRatio), BAR_HEIGHT);
+
+    ctx.font = FONT;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText(`LOADING ${Math.floor(this.displayedRatio * 100)}%`, width / 2, barY + BAR_HEIGHT + 12);
+
+    if (failedRequired) {
+      ctx.fillStyle = ERROR_COLOR;
+      ctx.fillText(`Failed to load: ${this.progress.errors.join(', ')}`, width / 2, barY + BAR_HEIGHT + 36);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Loads whatever is still pending or failed, e.g. after a required asset failed
+   */
+  retry(): void {
+    if (this.loadingDone) {
+      this.startLoading();
+    }
+  }
+
+  /**
+   * Starts loading the pending assets
+   * @private
+   */
+  private startLoading(): void {
+    this.loadingDone = false;
+    this.progress = this.assets.getProgress();
+    this.assets.loadAll()
+      .then(progress => {
+        this.progress = progress;
+        this.loadingDone = true;
+      })
+      .catch(error => {
+        console.error('Error loading assets:', error);
+      });
   }
 }
 
@@ -82,12 +223,306 @@ export class MenuState extends BaseGameState {
   // Implementation
 }
 
+/**
+ * Configuration constants for a game in progress, in logical canvas units
+ */
+const PLAYING_CONFIG = {
+  PLAYER_START: { x: 380, y: 540 },
+  FIELD: { x: 0, y: 0, width: 800, height: 600 },
+  ENEMY_SPAWN_Y: 40,
+  ENEMY_SPAWN_MARGIN: 40,
+  ENEMY_SPAWN_SPACING: 90,
+  ENEMY_SPEED: 0.5,
+  ENEMY_CONTACT_DAMAGE: 25,
+  /** Wave spawn types to the enemy types they are drawn as */
+  ENEMY_TYPES: {
+    basic: EnemyType.BASIC,
+    fast: EnemyType.FAST,
+    tough: EnemyType.TANK
+  } as Record<string, EnemyType>,
+  /** Shots move in logical units per millisecond */
+  SHOT: { speed: 0.6, size: { x: 4, y: 12 }, color: '#ffffff' }
+} as const;
+
+/**
+ * An enemy taking part in the current game. It owns the enemy's collision body, so
+ * collision events lead back to it.
+ */
+interface ActiveEnemy {
+  enemy: Enemy;
+  sprite: Sprite;
+  body: CollisionBody<ActiveEnemy>;
+}
+
+/**
+ * Configuration constants for the pause screen
+ */
+const PAUSED_SCREEN_CONFIG = {
+  OVERLAY_COLOR: 'rgba(0, 0, 0, 0.5)',
+  TEXT_COLOR: '#ffffff',
+  FONT: '24px monospace'
+} as const;
+
+/**
+ * Runs a game: enemy waves are scheduled on the state manager's game-time scheduler.
+ * The player, enemies and shots are registered with a collision world on their layers,
+ * which is stepped once per fixed update; hits arrive through its layer subscriptions.
+ * A game started here carries on through the paused state and ends when play moves
+ * anywhere else.
+ */
 export class PlayingState extends BaseGameState {
-  // Implementation
+  private waveManager: WaveManager;
+  private player: Player | null = null;
+  private world: CollisionWorld = new CollisionWorld({ bounds: PLAYING_CONFIG.FIELD });
+  private projectiles: ProjectileManager | null = null;
+  private enemies: Set<ActiveEnemy> = new Set();
+  private spawnCount: number = 0;
+  private readonly playerHitHandlers: CollisionHandlers<Player, ActiveEnemy> = {
+    enter: event => this.handlePlayerHit(event)
+  };
+
+  constructor(context: GameStateManager) {
+    super(context);
+    this.waveManager = new WaveManager(undefined, context.getScheduler());
+  }
+
+  enter(previousState?: GameStateType | null): void {
+    console.log('Entering Playing State');
+    if (previousState !== GameStateType.PAUSED) {
+      this.startGame();
+    }
+  }
+
+  exit(nextState?: GameStateType): void {
+    console.log('Exiting Playing State');
+    if (nextState !== GameStateType.PAUSED) {
+      this.endGame();
+    }
+  }
+
+  update(deltaTime: number): void {
+    // Wave timers advance with the state manager's scheduler
+    this.player?.update(deltaTime);
+    this.enemies.forEach(active => {
+      active.enemy.update(deltaTime);
+      if (active.enemy.getPosition().y > PLAYING_CONFIG.FIELD.height) {
+        this.removeEnemy(active);
+      }
+    });
+    this.projectiles?.update(deltaTime);
+    this.world.step();
+  }
+
+  /**
+   * Draws the game's entities blended between fixed updates
+   * @param interpolation - Game loop interpolation factor
+   */
+  render(interpolation: number = 1): void {
+    const ctx = this.context.getRenderContext();
+    if (!ctx) return;
+
+    this.enemies.forEach(({ enemy, sprite }) => {
+      const { x, y } = enemy.getInterpolatedTransform(interpolation);
+      sprite.render(ctx, x, y);
+    });
+    this.projectiles?.render(ctx, interpolation);
+    this.player?.render(ctx, interpolation);
+  }
+
+  /**
+   * Freezes the game's pending spawns and wave timers
+   */
+  pause(): void {
+    this.waveManager.pause();
+  }
+
+  /**
+   * Continues the game's spawns and wave timers where they left off
+   */
+  resume(): void {
+    this.waveManager.resume();
+  }
+
+  /**
+   * Gets the wave manager of the current game
+   * @returns Wave manager
+   */
+  getWaveManager(): WaveManager {
+    return this.waveManager;
+  }
+
+  /**
+   * Gets the player of the current game
+   * @returns Player, or null between games
+   */
+  getPlayer(): Player | null {
+    return this.player;
+  }
+
+  /**
+   * Gets the collision world of the current game
+   * @returns Collision world
+   */
+  getWorld(): CollisionWorld {
+    return this.world;
+  }
+
+  /**
+   * Gets the enemies of the current game
+   * @returns Enemies still in play
+   */
+  getEnemies(): Enemy[] {
+    return Array.from(this.enemies, active => active.enemy);
+  }
+
+  /**
+   * Starts a new game from the first wave
+   * @private
+   */
+  private startGame(): void {
+    this.endGame();
+
+    const player = new Player(PLAYING_CONFIG.PLAYER_START);
+    this.world.add({
+      layer: CollisionLayer.PLAYER,
+      owner: player,
+      getBounds: () => player.getBounds(),
+      getPreviousBounds: () => player.getPreviousBounds()
+    });
+    this.world.subscribe(CollisionLayer.PLAYER, CollisionLayer.ENEMY, this.playerHitHandlers);
+
+    const { speed, size, color } = PLAYING_CONFIG.SHOT;
+    const projectiles = new ProjectileManager({ speed, size, color });
+    projectiles.attachToWorld(this.world, CollisionLayer.PLAYER_SHOT);
+    projectiles.on('projectileHit', (hit: ProjectileHitEvent) => this.removeEnemy(hit.target as ActiveEnemy));
+    player.onShoot(muzzle => projectiles.spawnProjectile(
+      { x: muzzle.x - size.x / 2, y: muzzle.y - size.y },
+      { x: 0, y: -1 }
+    ));
+
+    this.player = player;
+    this.projectiles = projectiles;
+    this.waveManager = new WaveManager(undefined, this.context.getScheduler());
+    this.waveManager.onEnemySpawned(type => this.spawnEnemy(type));
+    this.waveManager.start();
+  }
+
+  /**
+   * Cancels every wave timer of the current game and releases its player, enemies and
+   * shots along with their collision bodies
+   * @private
+   */
+  private endGame(): void {
+    this.waveManager.stop();
+    this.projectiles?.cleanup();
+    this.projectiles = null;
+    this.player?.dispose();
+    this.player = null;
+    this.enemies.clear();
+    this.spawnCount = 0;
+    this.world.unsubscribe(this.playerHitHandlers);
+    this.world.clear();
+  }
+
+  /**
+   * Places an enemy spawned by the wave manager along the top of the field
+   * @private
+   */
+  private spawnEnemy(waveType: string): void {
+    const { FIELD, ENEMY_SPAWN_Y, ENEMY_SPAWN_MARGIN, ENEMY_SPAWN_SPACING, ENEMY_SPEED, ENEMY_TYPES } = PLAYING_CONFIG;
+    const lane = FIELD.width - ENEMY_SPAWN_MARGIN * 2;
+    const x = ENEMY_SPAWN_MARGIN + (this.spawnCount++ * ENEMY_SPAWN_SPACING) % lane;
+
+    const enemy = new Enemy({
+      position: { x, y: ENEMY_SPAWN_Y },
+      speed: ENEMY_SPEED,
+      movementPattern: MovementPattern.SINE_WAVE
+    });
+    const sprite = createEnemySprite(ENEMY_TYPES[waveType] ?? EnemyType.BASIC);
+    const active = { enemy, sprite } as ActiveEnemy;
+    active.body = this.world.add({
+      layer: CollisionLayer.ENEMY,
+      owner: active,
+      getBounds: () => ({ ...enemy.getPosition(), ...sprite.getDimensions() }),
+      getPreviousBounds: () => ({ ...enemy.getPreviousPosition(), ...sprite.getDimensions() })
+    });
+    this.enemies.add(active);
+  }
+
+  /**
+   * Damages the player and destroys the enemy that rammed it
+   * @private
+   */
+  private handlePlayerHit(event: CollisionEvent<Player, ActiveEnemy>): void {
+    event.a.owner.takeDamage(PLAYING_CONFIG.ENEMY_CONTACT_DAMAGE);
+    this.removeEnemy(event.b.owner);
+  }
+
+  /**
+   * Destroys an enemy and unregisters its body; enemies already removed are ignored
+   * @private
+   */
+  private removeEnemy(active: ActiveEnemy): void {
+    if (!this.enemies.delete(active)) return;
+
+    active.body.enabled = false;
+    this.world.remove(active.body);
+    if (!active.enemy.isDestroyedState()) {
+      active.enemy.death();
+    }
+  }
 }
 
+/**
+ * Freezes the running game's timers and draws it dimmed under a pause banner
+ */
 export class PausedState extends BaseGameState {
-  // Implementation
+  private playing: PlayingState;
+
+  /**
+   * @param context - State manager owning this state
+   * @param playing - State running the game being paused
+   */
+  constructor(context: GameStateManager, playing: PlayingState) {
+    super(context);
+    this.playing = playing;
+  }
+
+  enter(): void {
+    console.log('Entering Paused State');
+    this.playing.pause();
+  }
+
+  exit(): void {
+    console.log('Exiting Paused State');
+    this.playing.resume();
+  }
+
+  update(deltaTime: number): void {
+    // Game time stands still while paused
+  }
+
+  render(): void {
+    // The game stands still, so it is drawn as of its last fixed update
+    this.playing.render(1);
+
+    const ctx = this.context.getRenderContext();
+    if (!ctx) return;
+
+    const { OVERLAY_COLOR, TEXT_COLOR, FONT } = PAUSED_SCREEN_CONFIG;
+    const { width, height } = ctx.canvas;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = OVERLAY_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    ctx.font = FONT;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText('PAUSED', width / 2, height / 2);
+    ctx.restore();
+  }
 }
 
 export class GameOverState extends BaseGameState {
@@ -106,6 +541,8 @@ export class GameStateManager {
   private states: Map<GameStateType, IGameState>;
   private observers: Set<IGameStateObserver>;
   private currentStateType: GameStateType | null = null;
+  private renderContext: CanvasRenderingContext2D | null = null;
+  private scheduler: GameScheduler = new GameScheduler();
 
   constructor() {
     this.states = new Map();
@@ -120,8 +557,9 @@ export class GameStateManager {
   private initializeStates(): void {
     this.states.set(GameStateType.LOADING, new LoadingState(this));
     this.states.set(GameStateType.MENU, new MenuState(this));
-    this.states.set(GameStateType.PLAYING, new PlayingState(this));
-    this.states.set(GameStateType.PAUSED, new PausedState(this));
+    const playing = new PlayingState(this);
+    this.states.set(GameStateType.PLAYING, playing);
+    this.states.set(GameStateType.PAUSED, new PausedState(this, playing));
     this.states.set(GameStateType.GAME_OVER, new GameOverState(this));
   }
 
@@ -129,6 +567,7 @@ export class GameStateManager {
    * Changes the current game state
    * @param newState - The state to transition to
    * @throws Error if the state is not found
+   * @throws GameStateError if the current state does not allow the transition
    */
   public changeState(newState: GameStateType): void {
     const nextState = this.states.get(newState);
@@ -137,9 +576,13 @@ export class GameStateManager {
       throw new Error(`State ${newState} not found`);
     }
 
+    if (this.currentState?.canTransitionTo && !this.currentState.canTransitionTo(newState)) {
+      throw new GameStateError(`Cannot change state from ${this.currentStateType} to ${newState} yet`);
+    }
+
     // Exit current state
     if (this.currentState) {
-      this.currentState.exit();
+      this.currentState.exit(newState);
     }
 
     // Update state
@@ -148,7 +591,7 @@ export class GameStateManager {
     this.currentStateType = newState;
 
     // Enter new state
-    this.currentState.enter();
+    this.currentState.enter(oldState);
 
     // Notify observers
     if (oldState) {
@@ -157,10 +600,11 @@ export class GameStateManager {
   }
 
   /**
-   * Updates the current state
+   * Advances the shared scheduler, then updates the current state
    * @param deltaTime - Time elapsed since last update
    */
   public update(deltaTime: number): void {
+    this.scheduler.tick(deltaTime);
     if (this.currentState) {
       this.currentState.update(deltaTime);
     }
@@ -168,13 +612,39 @@ export class GameStateManager {
 
   /**
    * Renders the current state
+   * @param interpolation - Game loop blend between the previous and current fixed updates
    */
-  public render(): void {
+  public render(interpolation: number = 1): void {
     if (this.currentState) {
-      this.currentState.render();
+      this.currentState.render(interpolation);
     }
   }
 
+  /**
+   * Sets the context states draw into
+   * @param context - 2D rendering context of the game canvas
+   */
+  public setRenderContext(context: CanvasRenderingContext2D | null): void {
+    this.renderContext = context;
+  }
+
+  /**
+   * Gets the context states draw into
+   * @returns Rendering context, or null if none was set
+   */
+  public getRenderContext(): CanvasRenderingContext2D | null {
+    return this.renderContext;
+  }
+
+  /**
+   * Gets the game-time scheduler ticked on every update, whatever the state.
+   * States pause their own tags while they should stand still.
+   * @returns Shared scheduler
+   */
+  public getScheduler(): GameScheduler {
+    return this.scheduler;
+  }
+
   /**
    * Adds an observer to state changes
    * @param observer - The observer to add
@@ -208,6 +678,15 @@ export class GameStateManager {
   public getCurrentStateType(): GameStateType | null {
     return this.currentStateType;
   }
+
+  /**
+   * Gets the instance handling a state type
+   * @param stateType - State type to look up
+   * @returns The state instance, or undefined if the type has none
+   */
+  public getState(stateType: GameStateType): IGameState | undefined {
+    return this.states.get(stateType);
+  }
 }
 
 // =========================================
@@ -0,0 +1,267 @@
+/**
+ * @file AutoPauseManager.ts
+ * @description Pauses the game when the tab is hidden or the window loses focus, suspends audio,
+ * and resumes cleanly once the player taps a "tap to resume" prompt. Can be disabled for kiosk
+ * setups where the game should keep running unattended.
+ */
+
+import { GameStateManager, GameStateType } from './GameStateManager';
+import { AudioManager } from '../audio/AudioManager';
+import { MusicPlayer } from '../audio/MusicPlayer';
+import { GameLoop } from '../engine/GameLoop';
+import { Time } from '../engine/Time';
+
+// Types and interfaces
+export interface AutoPauseConfig {
+  /** Set to false to opt out entirely (e.g. kiosk setups) */
+  enabled: boolean;
+  /** Whether losing window focus pauses as well as hiding the tab */
+  pauseOnBlur: boolean;
+  /** Text shown on the resume prompt */
+  promptText: string;
+  /** Key that dismisses the resume prompt, matched against KeyboardEvent.key */
+  resumeKey: string;
+  /** Element the resume prompt is attached to */
+  container?: HTMLElement;
+}
+
+export interface AutoPauseTargets {
+  stateManager?: GameStateManager;
+  audioManager?: AudioManager;
+  musicPlayer?: MusicPlayer;
+  gameLoop?: GameLoop;
+  time?: Time;
+}
+
+/**
+ * Default configuration for automatic pausing
+ */
+const DEFAULT_AUTO_PAUSE_CONFIG: AutoPauseConfig = {
+  enabled: true,
+  pauseOnBlur: true,
+  promptText: 'Tap to resume',
+  resumeKey: 'Enter'
+};
+
+const RESUME_PROMPT_ID = 'resumePrompt';
+
+/**
+ * Watches page visibility and focus and pauses the game while the player is away
+ */
+export class AutoPauseManager {
+  private config: AutoPauseConfig;
+  private stateManager: GameStateManager;
+  private audioManager: AudioManager;
+  private musicPlayer?: MusicPlayer;
+  private gameLoop?: GameLoop;
+  private time?: Time;
+  private suspended: boolean = false;
+  private pausedGame: boolean = false;
+  private prompt: HTMLElement | null = null;
+  private attached: boolean = false;
+
+  /**
+   * Creates a new AutoPauseManager instance
+   * @param targets Systems to pause and resume (state and audio managers default to their singletons)
+   * @param config Optional configuration to override defaults
+   */
+  constructor(targets: AutoPauseTargets = {}, config: Partial<AutoPauseConfig> = {}) {
+    this.config = { ...DEFAULT_AUTO_PAUSE_CONFIG, ...config };
+    this.stateManager = targets.stateManager ?? GameStateManager.getInstance();
+    this.audioManager = targets.audioManager ?? AudioManager.getInstance();
+    this.musicPlayer = targets.musicPlayer;
+    this.gameLoop = targets.gameLoop;
+    this.time = targets.time;
+
+    this.handleVisibilityChange = this.handleVisibilityChange.bind(this);
+    this.handleBlur = this.handleBlur.bind(this);
+    this.handleFocus = this.handleFocus.bind(this);
+    this.handleResumeInput = this.handleResumeInput.bind(this);
+    this.handleResumeKey = this.handleResumeKey.bind(this);
+  }
+
+  /**
+   * Starts listening for visibility and focus changes
+   */
+  public attach(): void {
+    if (this.attached || !this.config.enabled) return;
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    if (this.config.pauseOnBlur) {
+      window.addEventListener('blur', this.handleBlur);
+      window.addEventListener('focus', this.handleFocus);
+    }
+    this.attached = true;
+  }
+
+  /**
+   * Stops listening, resuming the game and audio first if they were paused on the player's behalf
+   */
+  public detach(): void {
+    if (!this.attached) return;
+
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('blur', this.handleBlur);
+    window.removeEventListener('focus', this.handleFocus);
+    this.attached = false;
+
+    if (this.suspended || this.pausedGame) {
+      this.suspended = false;
+      this.resume();
+    }
+  }
+
+  /**
+   * Enables or disables automatic pausing at runtime
+   * @param enabled Whether automatic pausing is active
+   */
+  public setEnabled(enabled: boolean): void {
+    this.config.enabled = enabled;
+    if (enabled) {
+      this.attach();
+    } else {
+      this.detach();
+    }
+  }
+
+  /**
+   * Checks whether the game is waiting for the player to resume
+   */
+  public isAwaitingResume(): boolean {
+    return this.pausedGame;
+  }
+
+  /**
+   * Suspends the game because the player left
+   */
+  public suspend(): void {
+    if (this.suspended) return;
+    this.suspended = true;
+
+    if (this.stateManager.getCurrentStateType() === GameStateType.PLAYING) {
+      try {
+        this.stateManager.transitionTo(GameStateType.PAUSED);
+        this.pausedGame = true;
+      } catch (error) {
+        console.error('Failed to pause game:', error);
+      }
+    }
+
+    this.musicPlayer?.pause();
+    void this.audioManager.suspend();
+  }
+
+  /**
+   * Handles the player coming back: timing is reset right away, while gameplay and audio
+   * wait for an explicit tap if the game was paused on their behalf
+   */
+  public restore(): void {
+    if (!this.suspended) return;
+    this.suspended = false;
+
+    this.time?.resetAccumulator();
+    this.gameLoop?.resetAccumulator();
+
+    if (this.pausedGame) {
+      this.showPrompt();
+    } else {
+      this.resumeAudio();
+    }
+  }
+
+  /**
+   * Resumes gameplay and audio after the player confirmed
+   */
+  public resume(): void {
+    this.hidePrompt();
+
+    if (this.pausedGame) {
+      this.pausedGame = false;
+      if (this.stateManager.getCurrentStateType() === GameStateType.PAUSED) {
+        try {
+          this.stateManager.transitionTo(GameStateType.PLAYING);
+        } catch (error) {
+          console.error('Failed to resume game:', error);
+        }
+      }
+    }
+
+    this.time?.resetAccumulator();
+    this.gameLoop?.resetAccumulator();
+    this.resumeAudio();
+  }
+
+  private handleVisibilityChange(): void {
+    if (document.visibilityState === 'hidden') {
+      this.suspend();
+    } else {
+      this.restore();
+    }
+  }
+
+  private handleBlur(): void {
+    this.suspend();
+  }
+
+  private handleFocus(): void {
+    if (document.visibilityState !== 'hidden') {
+      this.restore();
+    }
+  }
+
+  private handleResumeInput(event: Event): void {
+    event.preventDefault();
+    this.resume();
+  }
+
+  private handleResumeKey(event: KeyboardEvent): void {
+    if (event.key !== this.config.resumeKey) return;
+    this.handleResumeInput(event);
+  }
+
+  private resumeAudio(): void {
+    void this.audioManager.resume();
+    void this.musicPlayer?.resume();
+  }
+
+  /**
+   * Shows the "tap to resume" overlay
+   */
+  private showPrompt(): void {
+    if (this.prompt) return;
+
+    const prompt = document.createElement('div');
+    prompt.id = RESUME_PROMPT_ID;
+    prompt.textContent = this.config.promptText;
+    prompt.style.position = 'fixed';
+    prompt.style.inset = '0';
+    prompt.style.display = 'flex';
+    prompt.style.alignItems = 'center';
+    prompt.style.justifyContent = 'center';
+    prompt.style.background = 'rgba(0, 0, 0, 0.6)';
+    prompt.style.color = '#ffffff';
+    prompt.style.font = '24px monospace';
+    prompt.style.cursor = 'pointer';
+    prompt.style.zIndex = '1000';
+
+    prompt.addEventListener('click', this.handleResumeInput);
+    prompt.addEventListener('touchend', this.handleResumeInput);
+    window.addEventListener('keydown', this.handleResumeKey);
+
+    (this.config.container ?? document.body).appendChild(prompt);
+    this.prompt = prompt;
+  }
+
+  /**
+   * Removes the resume overlay
+   */
+  private hidePrompt(): void {
+    if (!this.prompt) return;
+
+    this.prompt.removeEventListener('click', this.handleResumeInput);
+    this.prompt.removeEventListener('touchend', this.handleResumeInput);
+    window.removeEventListener('keydown', this.handleResumeKey);
+    this.prompt.remove();
+    this.prompt = null;
+  }
+}
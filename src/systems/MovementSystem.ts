@@ -4,6 +4,10 @@
  * @module MovementSystem
  */
 
+import { TimeChannel, TimeChannelBinding, TimeScale, applyTimeChannel } from '../engine/TimeScale';
+import { FrameProfiler } from '../utils/Performance';
+import { toReferenceTicks } from '../engine/GameLoop';
+
 // Types and interfaces
 interface Position {
   x: number;
@@ -35,6 +39,7 @@ export class MovementSystem {
   private startPosition: Position;
   private config: MovementConfig;
   private time: number;
+  private timeBinding: TimeChannelBinding | null = null;
 
   /**
    * Creates a new MovementSystem instance
@@ -90,6 +95,19 @@ export class MovementSystem {
     pattern: MovementPattern,
     deltaTime: number,
     targetPosition?: Position
+  ): Position {
+    return FrameProfiler.getInstance().measure('movement', () =>
+      this.updatePosition(pattern, applyTimeChannel(this.timeBinding, deltaTime), targetPosition)
+    );
+  }
+
+  /**
+   * Advances time and dispatches to the selected movement pattern
+   */
+  private updatePosition(
+    pattern: MovementPattern,
+    deltaTime: number,
+    targetPosition?: Position
   ): Position {
     this.time += deltaTime;
 
@@ -101,7 +119,7 @@ export class MovementSystem {
       case MovementPattern.CIRCULAR:
         return this.calculateCircularMovement();
       case MovementPattern.FOLLOW:
-        return this.calculateFollowMovement(targetPosition);
+        return this.calculateFollowMovement(deltaTime, targetPosition);
       default:
         throw new Error(`Unsupported movement pattern: ${pattern}`);
     }
@@ -138,11 +156,13 @@ export class MovementSystem {
   }
 
   /**
-   * Calculates movement pattern for following a target
+   * Calculates movement pattern for following a target. Speed is per 60 Hz tick,
+   * so it is scaled by the update duration to stay independent of the logic rate.
+   * @param deltaTime - Time elapsed since last update
    * @param targetPosition - Position to follow
    * @throws Error if target position is not provided
    */
-  private calculateFollowMovement(targetPosition?: Position): Position {
+  private calculateFollowMovement(deltaTime: number, targetPosition?: Position): Position {
     if (!targetPosition) {
       throw new Error('Target position required for follow movement pattern');
     }
@@ -152,7 +172,7 @@ export class MovementSystem {
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     if (distance > 0) {
-      const speed = this.config.speed;
+      const speed = Math.min(this.config.speed * toReferenceTicks(deltaTime), distance);
       this.position.x += (dx / distance) * speed;
       this.position.y += (dy / distance) * speed;
     }
@@ -160,6 +180,15 @@ export class MovementSystem {
     return { ...this.position };
   }
 
+  /**
+   * Opts this system into a time channel so its movement follows that channel's scale
+   * @param timeScale - Time scale providing the channel
+   * @param channel - Channel to follow (defaults to gameplay)
+   */
+  public useTimeChannel(timeScale: TimeScale, channel: TimeChannel = TimeChannel.GAMEPLAY): void {
+    this.timeBinding = { timeScale, channel };
+  }
+
   /**
    * Resets the movement system to initial state
    */
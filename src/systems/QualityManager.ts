@@ -0,0 +1,303 @@
+/**
+ * @file QualityManager.ts
+ * @description Adaptive quality controller. Listens to game loop panics and frame rate reports,
+ * steps down through quality tiers when the device struggles and back up once performance has
+ * been stable for a while. A user-pinned tier overrides the adaptive behaviour.
+ */
+
+import { Clock, getDefaultClock } from '../engine/Clock';
+import { GameLoop } from '../engine/GameLoop';
+import { Time } from '../engine/Time';
+import {
+  QUALITY_PRESETS,
+  QUALITY_TIER_ORDER,
+  QualityAware,
+  QualitySettings,
+  QualityTier
+} from '../data/QualityConfig';
+
+// Types and interfaces
+export interface QualityManagerConfig {
+  /** Tier used at startup when nothing is pinned */
+  initialTier: QualityTier;
+  /** FPS below which a report counts as a bad signal */
+  lowFpsThreshold: number;
+  /** FPS at or above which a report counts as stable */
+  stableFpsThreshold: number;
+  /** Number of bad signals within the signal window that triggers a downgrade */
+  downgradeSignals: number;
+  /** Window in which bad signals are counted (ms) */
+  signalWindow: number;
+  /** Continuous stable time required before upgrading (ms) */
+  upgradeStableTime: number;
+  /** Minimum time between two tier changes (ms) */
+  changeCooldown: number;
+}
+
+export type QualityChangeCallback = (tier: QualityTier, settings: QualitySettings) => void;
+
+/**
+ * Default configuration for the quality manager
+ */
+const DEFAULT_QUALITY_CONFIG: QualityManagerConfig = {
+  initialTier: QualityTier.HIGH,
+  lowFpsThreshold: 45,
+  stableFpsThreshold: 57,
+  downgradeSignals: 2,
+  signalWindow: 3000,
+  upgradeStableTime: 15000,
+  changeCooldown: 5000
+};
+
+const PINNED_TIER_STORAGE_KEY = 'qualityTier';
+
+/**
+ * Steps through quality tiers with hysteresis based on performance signals
+ */
+export class QualityManager {
+  private config: QualityManagerConfig;
+  private clock: Clock;
+  private tierIndex: number;
+  private pinnedTier: QualityTier | null = null;
+  private badSignals: number[] = [];
+  private stableSince: number | null = null;
+  private lastChangeTime: number;
+  private targets: Set<QualityAware> = new Set();
+  private listeners: Set<QualityChangeCallback> = new Set();
+  private detachCallbacks: (() => void)[] = [];
+
+  /**
+   * Creates a new QualityManager instance
+   * @param config Optional configuration to override defaults
+   * @param clock Optional clock used to time signals
+   * @throws Error if the initial tier is unknown
+   */
+  constructor(config: Partial<QualityManagerConfig> = {}, clock: Clock = getDefaultClock()) {
+    this.config = { ...DEFAULT_QUALITY_CONFIG, ...config };
+    this.clock = clock;
+    this.tierIndex = this.getTierIndex(this.config.initialTier);
+    this.lastChangeTime = -Infinity;
+    this.loadPinnedTier();
+  }
+
+  /**
+   * Subscribes to a game loop's panics and a time system's FPS reports
+   * @param sources Signal sources to listen to
+   */
+  public attach(sources: { gameLoop?: GameLoop; time?: Time }): void {
+    if (sources.gameLoop) {
+      const gameLoop = sources.gameLoop;
+      const onPanic = () => this.reportPanic();
+      gameLoop.addPanicListener(onPanic);
+      this.detachCallbacks.push(() => gameLoop.removePanicListener(onPanic));
+    }
+
+    if (sources.time) {
+      const time = sources.time;
+      const onFps = (fps: number) => this.reportFps(fps);
+      time.addFpsListener(onFps);
+      this.detachCallbacks.push(() => time.removeFpsListener(onFps));
+    }
+  }
+
+  /**
+   * Stops listening to every attached signal source
+   */
+  public detach(): void {
+    this.detachCallbacks.forEach(detach => detach());
+    this.detachCallbacks = [];
+  }
+
+  /**
+   * Registers a system that adapts to quality changes and applies the current settings to it
+   * @param target System implementing applyQuality
+   */
+  public addTarget(target: QualityAware): void {
+    this.targets.add(target);
+    target.applyQuality(this.getSettings());
+  }
+
+  /**
+   * Unregisters a quality-aware system
+   * @param target System to remove
+   */
+  public removeTarget(target: QualityAware): void {
+    this.targets.delete(target);
+  }
+
+  /**
+   * Subscribes to tier changes
+   * @param callback Function called with the new tier and settings
+   */
+  public onQualityChanged(callback: QualityChangeCallback): void {
+    this.listeners.add(callback);
+  }
+
+  /**
+   * Unsubscribes from tier changes
+   * @param callback Function to remove
+   */
+  public offQualityChanged(callback: QualityChangeCallback): void {
+    this.listeners.delete(callback);
+  }
+
+  /**
+   * Reports that the game loop hit its update limit for a frame
+   */
+  public reportPanic(): void {
+    this.recordBadSignal();
+  }
+
+  /**
+   * Reports a measured frame rate
+   * @param fps Frames per second over the last measurement window
+   */
+  public reportFps(fps: number): void {
+    const now = this.clock.now();
+
+    if (fps < this.config.lowFpsThreshold) {
+      this.recordBadSignal();
+      return;
+    }
+
+    if (fps < this.config.stableFpsThreshold) {
+      this.stableSince = null;
+      return;
+    }
+
+    if (this.stableSince === null) {
+      this.stableSince = now;
+      return;
+    }
+
+    if (now - this.stableSince >= this.config.upgradeStableTime && this.canChange(now)) {
+      this.stepTier(-1);
+    }
+  }
+
+  /**
+   * Pins a tier, disabling adaptive changes, or clears the pin
+   * @param tier Tier to pin, or null to return to adaptive quality
+   * @throws Error if the tier is unknown
+   */
+  public setPinnedTier(tier: QualityTier | null): void {
+    const tierIndex = tier === null ? this.tierIndex : this.getTierIndex(tier);
+    this.pinnedTier = tier;
+    this.savePinnedTier();
+    this.badSignals = [];
+    this.stableSince = null;
+
+    this.tierIndex = tierIndex;
+    this.notify();
+  }
+
+  /**
+   * Gets the pinned tier
+   * @returns Pinned tier or null when quality is adaptive
+   */
+  public getPinnedTier(): QualityTier | null {
+    return this.pinnedTier;
+  }
+
+  /**
+   * Gets the active tier
+   */
+  public getTier(): QualityTier {
+    return this.pinnedTier ?? QUALITY_TIER_ORDER[this.tierIndex];
+  }
+
+  /**
+   * Gets the settings of the active tier
+   */
+  public getSettings(): QualitySettings {
+    return { ...QUALITY_PRESETS[this.getTier()] };
+  }
+
+  /**
+   * Gets the position of a tier in the quality order
+   * @throws Error if the tier is unknown
+   */
+  private getTierIndex(tier: QualityTier): number {
+    const index = QUALITY_TIER_ORDER.indexOf(tier);
+    if (index === -1) {
+      throw new Error(`Unknown quality tier '${tier}'`);
+    }
+    return index;
+  }
+
+  private recordBadSignal(): void {
+    const now = this.clock.now();
+    this.stableSince = null;
+    this.badSignals.push(now);
+    this.badSignals = this.badSignals.filter(time => now - time <= this.config.signalWindow);
+
+    if (this.badSignals.length >= this.config.downgradeSignals && this.canChange(now)) {
+      this.stepTier(1);
+    }
+  }
+
+  private canChange(now: number): boolean {
+    return this.pinnedTier === null && now - this.lastChangeTime >= this.config.changeCooldown;
+  }
+
+  /**
+   * Moves one tier down (1) or up (-1) if possible
+   */
+  private stepTier(direction: 1 | -1): void {
+    const nextIndex = this.tierIndex + direction;
+    if (nextIndex < 0 || nextIndex >= QUALITY_TIER_ORDER.length) {
+      return;
+    }
+
+    this.tierIndex = nextIndex;
+    this.lastChangeTime = this.clock.now();
+    this.badSignals = [];
+    this.stableSince = null;
+    this.notify();
+  }
+
+  private notify(): void {
+    const tier = this.getTier();
+    const settings = this.getSettings();
+
+    this.targets.forEach(target => {
+      try {
+        target.applyQuality(settings);
+      } catch (error) {
+        console.error('Error applying quality settings:', error);
+      }
+    });
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(tier, settings);
+      } catch (error) {
+        console.error('Error in quality change listener:', error);
+      }
+    });
+  }
+
+  private savePinnedTier(): void {
+    try {
+      if (this.pinnedTier === null) {
+        localStorage.removeItem(PINNED_TIER_STORAGE_KEY);
+      } else {
+        localStorage.setItem(PINNED_TIER_STORAGE_KEY, this.pinnedTier);
+      }
+    } catch (error) {
+      console.warn('Failed to save quality tier:', error);
+    }
+  }
+
+  private loadPinnedTier(): void {
+    try {
+      const saved = localStorage.getItem(PINNED_TIER_STORAGE_KEY);
+      if (saved && QUALITY_TIER_ORDER.includes(saved as QualityTier)) {
+        this.pinnedTier = saved as QualityTier;
+        this.tierIndex = QUALITY_TIER_ORDER.indexOf(this.pinnedTier);
+      }
+    } catch (error) {
+      console.warn('Failed to load quality tier:', error);
+    }
+  }
+}
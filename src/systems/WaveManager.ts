@@ -4,6 +4,9 @@
  * Handles wave timing, difficulty scaling, and spawn coordination
  */
 
+import { GameScheduler } from '../engine/Scheduler';
+import { TimeChannel, TimeChannelBinding, TimeScale, applyTimeChannel } from '../engine/TimeScale';
+
 // Types and Interfaces
 interface WaveConfig {
   initialEnemyCount: number;
@@ -34,6 +37,11 @@ const DEFAULT_WAVE_CONFIG: WaveConfig = {
   difficultyScaling: 1.2
 };
 
+/**
+ * Scheduler tag shared by every wave timer so they can be cancelled or paused together
+ */
+const WAVE_TASK_TAG = 'wave';
+
 /**
  * Manages the spawning and progression of enemy waves
  */
@@ -41,19 +49,23 @@ export class WaveManager {
   private currentWave: number;
   private isWaveActive: boolean;
   private config: WaveConfig;
-  private waveTimeout: NodeJS.Timeout | null;
+  private scheduler: GameScheduler;
+  private ownsScheduler: boolean;
   private onWaveComplete?: () => void;
   private onEnemySpawn?: (enemyType: string) => void;
+  private timeBinding: TimeChannelBinding | null = null;
 
   /**
    * Creates a new WaveManager instance
    * @param config Optional configuration to override defaults
+   * @param scheduler Optional shared scheduler; when provided, its owner is responsible for ticking it
    */
-  constructor(config?: Partial<WaveConfig>) {
+  constructor(config?: Partial<WaveConfig>, scheduler?: GameScheduler) {
     this.currentWave = 0;
     this.isWaveActive = false;
     this.config = { ...DEFAULT_WAVE_CONFIG, ...config };
-    this.waveTimeout = null;
+    this.scheduler = scheduler ?? new GameScheduler();
+    this.ownsScheduler = !scheduler;
   }
 
   /**
@@ -74,10 +86,41 @@ export class WaveManager {
    */
   public stop(): void {
     this.isWaveActive = false;
-    if (this.waveTimeout) {
-      clearTimeout(this.waveTimeout);
-      this.waveTimeout = null;
+    this.scheduler.cancelByTag(WAVE_TASK_TAG);
+    this.scheduler.resume(WAVE_TASK_TAG);
+  }
+
+  /**
+   * Freezes every pending spawn and wave timer
+   */
+  public pause(): void {
+    this.scheduler.pause(WAVE_TASK_TAG);
+  }
+
+  /**
+   * Resumes pending spawns and wave timers where they left off
+   */
+  public resume(): void {
+    this.scheduler.resume(WAVE_TASK_TAG);
+  }
+
+  /**
+   * Checks if wave timers are paused
+   * @returns True if paused
+   */
+  public isPaused(): boolean {
+    return this.scheduler.isPaused(WAVE_TASK_TAG);
+  }
+
+  /**
+   * Advances wave timers by one fixed update
+   * @param deltaTime Time elapsed since last update in milliseconds
+   */
+  public update(deltaTime: number): void {
+    if (!this.ownsScheduler) {
+      return;
     }
+    this.scheduler.tick(applyTimeChannel(this.timeBinding, deltaTime));
   }
 
   /**
@@ -96,6 +139,15 @@ export class WaveManager {
     this.onEnemySpawn = callback;
   }
 
+  /**
+   * Opts wave timing into a time channel
+   * @param timeScale Time scale providing the channel
+   * @param channel Channel to follow (defaults to gameplay)
+   */
+  public useTimeChannel(timeScale: TimeScale, channel: TimeChannel = TimeChannel.GAMEPLAY): void {
+    this.timeBinding = { timeScale, channel };
+  }
+
   /**
    * Gets the current wave number
    * @returns Current wave number
@@ -182,13 +234,13 @@ export class WaveManager {
   private spawnWaveEnemies(waveData: WaveData): void {
     waveData.enemies.forEach(enemyData => {
       for (let i = 0; i < enemyData.count; i++) {
-        setTimeout(() => {
+        this.scheduler.delay(enemyData.spawnDelay * i, () => {
           if (!this.isWaveActive) return;
           
           if (this.onEnemySpawn) {
             this.onEnemySpawn(enemyData.type);
           }
-        }, enemyData.spawnDelay * i);
+        }, { tag: WAVE_TASK_TAG });
       }
     });
 
@@ -198,11 +250,11 @@ export class WaveManager {
     );
 
     // Trigger wave completion after all enemies have spawned
-    setTimeout(() => {
+    this.scheduler.delay(maxSpawnDelay, () => {
       if (this.onWaveComplete) {
         this.onWaveComplete();
       }
-    }, maxSpawnDelay);
+    }, { tag: WAVE_TASK_TAG });
   }
 
   /**
@@ -211,9 +263,10 @@ export class WaveManager {
   private scheduleNextWave(): void {
     if (!this.isWaveActive) return;
 
-    this.waveTimeout = setTimeout(
+    this.scheduler.delay(
+      this.config.timeBetweenWaves,
       () => this.startNextWave(),
-      this.config.timeBetweenWaves
+      { tag: WAVE_TASK_TAG }
     );
   }
 }
\ No newline at end of file
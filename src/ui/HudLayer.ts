@@ -0,0 +1,124 @@
+/**
+ * @fileoverview HUD Layer
+ * Draws the score onto the canvas HUD layer and only redraws it
+ * when the ScoreManager reports a change.
+ *
+ * @module HudLayer
+ * @version 1.0.0
+ */
+
+import { Canvas } from '../engine/Canvas';
+import { CANVAS_LAYERS } from '../engine/CanvasLayer';
+import { ScoreManager, ScoreUpdateEvent } from '../managers/ScoreManager';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Configuration options for the HUD layer
+ */
+interface HudLayerConfig {
+  layerName?: string;
+  font?: string;
+  color?: string;
+  x?: number;
+  y?: number;
+  scoreDigits?: number;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+const DEFAULT_CONFIG: HudLayerConfig = {
+  layerName: CANVAS_LAYERS.HUD,
+  font: '20px monospace',
+  color: '#ffffff',
+  x: 16,
+  y: 16,
+  scoreDigits: 6
+};
+
+// =========================================================
+// Main Class
+// =========================================================
+
+/**
+ * Renders HUD elements into a dirty-flagged canvas layer
+ */
+export class HudLayer {
+  private canvas: Canvas;
+  private scoreManager: ScoreManager;
+  private config: HudLayerConfig;
+  private score: number;
+  private attached: boolean = false;
+
+  /**
+   * Creates a new HudLayer instance
+   * @param canvas - Canvas owning the HUD layer
+   * @param scoreManager - Score source (defaults to the singleton)
+   * @param config - Configuration options for the HUD
+   */
+  constructor(
+    canvas: Canvas,
+    scoreManager: ScoreManager = ScoreManager.getInstance(),
+    config: HudLayerConfig = {}
+  ) {
+    this.canvas = canvas;
+    this.scoreManager = scoreManager;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.score = scoreManager.getScore();
+
+    this.draw = this.draw.bind(this);
+    this.handleScoreUpdate = this.handleScoreUpdate.bind(this);
+  }
+
+  /**
+   * Installs the HUD renderer on its layer and subscribes to score changes
+   * @throws Error if the canvas has no layer with the configured name
+   */
+  public attach(): void {
+    if (this.attached) return;
+
+    this.canvas.setLayerRenderer(this.config.layerName!, this.draw);
+    this.scoreManager.subscribe(this.handleScoreUpdate);
+    this.attached = true;
+  }
+
+  /**
+   * Unsubscribes from score changes
+   */
+  public detach(): void {
+    if (!this.attached) return;
+
+    this.scoreManager.unsubscribe(this.handleScoreUpdate);
+    this.attached = false;
+  }
+
+  /**
+   * Marks the HUD layer dirty when the score changes
+   * @private
+   */
+  private handleScoreUpdate(event: ScoreUpdateEvent): void {
+    if (event.newScore === this.score) return;
+
+    this.score = event.newScore;
+    this.canvas.markLayerDirty(this.config.layerName!);
+  }
+
+  /**
+   * Draws the HUD; only called by the layer when it is dirty
+   * @private
+   */
+  private draw(ctx: CanvasRenderingContext2D): void {
+    ctx.font = this.config.font!;
+    ctx.fillStyle = this.config.color!;
+    ctx.textBaseline = 'top';
+    ctx.fillText(
+      `SCORE ${this.score.toString().padStart(this.config.scoreDigits!, '0')}`,
+      this.config.x!,
+      this.config.y!
+    );
+  }
+}
@@ -7,6 +7,8 @@
  * @version 1.0.0
  */
 
+import { TimeChannel, TimeChannelBinding, TimeScale, applyTimeChannel } from '../engine/TimeScale';
+
 // =========================================================
 // Types and Interfaces
 // =========================================================
@@ -57,6 +59,7 @@ export class ScoreDisplay {
   private config: ScoreDisplayConfig;
   private events: ScoreDisplayEvents;
   private animationFrame: number | null;
+  private timeBinding: TimeChannelBinding | null = null;
 
   /**
    * Creates a new ScoreDisplay instance
@@ -162,11 +165,14 @@ export class ScoreDisplay {
       cancelAnimationFrame(this.animationFrame);
     }
 
-    const startTime = performance.now();
+    let lastTime = performance.now();
+    let elapsed = 0;
     const difference = toScore - fromScore;
 
     const animate = (currentTime: number) => {
-      const elapsed = currentTime - startTime;
+      // Accumulate scaled frame deltas so the animation follows the bound channel
+      elapsed += applyTimeChannel(this.timeBinding, Math.max(0, currentTime - lastTime));
+      lastTime = currentTime;
       const progress = Math.min(elapsed / this.config.animationDuration!, 1);
 
       const currentValue = Math.round(fromScore + (difference * progress));
@@ -198,6 +204,15 @@ export class ScoreDisplay {
     }
   }
 
+  /**
+   * Opts the score animation into a time channel
+   * @param timeScale - Time scale providing the channel
+   * @param channel - Channel to follow (defaults to UI)
+   */
+  public useTimeChannel(timeScale: TimeScale, channel: TimeChannel = TimeChannel.UI): void {
+    this.timeBinding = { timeScale, channel };
+  }
+
   /**
    * Gets the current score
    * @returns {number} Current score
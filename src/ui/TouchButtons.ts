@@ -8,10 +8,13 @@
  * @version 1.0.0
  */
 
+import { Canvas } from '../engine/Canvas';
+
 // --- Types and Interfaces ---
 
 /**
- * Configuration options for virtual button
+ * Configuration options for virtual button.
+ * Position and size are in CSS pixels, or in logical canvas units when a canvas is attached.
  */
 interface ButtonConfig {
   id: string;
@@ -36,6 +39,7 @@ interface ButtonState {
   pressed: boolean;
   touchId: number | null;
   element: HTMLElement;
+  config: ButtonConfig;
 }
 
 // --- Main Class ---
@@ -47,14 +51,17 @@ export class TouchButtons {
   private readonly container: HTMLElement;
   private readonly buttons: Map<string, ButtonState>;
   private readonly handlers: Map<string, TouchHandler>;
+  private readonly canvas: Canvas | null;
   private isEnabled: boolean;
 
   /**
    * Creates a new TouchButtons instance
    * @param containerId - ID of the container element where buttons will be rendered
+   * @param canvas - Optional game canvas; buttons are then laid out in its logical units
+   * and follow it when it is resized
    * @throws Error if container element is not found
    */
-  constructor(containerId: string) {
+  constructor(containerId: string, canvas?: Canvas) {
     const container = document.getElementById(containerId);
     if (!container) {
       throw new Error(`Container element with id '${containerId}' not found`);
@@ -63,9 +70,12 @@ export class TouchButtons {
     this.container = container;
     this.buttons = new Map();
     this.handlers = new Map();
+    this.canvas = canvas ?? null;
     this.isEnabled = false;
 
+    this.layoutButtons = this.layoutButtons.bind(this);
     this.initializeContainer();
+    this.canvas?.addResizeListener(this.layoutButtons);
   }
 
   /**
@@ -99,10 +109,6 @@ export class TouchButtons {
     const button = document.createElement('div');
     button.id = config.id;
     button.style.position = 'absolute';
-    button.style.left = `${config.x}px`;
-    button.style.top = `${config.y}px`;
-    button.style.width = `${config.width}px`;
-    button.style.height = `${config.height}px`;
     button.style.opacity = `${config.opacity ?? 0.5}`;
     button.style.visibility = config.visible === false ? 'hidden' : 'visible';
     
@@ -115,11 +121,14 @@ export class TouchButtons {
 
     this.container.appendChild(button);
 
-    this.buttons.set(config.id, {
+    const buttonState: ButtonState = {
       pressed: false,
       touchId: null,
-      element: button
-    });
+      element: button,
+      config: { ...config }
+    };
+    this.buttons.set(config.id, buttonState);
+    this.positionButton(buttonState);
 
     this.setupButtonEventListeners(config.id);
   }
@@ -139,7 +148,7 @@ export class TouchButtons {
       if (!this.isEnabled) return;
       
       const touch = e.touches[0];
-      if (this.isPointInButton(touch.clientX, touch.clientY, element)) {
+      if (this.isPointInButton(touch.clientX, touch.clientY, buttonState)) {
         buttonState.pressed = true;
         buttonState.touchId = touch.identifier;
         this.handlers.get(buttonId)?.(e);
@@ -157,16 +166,62 @@ export class TouchButtons {
     });
   }
 
+  /**
+   * Places a button element on screen from its configured bounds
+   * @param buttonState - Button to position
+   * @private
+   */
+  private positionButton(buttonState: ButtonState): void {
+    const { element, config } = buttonState;
+
+    if (!this.canvas) {
+      element.style.left = `${config.x}px`;
+      element.style.top = `${config.y}px`;
+      element.style.width = `${config.width}px`;
+      element.style.height = `${config.height}px`;
+      return;
+    }
+
+    // Map logical bounds to page coordinates, then make them relative to the container
+    const containerRect = this.container.getBoundingClientRect();
+    const topLeft = this.canvas.worldToScreen(config.x, config.y);
+    const bottomRight = this.canvas.worldToScreen(config.x + config.width, config.y + config.height);
+
+    element.style.left = `${topLeft.x - containerRect.left}px`;
+    element.style.top = `${topLeft.y - containerRect.top}px`;
+    element.style.width = `${bottomRight.x - topLeft.x}px`;
+    element.style.height = `${bottomRight.y - topLeft.y}px`;
+  }
+
+  /**
+   * Repositions every button, e.g. after the canvas was refitted
+   * @private
+   */
+  private layoutButtons(): void {
+    this.buttons.forEach(buttonState => this.positionButton(buttonState));
+  }
+
   /**
    * Checks if a point is within a button's bounds
-   * @param x - X coordinate
-   * @param y - Y coordinate
-   * @param button - Button element
+   * @param x - X coordinate relative to the browser viewport
+   * @param y - Y coordinate relative to the browser viewport
+   * @param buttonState - Button to test
    * @returns boolean indicating if point is in button
    * @private
    */
-  private isPointInButton(x: number, y: number, button: HTMLElement): boolean {
-    const rect = button.getBoundingClientRect();
+  private isPointInButton(x: number, y: number, buttonState: ButtonState): boolean {
+    if (this.canvas) {
+      const point = this.canvas.screenToWorld(x, y);
+      const { config } = buttonState;
+      return (
+        point.x >= config.x &&
+        point.x <= config.x + config.width &&
+        point.y >= config.y &&
+        point.y <= config.y + config.height
+      );
+    }
+
+    const rect = buttonState.element.getBoundingClientRect();
     return (
       x >= rect.left &&
       x <= rect.right &&
@@ -214,6 +269,7 @@ export class TouchButtons {
    * Cleans up all buttons and event listeners
    */
   public dispose(): void {
+    this.canvas?.removeResizeListener(this.layoutButtons);
     this.buttons.forEach((state) => state.element.remove());
     this.buttons.clear();
     this.handlers.clear();
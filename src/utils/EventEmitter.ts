@@ -0,0 +1,59 @@
+/**
+ * @file EventEmitter.ts
+ * @description Minimal named-event emitter for game systems that notify several listeners
+ * @module utils/EventEmitter
+ */
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * Calls the listeners registered for an event name
+ */
+export class EventEmitter {
+    private readonly listeners: Map<string, Set<Listener>> = new Map();
+
+    /**
+     * Registers a listener for an event
+     * @param event Event name
+     * @param listener Function called with the emitted arguments
+     */
+    public on(event: string, listener: Listener): void {
+        let listeners = this.listeners.get(event);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(event, listeners);
+        }
+        listeners.add(listener);
+    }
+
+    /**
+     * Removes a listener from an event
+     * @param event Event name
+     * @param listener Function passed to on
+     */
+    public off(event: string, listener: Listener): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    /**
+     * Calls every listener of an event; a throwing listener does not stop the others
+     * @param event Event name
+     * @param args Arguments passed to the listeners
+     */
+    public emit(event: string, ...args: unknown[]): void {
+        this.listeners.get(event)?.forEach(listener => {
+            try {
+                listener(...args);
+            } catch (error) {
+                console.error(`Error in '${event}' listener:`, error);
+            }
+        });
+    }
+
+    /**
+     * Removes every listener
+     */
+    public clear(): void {
+        this.listeners.clear();
+    }
+}
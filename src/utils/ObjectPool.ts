@@ -0,0 +1,76 @@
+/**
+ * @file ObjectPool.ts
+ * @description Fixed-size pool of reusable objects. Objects are created once up front and
+ * recycled, so spawning projectiles and effects during play allocates nothing.
+ * @module utils/ObjectPool
+ */
+
+/**
+ * Pool handing out preallocated objects
+ */
+export class ObjectPool<T> {
+    private readonly available: T[];
+    private readonly active: Set<T>;
+
+    /**
+     * Creates a new ObjectPool
+     * @param factory Creates one pooled object
+     * @param size Number of objects in the pool
+     * @throws Error if the size is not a positive integer
+     */
+    constructor(factory: () => T, size: number) {
+        if (!Number.isInteger(size) || size <= 0) {
+            throw new Error('Pool size must be a positive integer');
+        }
+
+        this.available = Array.from({ length: size }, factory);
+        this.active = new Set();
+    }
+
+    /**
+     * Takes an object out of the pool
+     * @returns A free object, or null if every object is in use
+     */
+    public acquire(): T | null {
+        const object = this.available.pop();
+        if (object === undefined) {
+            return null;
+        }
+
+        this.active.add(object);
+        return object;
+    }
+
+    /**
+     * Returns an object to the pool; objects not taken from it are ignored
+     * @param object Object to return
+     */
+    public release(object: T): void {
+        if (this.active.delete(object)) {
+            this.available.push(object);
+        }
+    }
+
+    /**
+     * Gets the objects currently in use. The array is a copy, so objects may be
+     * released while iterating it.
+     */
+    public getActiveObjects(): T[] {
+        return Array.from(this.active);
+    }
+
+    /**
+     * Gets the number of objects in use
+     */
+    public getActiveCount(): number {
+        return this.active.size;
+    }
+
+    /**
+     * Returns every object in use to the pool
+     */
+    public clear(): void {
+        this.active.forEach(object => this.available.push(object));
+        this.active.clear();
+    }
+}
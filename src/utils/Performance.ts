@@ -0,0 +1,420 @@
+/**
+ * @file Performance.ts
+ * @description Shared frame profiler. Subsystems report how long each named phase takes
+ * (input, movement, collisions, particles, render, ...) into a ring buffer of recent frames,
+ * from which percentiles, worst-frame traces and JSON captures are produced. Phases may nest;
+ * each one is reported as self time, so nested phases are never counted twice.
+ * @module utils/Performance
+ */
+
+/**
+ * Percentile summary of a series of timings (in milliseconds)
+ */
+export interface PhaseStats {
+    samples: number;
+    mean: number;
+    p50: number;
+    p95: number;
+    p99: number;
+    max: number;
+}
+
+/**
+ * Timings recorded for one frame
+ */
+export interface FrameSample {
+    /** Sequential frame number since the profiler was created or reset */
+    frame: number;
+    /** Time at which the frame started (in milliseconds) */
+    startTime: number;
+    /** Total frame duration (in milliseconds) */
+    total: number;
+    /** Accumulated self time of each phase within the frame, excluding nested phases (in milliseconds) */
+    phases: Record<string, number>;
+}
+
+/**
+ * Serializable snapshot of the profiler contents
+ */
+export interface ProfilerCapture {
+    version: number;
+    capturedAt: string;
+    capacity: number;
+    frame: PhaseStats;
+    phases: Record<string, PhaseStats>;
+    worstFrames: FrameSample[];
+    frames: FrameSample[];
+}
+
+/**
+ * Configuration constants for the profiler
+ */
+const PROFILER_CONFIG = {
+    /** Number of frames kept in the ring buffer */
+    DEFAULT_CAPACITY: 300,
+    /** Number of worst frames included in captures */
+    WORST_FRAME_COUNT: 5,
+    /** Capture format version */
+    CAPTURE_VERSION: 1,
+} as const;
+
+/**
+ * Phase currently being timed
+ */
+interface OpenPhase {
+    phase: string;
+    start: number;
+    /** Time spent in phases nested inside this one (in milliseconds) */
+    childTime: number;
+}
+
+const EMPTY_STATS: PhaseStats = { samples: 0, mean: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+
+/**
+ * Records per-phase frame timings into a fixed-size ring buffer
+ */
+export class FrameProfiler {
+    private static instance: FrameProfiler;
+
+    private readonly capacity: number;
+    private readonly now: () => number;
+    private buffer: FrameSample[];
+    private writeIndex: number;
+    private frameCounter: number;
+    private currentFrame: FrameSample | null;
+    private openPhases: OpenPhase[];
+    private enabled: boolean;
+
+    /**
+     * Creates a new FrameProfiler
+     * @param capacity Number of frames to keep
+     * @param now Time source (in milliseconds)
+     */
+    constructor(capacity: number = PROFILER_CONFIG.DEFAULT_CAPACITY, now: () => number = () => performance.now()) {
+        if (!Number.isInteger(capacity) || capacity <= 0) {
+            throw new Error('Profiler capacity must be a positive integer');
+        }
+
+        this.capacity = capacity;
+        this.now = now;
+        this.buffer = [];
+        this.writeIndex = 0;
+        this.frameCounter = 0;
+        this.currentFrame = null;
+        this.openPhases = [];
+        this.enabled = true;
+    }
+
+    /**
+     * Gets the profiler shared by every subsystem
+     */
+    public static getInstance(): FrameProfiler {
+        if (!FrameProfiler.instance) {
+            FrameProfiler.instance = new FrameProfiler();
+        }
+        return FrameProfiler.instance;
+    }
+
+    /**
+     * Enables or disables recording
+     * @param enabled Whether timings should be recorded
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.currentFrame = null;
+            this.openPhases = [];
+        }
+    }
+
+    /**
+     * Checks whether recording is enabled
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Starts a new frame. Phases reported outside a frame are attributed to the next one.
+     */
+    public beginFrame(): void {
+        if (!this.enabled) return;
+
+        const pendingPhases = this.currentFrame ? this.currentFrame.phases : {};
+        this.currentFrame = {
+            frame: this.frameCounter++,
+            startTime: this.now(),
+            total: 0,
+            phases: pendingPhases
+        };
+    }
+
+    /**
+     * Finishes the current frame and stores it in the ring buffer
+     */
+    public endFrame(): void {
+        if (!this.enabled || !this.currentFrame) return;
+
+        const frame = this.currentFrame;
+        frame.total = this.now() - frame.startTime;
+
+        if (this.buffer.length < this.capacity) {
+            this.buffer.push(frame);
+        } else {
+            this.buffer[this.writeIndex] = frame;
+        }
+        this.writeIndex = (this.writeIndex + 1) % this.capacity;
+        this.currentFrame = null;
+    }
+
+    /**
+     * Starts timing a phase. Phases begun while another is open are nested inside it.
+     * @param phase Phase name
+     */
+    public begin(phase: string): void {
+        if (!this.enabled) return;
+        this.openPhases.push({ phase, start: this.now(), childTime: 0 });
+    }
+
+    /**
+     * Stops timing a phase and adds its self time to the current frame.
+     * Phases still open inside it are ended with it.
+     * @param phase Phase name
+     */
+    public end(phase: string): void {
+        if (!this.enabled) return;
+
+        let index = -1;
+        for (let i = this.openPhases.length - 1; i >= 0; i--) {
+            if (this.openPhases[i].phase === phase) {
+                index = i;
+                break;
+            }
+        }
+        if (index === -1) {
+            return;
+        }
+
+        const now = this.now();
+        while (this.openPhases.length > index) {
+            const open = this.openPhases.pop() as OpenPhase;
+            const duration = now - open.start;
+            this.addDuration(open.phase, duration - open.childTime);
+            this.addChildTime(duration);
+        }
+    }
+
+    /**
+     * Times a function as a phase
+     * @param phase Phase name
+     * @param fn Function to time
+     * @returns The function's return value
+     */
+    public measure<T>(phase: string, fn: () => T): T {
+        this.begin(phase);
+        try {
+            return fn();
+        } finally {
+            this.end(phase);
+        }
+    }
+
+    /**
+     * Adds an externally measured duration to the current frame. When reported inside an
+     * open phase, the duration is subtracted from that phase's self time.
+     * @param phase Phase name
+     * @param duration Duration in milliseconds
+     */
+    public record(phase: string, duration: number): void {
+        if (!this.enabled) return;
+
+        this.addDuration(phase, duration);
+        this.addChildTime(duration);
+    }
+
+    /**
+     * Gets the recorded frames, oldest first
+     */
+    public getFrames(): FrameSample[] {
+        if (this.buffer.length < this.capacity) {
+            return [...this.buffer];
+        }
+        return [...this.buffer.slice(this.writeIndex), ...this.buffer.slice(0, this.writeIndex)];
+    }
+
+    /**
+     * Gets percentile statistics for one phase
+     * @param phase Phase name
+     */
+    public getPhaseStats(phase: string): PhaseStats {
+        const values: number[] = [];
+        for (const frame of this.buffer) {
+            const value = frame.phases[phase];
+            if (value !== undefined) {
+                values.push(value);
+            }
+        }
+        return computeStats(values);
+    }
+
+    /**
+     * Gets percentile statistics for whole frames
+     */
+    public getFrameStats(): PhaseStats {
+        return computeStats(this.buffer.map(frame => frame.total));
+    }
+
+    /**
+     * Gets percentile statistics for every phase seen in the buffer
+     */
+    public getSummary(): Record<string, PhaseStats> {
+        const names = new Set<string>();
+        for (const frame of this.buffer) {
+            Object.keys(frame.phases).forEach(name => names.add(name));
+        }
+
+        const summary: Record<string, PhaseStats> = {};
+        names.forEach(name => {
+            summary[name] = this.getPhaseStats(name);
+        });
+        return summary;
+    }
+
+    /**
+     * Gets the slowest recorded frames with their phase breakdown
+     * @param count Number of frames to return
+     */
+    public getWorstFrames(count: number = PROFILER_CONFIG.WORST_FRAME_COUNT): FrameSample[] {
+        return [...this.buffer]
+            .sort((a, b) => b.total - a.total)
+            .slice(0, count)
+            .map(frame => ({ ...frame, phases: { ...frame.phases } }));
+    }
+
+    /**
+     * Exports the buffer and its statistics as a JSON capture
+     * @returns JSON string
+     */
+    public exportCapture(): string {
+        const capture: ProfilerCapture = {
+            version: PROFILER_CONFIG.CAPTURE_VERSION,
+            capturedAt: new Date().toISOString(),
+            capacity: this.capacity,
+            frame: this.getFrameStats(),
+            phases: this.getSummary(),
+            worstFrames: this.getWorstFrames(),
+            frames: this.getFrames()
+        };
+        return JSON.stringify(capture);
+    }
+
+    /**
+     * Clears every recorded frame
+     */
+    public reset(): void {
+        this.buffer = [];
+        this.writeIndex = 0;
+        this.frameCounter = 0;
+        this.currentFrame = null;
+        this.openPhases = [];
+    }
+
+    /**
+     * Adds a duration to a phase of the current frame
+     * @param phase Phase name
+     * @param duration Duration in milliseconds
+     */
+    private addDuration(phase: string, duration: number): void {
+        if (!this.currentFrame) {
+            this.currentFrame = {
+                frame: this.frameCounter,
+                startTime: this.now(),
+                total: 0,
+                phases: {}
+            };
+        }
+
+        const phases = this.currentFrame.phases;
+        phases[phase] = (phases[phase] ?? 0) + duration;
+    }
+
+    /**
+     * Charges a nested duration to the innermost open phase
+     * @param duration Duration in milliseconds
+     */
+    private addChildTime(duration: number): void {
+        const parent = this.openPhases[this.openPhases.length - 1];
+        if (parent) {
+            parent.childTime += duration;
+        }
+    }
+}
+
+/**
+ * Lightweight measurement helper that reports into the shared profiler
+ */
+export class Performance {
+    private readonly profiler: FrameProfiler;
+    private readonly measured: Set<string>;
+
+    /**
+     * Creates a new Performance helper
+     * @param profiler Profiler to report into (defaults to the shared instance)
+     */
+    constructor(profiler: FrameProfiler = FrameProfiler.getInstance()) {
+        this.profiler = profiler;
+        this.measured = new Set();
+    }
+
+    /**
+     * Starts measuring a named phase
+     * @param name Phase name
+     */
+    public startMeasurement(name: string): void {
+        this.measured.add(name);
+        this.profiler.begin(name);
+    }
+
+    /**
+     * Stops measuring a named phase
+     * @param name Phase name
+     */
+    public endMeasurement(name: string): void {
+        this.profiler.end(name);
+    }
+
+    /**
+     * Gets statistics for the phases measured through this helper
+     * @returns Map of phase name to statistics
+     */
+    public getMetrics(): Record<string, PhaseStats> {
+        const metrics: Record<string, PhaseStats> = {};
+        this.measured.forEach(name => {
+            metrics[name] = this.profiler.getPhaseStats(name);
+        });
+        return metrics;
+    }
+}
+
+/**
+ * Computes nearest-rank percentile statistics
+ * @param values Timings in milliseconds
+ */
+function computeStats(values: number[]): PhaseStats {
+    if (values.length === 0) {
+        return { ...EMPTY_STATS };
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const percentile = (p: number): number =>
+        sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+
+    return {
+        samples: sorted.length,
+        mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+        p50: percentile(0.5),
+        p95: percentile(0.95),
+        p99: percentile(0.99),
+        max: sorted[sorted.length - 1]
+    };
+}
@@ -0,0 +1,78 @@
+/**
+ * @file Random.ts
+ * @description Seeded pseudo-random number generator (mulberry32). Produces the same sequence
+ * for the same seed, so scenes, spawn patterns and tests can be reproduced exactly.
+ * @module utils/Random
+ */
+
+/**
+ * Deterministic random number generator
+ */
+export class Random {
+    private readonly seed: number;
+    private state: number;
+
+    /**
+     * Creates a new Random generator
+     * @param seed Integer seed; equal seeds produce equal sequences
+     */
+    constructor(seed: number = Date.now()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Returns the next value in [0, 1)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Returns a value in [min, max)
+     * @param min Lower bound (inclusive)
+     * @param max Upper bound (exclusive)
+     */
+    public range(min: number, max: number): number {
+        return min + (max - min) * this.next();
+    }
+
+    /**
+     * Returns an integer in [min, max]
+     * @param min Lower bound (inclusive)
+     * @param max Upper bound (inclusive)
+     */
+    public int(min: number, max: number): number {
+        return Math.floor(this.range(min, max + 1));
+    }
+
+    /**
+     * Returns a random element of an array
+     * @param items Array to pick from
+     * @throws Error if the array is empty
+     */
+    public pick<T>(items: readonly T[]): T {
+        if (items.length === 0) {
+            throw new Error('Cannot pick from an empty array');
+        }
+        return items[this.int(0, items.length - 1)];
+    }
+
+    /**
+     * Gets the seed this generator was created with
+     */
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Restarts the sequence from the seed
+     */
+    public reset(): void {
+        this.state = this.seed;
+    }
+}
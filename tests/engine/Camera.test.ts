@@ -0,0 +1,54 @@
+/**
+ * @file Camera.test.ts
+ * @description Tests for the camera transform and its view/world conversion
+ * @module tests/engine
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Camera } from '../../src/engine/Camera';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 600;
+
+/**
+ * Applies a camera to a fresh context and returns the resulting matrix
+ */
+function transformOf(camera: Camera): DOMMatrix {
+    const ctx = createSoftwareCanvas(VIEW_WIDTH, VIEW_HEIGHT).getContext('2d')!;
+    camera.applyTransform(ctx, VIEW_WIDTH, VIEW_HEIGHT);
+    return ctx.getTransform();
+}
+
+describe('Camera', () => {
+    test('should leave the world in place by default', () => {
+        const matrix = transformOf(new Camera(0, 0, { reducedMotion: false }));
+
+        expect([matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f]).toEqual([1, 0, 0, 1, 0, 0]);
+    });
+
+    test('should scroll by its position and zoom around the view center', () => {
+        const camera = new Camera(100, 50, { reducedMotion: false });
+        camera.setZoom(2);
+        const matrix = transformOf(camera);
+
+        // The world point under the view center stays there
+        const center = camera.viewToWorld(VIEW_WIDTH / 2, VIEW_HEIGHT / 2, VIEW_WIDTH, VIEW_HEIGHT);
+        expect(center).toEqual({ x: 500, y: 350 });
+        expect(matrix.a * center.x + matrix.e).toBeCloseTo(VIEW_WIDTH / 2);
+        expect(matrix.d * center.y + matrix.f).toBeCloseTo(VIEW_HEIGHT / 2);
+
+        const corner = camera.viewToWorld(0, 0, VIEW_WIDTH, VIEW_HEIGHT);
+        expect(matrix.a * corner.x + matrix.e).toBeCloseTo(0);
+        expect(matrix.d * corner.y + matrix.f).toBeCloseTo(0);
+    });
+
+    test('should decay shake trauma as it updates', () => {
+        const camera = new Camera(0, 0, { reducedMotion: false, traumaDecay: 1 });
+        camera.addTrauma(1);
+
+        camera.update(500);
+
+        expect(camera.getTrauma()).toBeCloseTo(0.5);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * @file Canvas.test.ts
+ * @description Tests for fitting the logical resolution into windows wider and taller than it,
+ * the backing store size, the mapping between page and logical coordinates and advancing
+ * the camera on the injected clock
+ * @module tests/engine
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Canvas, CanvasViewport } from '../../src/engine/Canvas';
+import { Camera } from '../../src/engine/Camera';
+import { ManualClock } from '../../src/engine/Clock';
+import { Easing } from '../../src/engine/Easing';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+/**
+ * Window standing in for the browser viewport
+ */
+interface FakeWindow extends EventTarget {
+    innerWidth: number;
+    innerHeight: number;
+    devicePixelRatio: number;
+}
+
+/**
+ * Creates a software canvas with the element members Canvas uses. It reports no layout
+ * box, so coordinate mapping falls back to the computed viewport.
+ */
+function createCanvasElement(): HTMLCanvasElement {
+    return Object.assign(createSoftwareCanvas(1, 1), {
+        id: '',
+        style: {} as Record<string, string>,
+        remove: () => undefined,
+        getBoundingClientRect: () => ({ left: 0, top: 0, width: 0, height: 0 })
+    }) as unknown as HTMLCanvasElement;
+}
+
+describe('Canvas', () => {
+    let fakeWindow: FakeWindow;
+    let canvas: Canvas;
+
+    const resizeWindow = (innerWidth: number, innerHeight: number) => {
+        Object.assign(fakeWindow, { innerWidth, innerHeight });
+        fakeWindow.dispatchEvent(new Event('resize'));
+    };
+
+    beforeEach(() => {
+        fakeWindow = Object.assign(new EventTarget(), { innerWidth: 800, innerHeight: 600, devicePixelRatio: 1 });
+        (globalThis as { window?: unknown }).window = fakeWindow;
+        (globalThis as { document?: unknown }).document = {
+            body: { appendChild: () => undefined },
+            createElement: createCanvasElement
+        };
+
+        canvas = new Canvas({ layers: [] });
+    });
+
+    afterEach(() => {
+        canvas.dispose();
+        delete (globalThis as { window?: unknown }).window;
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should pillarbox a window wider than the logical aspect ratio', () => {
+        fakeWindow.innerWidth = 2000;
+        fakeWindow.innerHeight = 900;
+        canvas.init();
+
+        expect(canvas.getViewport()).toEqual({ x: 400, y: 0, width: 1200, height: 900, scale: 1.5 });
+        const element = canvas.getCanvas()!;
+        expect(element.style.left).toBe('400px');
+        expect(element.style.top).toBe('0px');
+        expect(element.style.width).toBe('1200px');
+    });
+
+    test('should letterbox a window taller than the logical aspect ratio', () => {
+        fakeWindow.innerWidth = 1000;
+        fakeWindow.innerHeight = 1000;
+        canvas.init();
+
+        expect(canvas.getViewport()).toEqual({ x: 0, y: 125, width: 1000, height: 750, scale: 1.25 });
+        expect(canvas.getCanvas()!.style.top).toBe('125px');
+    });
+
+    test('should size the backing store for the device pixel ratio up to its cap', () => {
+        fakeWindow.innerWidth = 1000;
+        fakeWindow.innerHeight = 1000;
+        fakeWindow.devicePixelRatio = 3;
+        canvas.init();
+
+        const element = canvas.getCanvas()!;
+        expect([element.width, element.height]).toEqual([2000, 1500]);
+        expect(element.style.height).toBe('750px');
+
+        const transform = canvas.getContext()!.getTransform();
+        expect([transform.a, transform.d]).toEqual([2.5, 2.5]);
+    });
+
+    test('should refit and notify listeners when the window resizes', () => {
+        canvas.init();
+        const listener = jest.fn<(viewport: CanvasViewport) => void>();
+        canvas.addResizeListener(listener);
+
+        resizeWindow(1600, 1500);
+
+        expect(listener).toHaveBeenCalledWith({ x: 0, y: 150, width: 1600, height: 1200, scale: 2 });
+    });
+
+    test('should map page coordinates into logical units across the bars', () => {
+        fakeWindow.innerWidth = 2000;
+        fakeWindow.innerHeight = 900;
+        canvas.init();
+
+        expect(canvas.screenToWorld(400, 0)).toEqual({ x: 0, y: 0 });
+        expect(canvas.screenToWorld(1600, 900)).toEqual({ x: 800, y: 600 });
+        expect(canvas.screenToWorld(100, 450)).toEqual({ x: -200, y: 300 });
+        expect(canvas.worldToScreen(400, 300)).toEqual({ x: 1000, y: 450 });
+    });
+
+    test('should map through the letterbox of a taller window and back', () => {
+        fakeWindow.innerWidth = 1000;
+        fakeWindow.innerHeight = 1000;
+        canvas.init();
+
+        expect(canvas.worldToScreen(0, 600)).toEqual({ x: 0, y: 875 });
+        const world = canvas.screenToWorld(250, 500);
+        expect(world).toEqual({ x: 200, y: 300 });
+        expect(canvas.worldToScreen(world.x, world.y)).toEqual({ x: 250, y: 500 });
+    });
+
+    test('should prefer the canvas layout box when the page reports one', () => {
+        canvas.init();
+        const element = canvas.getCanvas()!;
+        element.getBoundingClientRect = () => ({ left: 10, top: 20, width: 400, height: 300 }) as DOMRect;
+
+        expect(canvas.screenToWorld(210, 170)).toEqual({ x: 400, y: 300 });
+    });
+
+    test('should advance the camera by the injected clock\'s time between renders', () => {
+        const clock = new ManualClock();
+        canvas = new Canvas({ layers: [], clock });
+        canvas.init();
+        const camera = new Camera(0, 0, { reducedMotion: true });
+        canvas.setCamera(camera);
+        camera.panTo(100, 0, 200, Easing.linear);
+
+        canvas.render();
+        clock.advance(50);
+        canvas.render();
+        expect(camera.getPosition().x).toBeCloseTo(25);
+
+        clock.advance(150);
+        canvas.render();
+        expect(camera.getPosition().x).toBeCloseTo(100);
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * @file CanvasLayer.test.ts
+ * @description Tests for the layer clear policies and the dirty flag
+ * @module tests/engine
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { CanvasLayer, LayerClearPolicy, LayerRenderCallback } from '../../src/engine/CanvasLayer';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+const SIZE = 8;
+
+describe('CanvasLayer', () => {
+    let frame: number;
+    let renderer: jest.Mock<LayerRenderCallback>;
+
+    /**
+     * Creates a layer whose renderer fills the pixel in the column of the current frame
+     */
+    const createLayer = (clearPolicy: LayerClearPolicy): CanvasLayer => {
+        const layer = new CanvasLayer({ name: 'test', zIndex: 0, clearPolicy });
+        layer.resize(SIZE, SIZE, SIZE, SIZE);
+        layer.setRenderer(renderer);
+        return layer;
+    };
+
+    /**
+     * Lists the columns of the top row holding a drawn pixel
+     */
+    const getDrawnColumns = (layer: CanvasLayer): number[] => {
+        const { data } = layer.getContext().getImageData(0, 0, SIZE, 1);
+        const columns: number[] = [];
+        for (let x = 0; x < SIZE; x++) {
+            if (data[x * 4 + 3] > 0) {
+                columns.push(x);
+            }
+        }
+        return columns;
+    };
+
+    beforeEach(() => {
+        (globalThis as { document?: unknown }).document = { createElement: () => createSoftwareCanvas(1, 1) };
+        frame = 0;
+        renderer = jest.fn<LayerRenderCallback>(ctx => {
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(frame, 0, 1, 1);
+        });
+    });
+
+    afterEach(() => {
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should clear and redraw an ALWAYS layer every frame', () => {
+        const layer = createLayer(LayerClearPolicy.ALWAYS);
+
+        expect(layer.update()).toBe(true);
+        frame++;
+        expect(layer.update()).toBe(true);
+
+        expect(renderer).toHaveBeenCalledTimes(2);
+        expect(getDrawnColumns(layer)).toEqual([1]);
+        expect(layer.isDirty()).toBe(true);
+    });
+
+    test('should redraw a NEVER layer every frame without clearing it', () => {
+        const layer = createLayer(LayerClearPolicy.NEVER);
+
+        layer.update();
+        frame++;
+        layer.update();
+
+        expect(renderer).toHaveBeenCalledTimes(2);
+        expect(getDrawnColumns(layer)).toEqual([0, 1]);
+    });
+
+    test('should only redraw a DIRTY layer after it is marked dirty', () => {
+        const layer = createLayer(LayerClearPolicy.DIRTY);
+
+        expect(layer.update()).toBe(true);
+        frame++;
+        expect(layer.update()).toBe(false);
+        expect(renderer).toHaveBeenCalledTimes(1);
+        expect(getDrawnColumns(layer)).toEqual([0]);
+
+        layer.markDirty();
+        expect(layer.update()).toBe(true);
+        expect(renderer).toHaveBeenCalledTimes(2);
+        expect(getDrawnColumns(layer)).toEqual([1]);
+    });
+
+    test('should reset the dirty flag once a DIRTY layer is drawn', () => {
+        const layer = createLayer(LayerClearPolicy.DIRTY);
+        expect(layer.isDirty()).toBe(true);
+
+        layer.update();
+        expect(layer.isDirty()).toBe(false);
+
+        layer.markDirty();
+        expect(layer.isDirty()).toBe(true);
+        layer.update();
+        expect(layer.isDirty()).toBe(false);
+    });
+
+    test('should mark a DIRTY layer for redraw when its buffer is resized or its policy changes', () => {
+        const layer = createLayer(LayerClearPolicy.DIRTY);
+        layer.update();
+
+        layer.resize(SIZE * 2, SIZE * 2, SIZE, SIZE);
+        expect(layer.isDirty()).toBe(true);
+        layer.update();
+
+        layer.setClearPolicy(LayerClearPolicy.DIRTY);
+        expect(layer.isDirty()).toBe(true);
+    });
+});
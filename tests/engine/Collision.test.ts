@@ -0,0 +1,74 @@
+/**
+ * @file Collision.test.ts
+ * @description Tests for swept collision and ray-vs-box tests
+ * @module tests/engine
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { CollisionSystem } from '../../src/engine/Collision';
+import { CollisionMask } from '../../src/engine/CollisionMask';
+import { Projectile } from '../../src/entities/Projectile';
+
+describe('CollisionSystem sweeps', () => {
+    // A thin wall a fast bullet would step over between ticks
+    const wall = { x: 100, y: 0, width: 2, height: 50 };
+
+    test('should find the time of impact and normal of a ray', () => {
+        const result = CollisionSystem.raycastBox({ x: 0, y: 10 }, { x: 500, y: 0 }, wall);
+
+        expect(result.hit).toBe(true);
+        expect(result.time).toBeCloseTo(0.2);
+        expect(result.normal).toEqual({ x: -1, y: 0 });
+        expect(result.position).toEqual({ x: 100, y: 10 });
+    });
+
+    test('should miss when the segment stops short or passes beside the box', () => {
+        expect(CollisionSystem.raycastBox({ x: 0, y: 10 }, { x: 90, y: 0 }, wall).hit).toBe(false);
+        expect(CollisionSystem.raycastBox({ x: 0, y: 60 }, { x: 500, y: 0 }, wall).hit).toBe(false);
+        expect(CollisionSystem.raycastBox({ x: 101, y: 60 }, { x: 0, y: -5 }, wall).hit).toBe(false);
+    });
+
+    test('should report an immediate hit when starting inside', () => {
+        const result = CollisionSystem.raycastBox({ x: 101, y: 10 }, { x: 0, y: 20 }, wall);
+
+        expect(result).toMatchObject({ hit: true, time: 0, normal: { x: 0, y: 0 } });
+    });
+
+    test('should sweep a box through a thin target it would tunnel past', () => {
+        const bullet = { x: 98, y: 80, width: 4, height: 10 };
+        const delta = { x: 0, y: -200 };
+
+        expect(CollisionSystem.checkCollision({ ...bullet, y: bullet.y + delta.y }, wall).colliding).toBe(false);
+
+        const result = CollisionSystem.sweepBox(bullet, delta, wall);
+        expect(result.hit).toBe(true);
+        expect(result.time).toBeCloseTo(30 / 200);
+        expect(result.normal).toEqual({ x: 0, y: 1 });
+        expect(result.position).toEqual({ x: 98, y: 50 });
+    });
+
+    test('should step masks pixel by pixel across the whole overlap of a fast movement', () => {
+        // A 40px tall target whose only solid pixels are one row in the middle
+        const target = { x: 0, y: 0, width: 10, height: 40 };
+        const mask = new CollisionMask(10, 40);
+        for (let x = 0; x < 10; x++) {
+            mask.set(x, 20, true);
+        }
+
+        const bullet = { x: 4, y: 500, width: 2, height: 2 };
+        const result = CollisionSystem.checkSweptCollision(bullet, { x: 0, y: -1000 }, null, target, mask);
+
+        expect(result.colliding).toBe(true);
+        expect(result.contactPoint!.y).toBeCloseTo(20.5);
+        expect(result.time).toBeCloseTo((500 - 20) / 1000, 2);
+    });
+
+    test('should stop an entity projectile at the first target its last step crossed', () => {
+        const projectile = new Projectile({ x: 101, y: 200 }, { speed: 1000, damage: 1, range: 1000, direction: { x: 0, y: -1 } });
+        projectile.update(0.3);
+
+        expect(projectile.checkHit(wall, 'wall')).toBe(true);
+        expect(projectile.getPosition()).toEqual({ x: 101, y: 50 });
+        expect(projectile.isActive()).toBe(false);
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * @file CollisionMask.test.ts
+ * @description Tests for pixel mask overlap and mask-refined collision results
+ * @module tests/engine
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { CollisionMask } from '../../src/engine/CollisionMask';
+import { CollisionSystem } from '../../src/engine/Collision';
+import { BitmapDefinition, createBitmapSprite } from '../../src/engine/PixelArt';
+import { createSoftwareCanvas as canvasFactory } from '../helpers/softwareCanvas';
+
+// Hollow diamond: the corners of its box are empty
+const DIAMOND: BitmapDefinition = {
+    name: 'diamond',
+    palette: { '#': '#ffffff' },
+    frames: [[
+        '..#..',
+        '.#.#.',
+        '#...#',
+        '.#.#.',
+        '..#..'
+    ]]
+};
+
+describe('CollisionMask', () => {
+    test('should build masks from bitmaps at whole-pixel scale', () => {
+        const mask = CollisionMask.fromBitmap(DIAMOND, 0, 2);
+
+        expect(mask.width).toBe(10);
+        expect(mask.count()).toBe(8 * 4);
+        expect(mask.get(4, 0)).toBe(true);
+        expect(mask.get(0, 0)).toBe(false);
+    });
+
+    test('should build the same mask from sprite alpha as from the bitmap', () => {
+        const sprite = createBitmapSprite(DIAMOND, { scale: 3, canvasFactory });
+        const fromSprite = CollisionMask.fromSprite(sprite, { canvasFactory });
+        const fromBitmap = CollisionMask.fromBitmap(DIAMOND, 0, 3);
+
+        expect(fromSprite.count()).toBe(fromBitmap.count());
+        expect(fromSprite.firstOverlap(fromBitmap, 0, 0)).toEqual({ x: 6, y: 0 });
+        expect(CollisionMask.fromSprite(sprite, { canvasFactory })).toBe(fromSprite);
+    });
+
+    test('should find the first overlapping pixel across word boundaries', () => {
+        const wide = new CollisionMask(70, 3);
+        wide.set(66, 2, true);
+        wide.set(40, 1, true);
+        const dot = CollisionMask.solid(1, 1);
+
+        expect(wide.firstOverlap(dot, 40, 1)).toEqual({ x: 40, y: 1 });
+        expect(wide.firstOverlap(dot, 41, 1)).toBeNull();
+        expect(dot.firstOverlap(wide, -66, -2)).toEqual({ x: 0, y: 0 });
+
+        const bar = CollisionMask.solid(40, 3);
+        expect(wide.firstOverlap(bar, 30, 0)).toEqual({ x: 40, y: 1 });
+        expect(wide.firstOverlap(bar, -35, 0)).toBeNull();
+    });
+
+    test('should ignore hits in the empty corners of the bounding box', () => {
+        const mask = CollisionMask.fromBitmap(DIAMOND);
+        const target = { x: 100, y: 50, width: 5, height: 5 };
+        const bullet = { x: 100, y: 50, width: 1, height: 1 };
+
+        expect(CollisionSystem.checkCollision(bullet, target).colliding).toBe(true);
+        expect(CollisionSystem.checkMaskCollision(bullet, null, target, mask).colliding).toBe(false);
+
+        const hit = CollisionSystem.checkMaskCollision({ ...bullet, x: 102 }, null, target, mask);
+        expect(hit.colliding).toBe(true);
+        expect(hit.contactPoint).toEqual({ x: 102.5, y: 50.5 });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * @file CollisionShapes.test.ts
+ * @description Tests for SAT collisions between circles, capsules and convex polygons
+ * @module tests/engine
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { CollisionResult, CollisionSystem } from '../../src/engine/Collision';
+import {
+    CollisionShape,
+    createBoxPolygon,
+    createCapsule,
+    createCircle,
+    createPolygon,
+    transformPolygon
+} from '../../src/engine/CollisionShapes';
+import { CollisionLayer, CollisionWorld } from '../../src/engine/CollisionWorld';
+
+const expectPoint = (actual: { x: number; y: number } | undefined, x: number, y: number) => {
+    expect(actual?.x).toBeCloseTo(x);
+    expect(actual?.y).toBeCloseTo(y);
+};
+
+/**
+ * Moves a circle by the MTV of a result
+ */
+const separate = (shape: CollisionShape, result: CollisionResult): CollisionShape => {
+    if (shape.type !== 'circle' || !result.mtv) return shape;
+    return createCircle(shape.center.x + result.mtv.x, shape.center.y + result.mtv.y, shape.radius);
+};
+
+describe('CollisionShapes', () => {
+    test('should report the normal, MTV and contact point of overlapping circles', () => {
+        const a = createCircle(0, 0, 5);
+        const b = createCircle(8, 0, 5);
+
+        const result = CollisionSystem.checkShapeCollision(a, b);
+
+        expect(result.colliding).toBe(true);
+        expectPoint(result.normal, 1, 0);
+        expectPoint(result.mtv, -2, 0);
+        expectPoint(result.contactPoint, 4, 0);
+        expect(result.direction?.horizontal).toBe('right');
+    });
+
+    test('should miss a circle in the empty corner of a box it overlaps as an AABB', () => {
+        const box = createBoxPolygon({ x: 0, y: 0, width: 10, height: 10 });
+        const corner = createCircle(13, 13, 4);
+
+        expect(CollisionSystem.checkShapeCollision(corner, box).colliding).toBe(false);
+
+        const touching = createCircle(12, 12, 4);
+        const result = CollisionSystem.checkShapeCollision(touching, box);
+        expect(result.colliding).toBe(true);
+        expectPoint(result.normal, -Math.SQRT1_2, -Math.SQRT1_2);
+        expect(CollisionSystem.checkShapeCollision(separate(touching, result), box).mtv?.x).toBeCloseTo(0);
+    });
+
+    test('should use the closest point on a capsule rather than its middle', () => {
+        const beam = createCapsule({ x: 0, y: 0 }, { x: 100, y: 0 }, 8);
+        const ball = createCircle(90, 10, 5);
+
+        const result = CollisionSystem.checkShapeCollision(beam, ball);
+
+        expectPoint(result.normal, 0, 1);
+        expectPoint(result.mtv, 0, -3);
+        expectPoint(result.contactPoint, 90, 6.5);
+        expect(CollisionSystem.checkShapeCollision(beam, createCircle(112, 0, 3)).colliding).toBe(false);
+    });
+
+    test('should separate rotated polygons along their edge normals', () => {
+        const square = [{ x: -5, y: -5 }, { x: 5, y: -5 }, { x: 5, y: 5 }, { x: -5, y: 5 }];
+        const diamond = transformPolygon(square, { x: 0, y: 0 }, Math.PI / 4);
+        const wall = createBoxPolygon({ x: 6, y: -20, width: 10, height: 40 });
+
+        // The diamond's right corner reaches x = 7.07
+        const result = CollisionSystem.checkShapeCollision(diamond, wall);
+        expect(result.colliding).toBe(true);
+        expectPoint(result.mtv, 6 - 5 * Math.SQRT2, 0);
+        expectPoint(result.contactPoint, (6 + 5 * Math.SQRT2) / 2, 0);
+
+        expect(CollisionSystem.checkShapeCollision(transformPolygon(square, { x: -1.5, y: 0 }), wall).colliding).toBe(false);
+        expect(() => createPolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 2, y: 2 }, { x: 0, y: 10 }])).toThrow('convex');
+    });
+
+    test('should refine broadphase hits in a CollisionWorld with body shapes', () => {
+        const world = new CollisionWorld();
+        const hits: string[] = [];
+        world.add({
+            layer: CollisionLayer.ENEMY,
+            owner: 'boss',
+            getBounds: () => ({ x: 0, y: 0, width: 20, height: 20 }),
+            getShape: () => createCircle(10, 10, 10)
+        });
+        const shot = { x: 0, y: 0 };
+        world.add({
+            layer: CollisionLayer.PLAYER_SHOT,
+            owner: 'shot',
+            getBounds: () => ({ ...shot, width: 2, height: 2 })
+        });
+        world.subscribe<string, string>(CollisionLayer.PLAYER_SHOT, CollisionLayer.ENEMY, {
+            enter: event => hits.push(`${event.a.owner}>${event.b.owner}`)
+        });
+
+        world.step();
+        expect(hits).toEqual([]);
+
+        shot.x = 9;
+        world.step();
+        expect(hits).toEqual(['shot>boss']);
+    });
+});
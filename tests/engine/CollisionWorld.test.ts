@@ -0,0 +1,100 @@
+/**
+ * @file CollisionWorld.test.ts
+ * @description Tests for layer filtering, swept contacts and enter/stay/exit events
+ * @module tests/engine
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { BoundingBox } from '../../src/engine/Collision';
+import { CollisionEvent, CollisionLayer, CollisionWorld } from '../../src/engine/CollisionWorld';
+
+interface TestObject {
+    name: string;
+    box: BoundingBox;
+    previous?: BoundingBox;
+}
+
+describe('CollisionWorld', () => {
+    let world: CollisionWorld;
+    let events: string[];
+
+    const addObject = (world: CollisionWorld, layer: CollisionLayer, object: TestObject) =>
+        world.add({
+            layer,
+            owner: object,
+            getBounds: () => object.box,
+            getPreviousBounds: object.previous ? () => object.previous as BoundingBox : undefined
+        });
+
+    const record = (event: CollisionEvent<TestObject, TestObject>) => {
+        events.push(`${event.phase}:${event.a.owner.name}>${event.b.owner.name}`);
+    };
+
+    beforeEach(() => {
+        world = new CollisionWorld();
+        events = [];
+    });
+
+    test('should dispatch enter, stay and exit as contacts change', () => {
+        const player = { name: 'player', box: { x: 0, y: 0, width: 10, height: 10 } };
+        const enemy = { name: 'enemy', box: { x: 5, y: 5, width: 10, height: 10 } };
+        addObject(world, CollisionLayer.PLAYER, player);
+        const enemyBody = addObject(world, CollisionLayer.ENEMY, enemy);
+        world.subscribe(CollisionLayer.ENEMY, CollisionLayer.PLAYER, { enter: record, stay: record, exit: record });
+
+        world.step();
+        world.step();
+        enemy.box = { ...enemy.box, x: 50 };
+        world.step();
+        world.step();
+        enemy.box = { ...enemy.box, x: 5 };
+        world.step();
+        world.remove(enemyBody);
+        world.step();
+
+        expect(events).toEqual([
+            'enter:enemy>player',
+            'stay:enemy>player',
+            'exit:enemy>player',
+            'enter:enemy>player',
+            'exit:enemy>player'
+        ]);
+    });
+
+    test('should only collide layers whose masks include each other', () => {
+        const enemy = { name: 'enemy', box: { x: 0, y: 0, width: 10, height: 10 } };
+        const enemyShot = { name: 'enemyShot', box: { x: 2, y: 2, width: 2, height: 6 } };
+        const playerShot = { name: 'playerShot', box: { x: 6, y: 2, width: 2, height: 6 } };
+        const enemyBody = addObject(world, CollisionLayer.ENEMY, enemy);
+        const enemyShotBody = addObject(world, CollisionLayer.ENEMY_SHOT, enemyShot);
+        addObject(world, CollisionLayer.PLAYER_SHOT, playerShot);
+        world.subscribe(CollisionLayer.PLAYER_SHOT, CollisionLayer.ENEMY, { enter: record });
+
+        world.step();
+
+        expect(world.isTouching(enemyBody, enemyShotBody)).toBe(false);
+        expect(events).toEqual(['enter:playerShot>enemy']);
+    });
+
+    test('should catch fast bodies that pass through a target between steps', () => {
+        const shield = { name: 'shield', box: { x: 100, y: 100, width: 20, height: 4 } };
+        const shot = {
+            name: 'shot',
+            previous: { x: 108, y: 200, width: 2, height: 8 },
+            box: { x: 108, y: 20, width: 2, height: 8 }
+        };
+        addObject(world, CollisionLayer.SHIELD, shield);
+        addObject(world, CollisionLayer.PLAYER_SHOT, shot);
+        let contact: CollisionEvent<TestObject, TestObject> | null = null;
+        world.subscribe<TestObject, TestObject>(CollisionLayer.PLAYER_SHOT, CollisionLayer.SHIELD, {
+            enter: event => { contact = event; }
+        });
+
+        world.step();
+
+        expect(contact).not.toBeNull();
+        // The shot meets the underside of the shield, in world space
+        expect(contact!.contactPoint!.x).toBeCloseTo(109);
+        expect(contact!.contactPoint!.y).toBeCloseTo(104);
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * @file GameLoop.test.ts
+ * @description Test suite for headless stepping of the game loop through a manual clock
+ * @module tests/engine
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { GameLoop } from '../../src/engine/GameLoop';
+import { ManualClock } from '../../src/engine/Clock';
+import { Time } from '../../src/engine/Time';
+
+describe('GameLoop', () => {
+    let clock: ManualClock;
+    const update = jest.fn();
+    const render = jest.fn();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        clock = new ManualClock(1000 / 60);
+    });
+
+    describe('Manual Clock Stepping', () => {
+        test('should run one fixed update per stepped frame', () => {
+            const loop = new GameLoop({ update, render }, { clock });
+            loop.start();
+
+            clock.step(10);
+
+            expect(update).toHaveBeenCalledTimes(10);
+            expect(render).toHaveBeenCalledTimes(10);
+            expect(update).toHaveBeenCalledWith(1000 / 60);
+        });
+
+        test('should run 10,000 fixed updates deterministically', () => {
+            let simulatedTime = 0;
+            const loop = new GameLoop({
+                update: (deltaTime: number) => { simulatedTime += deltaTime; },
+                render
+            }, { clock });
+            loop.start();
+
+            clock.step(10000);
+
+            expect(simulatedTime).toBeCloseTo(10000 * (1000 / 60), 3);
+        });
+
+        test('should catch up with several updates when a frame is long', () => {
+            const loop = new GameLoop({ update, render }, { clock, fps: 60 });
+            loop.start();
+
+            clock.advance(40);
+
+            expect(update).toHaveBeenCalledTimes(2);
+            expect(render).toHaveBeenCalledTimes(1);
+        });
+
+        test('should stop scheduling frames once stopped', () => {
+            const loop = new GameLoop({ update, render }, { clock });
+            loop.start();
+            clock.step(2);
+
+            loop.stop();
+            clock.step(5);
+
+            expect(update).toHaveBeenCalledTimes(2);
+            expect(clock.getPendingFrameCount()).toBe(0);
+        });
+    });
+
+    describe('Frame Advance', () => {
+        test('should keep rendering but skip updates while paused', () => {
+            const loop = new GameLoop({ update, render }, { clock });
+            loop.start();
+            loop.setSimulationPaused(true);
+
+            clock.step(5);
+
+            expect(update).not.toHaveBeenCalled();
+            expect(render).toHaveBeenCalledTimes(5);
+        });
+
+        test('should run exactly the requested number of steps', () => {
+            const loop = new GameLoop({ update, render }, { clock });
+            loop.start();
+            loop.setSimulationPaused(true);
+
+            loop.stepUpdates(3);
+            clock.step(4);
+
+            expect(update).toHaveBeenCalledTimes(3);
+        });
+
+        test('should run a quarter of the updates at quarter speed', () => {
+            const loop = new GameLoop({ update, render }, { clock });
+            loop.setPlaybackRate(0.25);
+            loop.start();
+
+            clock.step(40);
+
+            expect(update).toHaveBeenCalledTimes(10);
+        });
+    });
+
+    describe('Statistics', () => {
+        test('should report fps measured against the injected clock', () => {
+            const loop = new GameLoop({ update, render }, { clock, enableStats: true });
+            loop.start();
+
+            clock.step(61);
+
+            expect(loop.getStats().fps).toBeCloseTo(60, 0);
+        });
+    });
+
+    describe('Time', () => {
+        test('should read elapsed time from the injected clock', () => {
+            const time = new Time(1 / 60, clock);
+
+            clock.advance(500);
+            const state = time.update();
+
+            expect(state.deltaTime).toBeCloseTo(0.25);
+            expect(state.totalTime).toBeCloseTo(0.5);
+        });
+    });
+});
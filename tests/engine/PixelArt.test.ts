@@ -0,0 +1,70 @@
+/**
+ * @file PixelArt.test.ts
+ * @description Tests for rasterising ASCII bitmaps into sprite strips
+ * @module tests/engine
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createSoftwareCanvas as canvasFactory } from '../helpers/softwareCanvas';
+import { BitmapDefinition, clearBitmapCache, rasterizeBitmap } from '../../src/engine/PixelArt';
+
+const BLINKER: BitmapDefinition = {
+    name: 'blinker',
+    palette: { '#': '#ff0000', 'x': '#0000ff' },
+    frames: [
+        ['#.', '.x'],
+        ['.#', 'x.']
+    ]
+};
+
+/**
+ * Reads one pixel as [r, g, b, a]
+ */
+function pixelAt(image: HTMLCanvasElement, x: number, y: number): number[] {
+    return Array.from(image.getContext('2d')!.getImageData(x, y, 1, 1).data);
+}
+
+describe('PixelArt', () => {
+    beforeEach(() => {
+        clearBitmapCache();
+    });
+
+    test('should rasterise frames side by side at whole-pixel scale', () => {
+        const raster = rasterizeBitmap(BLINKER, { scale: 3, canvasFactory });
+
+        expect(raster).toMatchObject({ frameWidth: 6, frameHeight: 6, frameCount: 2 });
+        expect(raster.image.width).toBe(12);
+        expect(pixelAt(raster.image, 2, 2)).toEqual([255, 0, 0, 255]);
+        expect(pixelAt(raster.image, 3, 0)).toEqual([0, 0, 0, 0]);
+        expect(pixelAt(raster.image, 6 + 5, 5)).toEqual([0, 0, 0, 0]);
+        expect(pixelAt(raster.image, 6 + 0, 5)).toEqual([0, 0, 255, 255]);
+    });
+
+    test('should recolour per variant and share cached variants', () => {
+        const green = rasterizeBitmap(BLINKER, { palette: { '#': '#00ff00' }, variant: 'green', canvasFactory });
+        const again = rasterizeBitmap(BLINKER, { palette: { '#': '#00ff00' }, variant: 'green', canvasFactory });
+        const plain = rasterizeBitmap(BLINKER, { canvasFactory });
+
+        expect(pixelAt(green.image, 0, 0)).toEqual([0, 255, 0, 255]);
+        expect(pixelAt(plain.image, 0, 0)).toEqual([255, 0, 0, 255]);
+        expect(again).toBe(green);
+        expect(plain.textureKey).not.toBe(green.textureKey);
+    });
+
+    test('should not serve cached colours to a palette override without a variant', () => {
+        const plain = rasterizeBitmap(BLINKER, { canvasFactory });
+        const blue = rasterizeBitmap(BLINKER, { palette: { '#': '#0000ff' }, canvasFactory });
+
+        expect(blue).not.toBe(plain);
+        expect(pixelAt(blue.image, 0, 0)).toEqual([0, 0, 255, 255]);
+    });
+
+    test('should reject ragged frames, unknown colours and fractional scales', () => {
+        const ragged = { ...BLINKER, name: 'ragged', frames: [['#.', '.'], ['.#', 'x.']] };
+        const unknown = { ...BLINKER, name: 'unknown', frames: [['#?', '..']] };
+
+        expect(() => rasterizeBitmap(ragged, { canvasFactory })).toThrow(/row 1/);
+        expect(() => rasterizeBitmap(unknown, { canvasFactory })).toThrow(/'\?'/);
+        expect(() => rasterizeBitmap(BLINKER, { scale: 1.5, canvasFactory })).toThrow();
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * @file Scheduler.test.ts
+ * @description Test suite for the game-time scheduler
+ * @module tests/engine
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { GameScheduler } from '../../src/engine/Scheduler';
+
+describe('GameScheduler', () => {
+    let scheduler: GameScheduler;
+
+    beforeEach(() => {
+        scheduler = new GameScheduler();
+    });
+
+    describe('Delays', () => {
+        test('should fire a delayed callback once its game time has elapsed', () => {
+            const callback = jest.fn();
+            scheduler.delay(100, callback);
+
+            scheduler.tick(50);
+            expect(callback).not.toHaveBeenCalled();
+
+            scheduler.tick(50);
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(scheduler.getPendingCount()).toBe(0);
+        });
+
+        test('should fire callbacks in due-time order within one tick', () => {
+            const order: string[] = [];
+            scheduler.delay(30, () => order.push('late'));
+            scheduler.delay(10, () => order.push('early'));
+
+            scheduler.tick(100);
+
+            expect(order).toEqual(['early', 'late']);
+        });
+
+        test('should reject negative delays', () => {
+            expect(() => scheduler.delay(-1, jest.fn())).toThrow('Delay must be a non-negative finite number');
+        });
+    });
+
+    describe('Repeats and Sequences', () => {
+        test('should catch up on repeats when a tick spans several intervals', () => {
+            const callback = jest.fn();
+            scheduler.repeat(100, callback, { count: 5 });
+
+            scheduler.tick(350);
+            expect(callback).toHaveBeenCalledTimes(3);
+
+            scheduler.tick(1000);
+            expect(callback).toHaveBeenCalledTimes(5);
+        });
+
+        test('should run sequence steps relative to the previous step', () => {
+            const first = jest.fn();
+            const second = jest.fn();
+            scheduler.sequence([
+                { delay: 100, callback: first },
+                { delay: 100, callback: second }
+            ]);
+
+            scheduler.tick(150);
+            expect(first).toHaveBeenCalledTimes(1);
+            expect(second).not.toHaveBeenCalled();
+
+            scheduler.tick(50);
+            expect(second).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Cancellation and Pausing', () => {
+        test('should cancel every task with a tag', () => {
+            const tagged = jest.fn();
+            const untagged = jest.fn();
+            scheduler.delay(10, tagged, { tag: 'wave' });
+            scheduler.repeat(10, tagged, { tag: 'wave' });
+            scheduler.delay(10, untagged);
+
+            expect(scheduler.cancelByTag('wave')).toBe(2);
+            scheduler.tick(100);
+
+            expect(tagged).not.toHaveBeenCalled();
+            expect(untagged).toHaveBeenCalledTimes(1);
+        });
+
+        test('should freeze paused tags and resume with the remaining time', () => {
+            const callback = jest.fn();
+            const id = scheduler.delay(100, callback, { tag: 'wave' });
+
+            scheduler.tick(40);
+            scheduler.pause('wave');
+            scheduler.tick(1000);
+
+            expect(callback).not.toHaveBeenCalled();
+            expect(scheduler.getRemaining(id)).toBe(60);
+
+            scheduler.resume('wave');
+            scheduler.tick(60);
+            expect(callback).toHaveBeenCalledTimes(1);
+        });
+
+        test('should ignore ticks while globally paused', () => {
+            const callback = jest.fn();
+            scheduler.delay(10, callback);
+
+            scheduler.pause();
+            scheduler.tick(100);
+            expect(callback).not.toHaveBeenCalled();
+
+            scheduler.resume();
+            scheduler.tick(10);
+            expect(callback).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * @file SpriteAnimation.test.ts
+ * @description Tests for named sprite animation clips
+ * @module tests/engine
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { Sprite } from '../../src/engine/Sprite';
+import { AtlasImage } from '../../src/engine/TextureAtlas';
+
+describe('Sprite animation clips', () => {
+    let sprite: Sprite;
+
+    beforeEach(() => {
+        sprite = new Sprite({
+            image: { width: 64, height: 32 } as unknown as AtlasImage,
+            width: 16,
+            height: 16,
+            frameCount: 4,
+            clips: {
+                march: { start: 0, end: 1, fps: 10 },
+                explode: { row: 1, fps: 10, mode: 'once' },
+                hit: { frames: [0, 1, 2], fps: 10, mode: 'pingpong' }
+            }
+        });
+    });
+
+    /**
+     * Column of the frame the sprite draws, read from its source rectangle
+     */
+    const frameOf = (s: Sprite): number => {
+        const rect = s.getFrameRect();
+        return rect.x / rect.width;
+    };
+
+    test('should carry leftover time into the next frame', () => {
+        sprite.play('march');
+
+        sprite.update(150);
+        expect(frameOf(sprite)).toBe(1);
+
+        // 50ms carried over, so 50ms more reaches the next frame
+        sprite.update(50);
+        expect(frameOf(sprite)).toBe(0);
+    });
+
+    test('should advance several frames in one long update', () => {
+        sprite.play('hit');
+        sprite.update(400);
+
+        // 0 -> 1 -> 2 -> 1 -> 0
+        expect(frameOf(sprite)).toBe(0);
+    });
+
+    test('should stop on the last frame and complete once', () => {
+        const onComplete = jest.fn();
+        sprite.play('explode', { onComplete });
+
+        sprite.update(350);
+        expect(frameOf(sprite)).toBe(3);
+        expect(onComplete).not.toHaveBeenCalled();
+
+        sprite.update(50);
+        sprite.update(500);
+        expect(sprite.getFrameRect()).toEqual({ x: 48, y: 16, width: 16, height: 16 });
+        expect(sprite.isAnimating()).toBe(false);
+        expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject clips referencing missing frames', () => {
+        expect(() => sprite.defineClip('bad', { frames: [4], fps: 10 })).toThrow();
+        expect(() => sprite.play('missing')).toThrow();
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * @file TextureAtlas.test.ts
+ * @description Tests for shelf packing images into an atlas and reading TexturePacker JSON
+ * @module tests/engine
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AtlasPacker, TextureAtlas, TexturePackerData } from '../../src/engine/TextureAtlas';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+/**
+ * Creates an image filled with one colour
+ */
+function createImage(width: number, height: number, color: string = '#ff0000'): HTMLCanvasElement {
+    const image = createSoftwareCanvas(width, height);
+    const context = image.getContext('2d')!;
+    context.fillStyle = color;
+    context.fillRect(0, 0, width, height);
+    return image;
+}
+
+/**
+ * Reads the alpha of one pixel of an atlas image
+ */
+function alphaAt(atlas: TextureAtlas, x: number, y: number): number {
+    const image = atlas.getImage() as HTMLCanvasElement;
+    return image.getContext('2d')!.getImageData(x, y, 1, 1).data[3];
+}
+
+/**
+ * Gets the position of each frame in an atlas
+ */
+function getPositions(atlas: TextureAtlas): Record<string, [number, number]> {
+    return Object.fromEntries(atlas.getFrameNames().map(name => {
+        const { x, y } = atlas.getFrame(name);
+        return [name, [x, y]];
+    }));
+}
+
+/**
+ * A sheet image to read TexturePacker data against
+ */
+const SHEET = createSoftwareCanvas(64, 64);
+
+describe('AtlasPacker', () => {
+    const canvasFactory = createSoftwareCanvas;
+
+    test('should place the tallest images first, left to right on shelves', () => {
+        const packer = new AtlasPacker({ maxWidth: 32, padding: 0, canvasFactory });
+        packer.add('c', createImage(10, 4));
+        packer.add('a', createImage(10, 8));
+        packer.add('d', createImage(10, 4));
+        packer.add('b', createImage(10, 6));
+
+        const atlas = packer.pack('sheet');
+
+        expect(getPositions(atlas)).toEqual({ a: [0, 0], b: [10, 0], c: [20, 0], d: [0, 8] });
+        expect(atlas.getTextureKey()).toBe('sheet');
+        expect(atlas.getImage().width).toBe(30);
+        expect(atlas.getImage().height).toBe(12);
+        expect(atlas.getFrame('b')).toMatchObject({
+            width: 10,
+            height: 6,
+            sourceWidth: 10,
+            sourceHeight: 6,
+            offsetX: 0,
+            offsetY: 0,
+            pivotX: 0.5,
+            pivotY: 0.5
+        });
+    });
+
+    test('should copy each image into its frame', () => {
+        const packer = new AtlasPacker({ maxWidth: 32, padding: 0, canvasFactory });
+        packer.add('wide', createImage(20, 4));
+        packer.add('small', createImage(2, 2));
+
+        const atlas = packer.pack();
+
+        expect(alphaAt(atlas, 19, 3)).toBe(255);
+        expect(alphaAt(atlas, 21, 1)).toBe(255);
+        expect(alphaAt(atlas, 21, 3)).toBe(0);
+    });
+
+    test('should reject images that overflow the maximum sheet height', () => {
+        const packer = new AtlasPacker({ maxWidth: 32, maxHeight: 10, padding: 0, canvasFactory });
+        packer.add('a', createImage(20, 6));
+        packer.add('b', createImage(20, 6));
+
+        expect(() => packer.pack()).toThrow('Images do not fit in a 32x10 atlas');
+    });
+
+    test('should reject images wider than the sheet and duplicate names', () => {
+        const packer = new AtlasPacker({ maxWidth: 32, padding: 1, canvasFactory });
+        packer.add('ship', createImage(30, 4));
+
+        expect(() => packer.add('ship', createImage(4, 4))).toThrow("Image 'ship' was already added to the atlas");
+        expect(() => packer.add('wide', createImage(31, 4))).toThrow("Image 'wide' is wider than the atlas");
+    });
+
+    test('should surround each image with transparent padding', () => {
+        const packer = new AtlasPacker({ maxWidth: 32, padding: 2, canvasFactory });
+        packer.add('a', createImage(10, 8));
+        packer.add('b', createImage(10, 8));
+        packer.add('c', createImage(10, 8));
+
+        const atlas = packer.pack();
+
+        expect(getPositions(atlas)).toEqual({ a: [2, 2], b: [16, 2], c: [2, 14] });
+        expect(atlas.getImage().width).toBe(28);
+        expect(atlas.getImage().height).toBe(24);
+        expect(alphaAt(atlas, 2, 2)).toBe(255);
+        expect(alphaAt(atlas, 1, 2)).toBe(0);
+        expect(alphaAt(atlas, 12, 9)).toBe(0);
+        expect(alphaAt(atlas, 15, 9)).toBe(0);
+        expect(alphaAt(atlas, 16, 9)).toBe(255);
+        expect(alphaAt(atlas, 2, 11)).toBe(0);
+    });
+});
+
+describe('TextureAtlas.fromTexturePacker', () => {
+    test('should read the hash layout with trim and pivot data', () => {
+        const data: TexturePackerData = {
+            frames: {
+                'ship.png': {
+                    frame: { x: 4, y: 8, w: 10, h: 12 },
+                    trimmed: true,
+                    spriteSourceSize: { x: 3, y: 2, w: 10, h: 12 },
+                    sourceSize: { w: 16, h: 16 },
+                    pivot: { x: 0.5, y: 1 }
+                },
+                'shot.png': {
+                    frame: { x: 20, y: 0, w: 2, h: 6 }
+                }
+            },
+            meta: { image: 'sprites.png', size: { w: 64, h: 64 } }
+        };
+
+        const atlas = TextureAtlas.fromTexturePacker(data, SHEET);
+
+        expect(atlas.getTextureKey()).toBe('sprites.png');
+        expect(atlas.getImage()).toBe(SHEET);
+        expect(atlas.getFrameNames()).toEqual(['ship.png', 'shot.png']);
+        expect(atlas.getFrame('ship.png')).toEqual({
+            name: 'ship.png',
+            x: 4,
+            y: 8,
+            width: 10,
+            height: 12,
+            sourceWidth: 16,
+            sourceHeight: 16,
+            offsetX: 3,
+            offsetY: 2,
+            pivotX: 0.5,
+            pivotY: 1
+        });
+        expect(atlas.getFrame('shot.png')).toEqual({
+            name: 'shot.png',
+            x: 20,
+            y: 0,
+            width: 2,
+            height: 6,
+            sourceWidth: 2,
+            sourceHeight: 6,
+            offsetX: 0,
+            offsetY: 0,
+            pivotX: 0.5,
+            pivotY: 0.5
+        });
+    });
+
+    test('should read the array layout by filename', () => {
+        const data: TexturePackerData = {
+            frames: [
+                { filename: 'invader/0', frame: { x: 0, y: 0, w: 12, h: 8 }, pivot: { x: 0, y: 0 } },
+                {
+                    filename: 'invader/1',
+                    frame: { x: 12, y: 0, w: 10, h: 8 },
+                    trimmed: true,
+                    spriteSourceSize: { x: 1, y: 0, w: 10, h: 8 },
+                    sourceSize: { w: 12, h: 8 }
+                }
+            ]
+        };
+
+        const atlas = TextureAtlas.fromTexturePacker(data, SHEET, 'invaders');
+
+        expect(atlas.getTextureKey()).toBe('invaders');
+        expect(atlas.getFrameNames('invader/')).toEqual(['invader/0', 'invader/1']);
+        expect(atlas.getFrame('invader/0')).toMatchObject({ x: 0, width: 12, pivotX: 0, pivotY: 0 });
+        expect(atlas.getFrame('invader/1')).toMatchObject({ x: 12, width: 10, sourceWidth: 12, offsetX: 1, offsetY: 0 });
+    });
+
+    test('should ignore trim offsets of frames that are not marked trimmed', () => {
+        const atlas = TextureAtlas.fromTexturePacker({
+            frames: {
+                bullet: {
+                    frame: { x: 0, y: 0, w: 2, h: 4 },
+                    trimmed: false,
+                    spriteSourceSize: { x: 5, y: 5, w: 2, h: 4 }
+                }
+            }
+        }, SHEET);
+
+        expect(atlas.getFrame('bullet')).toMatchObject({ offsetX: 0, offsetY: 0 });
+    });
+
+    test('should reject rotated frames', () => {
+        const data: TexturePackerData = {
+            frames: { 'ship.png': { frame: { x: 0, y: 0, w: 8, h: 8 }, rotated: true } }
+        };
+
+        expect(() => TextureAtlas.fromTexturePacker(data, SHEET))
+            .toThrow("Atlas frame 'ship.png' is rotated; export the atlas without rotation");
+    });
+
+    test('should reject malformed data', () => {
+        expect(() => TextureAtlas.fromTexturePacker({} as TexturePackerData, SHEET)).toThrow('Atlas data has no frames');
+        expect(() => TextureAtlas.fromTexturePacker({ frames: [{ frame: { x: 0, y: 0, w: 1, h: 1 } }] }, SHEET))
+            .toThrow('Atlas frame in array layout is missing a filename');
+        expect(() => TextureAtlas.fromTexturePacker({ frames: { empty: {} as never } }, SHEET))
+            .toThrow("Atlas frame 'empty' has no frame rectangle");
+        expect(() => TextureAtlas.fromTexturePacker({ frames: {} }, SHEET).getFrame('missing'))
+            .toThrow("Atlas frame 'missing' not found");
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * @file TimeScale.test.ts
+ * @description Test suite for time channels, scale tweens, hit-stop and update ownership
+ * @module tests/engine
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { ManualClock } from '../../src/engine/Clock';
+import { Easing } from '../../src/engine/Easing';
+import { GameLoop } from '../../src/engine/GameLoop';
+import { Time } from '../../src/engine/Time';
+import { TimeChannel, TimeScale, applyTimeChannel } from '../../src/engine/TimeScale';
+
+describe('TimeScale', () => {
+    let timeScale: TimeScale;
+
+    beforeEach(() => {
+        timeScale = new TimeScale();
+    });
+
+    describe('Channels', () => {
+        test('should scale each channel independently', () => {
+            timeScale.setScale(TimeChannel.GAMEPLAY, 0.25);
+
+            expect(timeScale.scaleDelta(TimeChannel.GAMEPLAY, 100)).toBe(25);
+            expect(timeScale.scaleDelta(TimeChannel.UI, 100)).toBe(100);
+            expect(applyTimeChannel({ timeScale, channel: TimeChannel.GAMEPLAY }, 8)).toBe(2);
+            expect(applyTimeChannel(null, 8)).toBe(8);
+        });
+
+        test('should reject negative and non-finite scales', () => {
+            expect(() => timeScale.setScale(TimeChannel.GAMEPLAY, -1)).toThrow();
+            expect(() => timeScale.tweenScale(TimeChannel.GAMEPLAY, Infinity, 100)).toThrow();
+        });
+    });
+
+    describe('Tweens', () => {
+        test('should ease a channel towards its target over real time', () => {
+            timeScale.tweenScale(TimeChannel.GAMEPLAY, 0, 100, Easing.linear);
+
+            timeScale.update(25);
+            expect(timeScale.getScale(TimeChannel.GAMEPLAY)).toBeCloseTo(0.75);
+
+            timeScale.update(100);
+            expect(timeScale.getScale(TimeChannel.GAMEPLAY)).toBe(0);
+        });
+
+        test('should cancel a tween when the scale is set directly', () => {
+            timeScale.tweenScale(TimeChannel.EFFECTS, 0, 100);
+            timeScale.setScale(TimeChannel.EFFECTS, 2);
+
+            timeScale.update(50);
+
+            expect(timeScale.getScale(TimeChannel.EFFECTS)).toBe(2);
+        });
+    });
+
+    describe('Hit-stop', () => {
+        test('should freeze only the requested channels and keep their scale', () => {
+            timeScale.setScale(TimeChannel.GAMEPLAY, 0.5);
+            timeScale.hitStop(50);
+
+            expect(timeScale.getScale(TimeChannel.GAMEPLAY)).toBe(0);
+            expect(timeScale.getScale(TimeChannel.EFFECTS)).toBe(1);
+
+            timeScale.update(49);
+            expect(timeScale.getScale(TimeChannel.GAMEPLAY)).toBe(0);
+
+            timeScale.update(1);
+            expect(timeScale.getScale(TimeChannel.GAMEPLAY)).toBe(0.5);
+        });
+    });
+
+    describe('Ownership', () => {
+        test('should advance a shared scale once per frame when both the loop and time system use it', () => {
+            const clock = new ManualClock(10);
+            const time = new Time(1 / 60, clock, timeScale);
+            const loop = new GameLoop({ update: () => undefined, render: () => time.update() }, { clock, timeScale });
+            timeScale.tweenScale(TimeChannel.GAMEPLAY, 0, 100, Easing.linear);
+            loop.start();
+
+            clock.step(5);
+
+            expect(timeScale.getScale(TimeChannel.GAMEPLAY)).toBeCloseTo(0.5);
+        });
+
+        test('should advance its own scale when a time system is used on its own', () => {
+            const clock = new ManualClock(10);
+            const time = new Time(1 / 60, clock);
+            time.getTimeScale().hitStop(20);
+
+            clock.advance(10);
+            time.update();
+            expect(time.getTimeState().channelDeltas[TimeChannel.GAMEPLAY]).toBe(0);
+
+            clock.advance(10);
+            time.update();
+            clock.advance(10);
+            expect(time.update().deltaTime).toBeCloseTo(0.01);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * @file Player.test.ts
+ * @description Tests for keyboard-driven player movement, its move sound and interpolation
+ * @module tests/entities
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Player } from '../../src/entities/Player';
+import { AudioManager } from '../../src/audio/AudioManager';
+import { SOUND_IDS } from '../../src/data/AssetManifest';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+const FIXED_STEP = 1000 / 60;
+
+describe('Player', () => {
+    let fakeWindow: EventTarget;
+    let play: jest.SpiedFunction<AudioManager['play']>;
+    let player: Player;
+
+    const sendKey = (type: 'keydown' | 'keyup', key: string) => {
+        const event = new Event(type);
+        Object.assign(event, { key });
+        fakeWindow.dispatchEvent(event);
+    };
+
+    beforeEach(() => {
+        fakeWindow = new EventTarget();
+        (globalThis as { window?: unknown }).window = fakeWindow;
+        (globalThis as { document?: unknown }).document = { createElement: () => createSoftwareCanvas(1, 1) };
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const audio = AudioManager.getInstance();
+        jest.spyOn(audio, 'hasAudio').mockReturnValue(true);
+        play = jest.spyOn(audio, 'play').mockImplementation(() => undefined);
+
+        player = new Player({ x: 100, y: 200 });
+    });
+
+    afterEach(() => {
+        player.dispose();
+        jest.restoreAllMocks();
+        delete (globalThis as { window?: unknown }).window;
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should play the move sound once when movement starts, not on every update', () => {
+        sendKey('keydown', 'ArrowLeft');
+        for (let i = 0; i < 60; i++) {
+            sendKey('keydown', 'ArrowLeft');
+            player.update(FIXED_STEP);
+        }
+
+        expect(play).toHaveBeenCalledTimes(1);
+        expect(play).toHaveBeenCalledWith(SOUND_IDS.PLAYER_MOVE);
+    });
+
+    test('should play the move sound again once movement stops and restarts', () => {
+        sendKey('keydown', 'd');
+        sendKey('keydown', 'a');
+        sendKey('keyup', 'd');
+        sendKey('keyup', 'a');
+        sendKey('keydown', 'ArrowRight');
+
+        expect(play).toHaveBeenCalledTimes(2);
+    });
+
+    test('should move with held keys and stop when they are released', () => {
+        sendKey('keydown', 'ArrowRight');
+        player.update(FIXED_STEP);
+        expect(player.getInterpolatedTransform(1).x).toBeCloseTo(105);
+
+        sendKey('keyup', 'ArrowRight');
+        player.update(FIXED_STEP);
+        expect(player.getInterpolatedTransform(1).x).toBeCloseTo(105);
+    });
+
+    test('should blend between the previous and current fixed steps', () => {
+        sendKey('keydown', 'ArrowLeft');
+        player.update(FIXED_STEP);
+
+        expect(player.getInterpolatedTransform(0.5)).toMatchObject({ y: 200 });
+        expect(player.getInterpolatedTransform(0.5).x).toBeCloseTo(97.5);
+    });
+
+    test('should stop listening for keys once disposed', () => {
+        player.dispose();
+        sendKey('keydown', 'ArrowLeft');
+        player.update(FIXED_STEP);
+
+        expect(play).not.toHaveBeenCalled();
+        expect(player.getInterpolatedTransform(1).x).toBe(100);
+    });
+});
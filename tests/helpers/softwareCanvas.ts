@@ -0,0 +1,18 @@
+/**
+ * @file softwareCanvas.ts
+ * @description Software canvas (@napi-rs/canvas) standing in for DOM canvases, so engine and
+ * render code can draw and read back pixels under Node without a browser or GPU
+ * @module tests/helpers
+ */
+
+import { createCanvas } from '@napi-rs/canvas';
+
+/**
+ * Creates a software canvas that can stand in for a DOM canvas in engine code;
+ * usable wherever a CanvasFactory is expected
+ * @param width Canvas width in pixels
+ * @param height Canvas height in pixels
+ */
+export function createSoftwareCanvas(width: number, height: number): HTMLCanvasElement {
+    return createCanvas(width, height) as unknown as HTMLCanvasElement;
+}
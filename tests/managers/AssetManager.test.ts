@@ -0,0 +1,157 @@
+/**
+ * @file AssetManager.test.ts
+ * @description Tests for manifest preloading and the loading state's menu guard
+ * @module tests/managers
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { AssetEntry, AssetManager } from '../../src/managers/AssetManager';
+import { GameStateError, GameStateManager, GameStateType } from '../../src/states/GameStates';
+import { ASSET_MANIFEST } from '../../src/data/AssetManifest';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+jest.mock('../../src/audio/AudioManager', () => ({ AudioManager: { getInstance: jest.fn() } }));
+
+describe('AssetManager', () => {
+    let assets: AssetManager;
+
+    beforeEach(() => {
+        assets = AssetManager.getInstance();
+        assets.reset();
+        assets.configure({ retryDelay: 0 });
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    test('should never run more loads at once than the concurrency limit', async () => {
+        let active = 0;
+        let peak = 0;
+        assets.configure({ concurrency: 2 });
+        assets.registerLoader('json', async (entry: AssetEntry) => {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            active--;
+            return entry.id;
+        });
+        assets.addManifest({
+            assets: ['a', 'b', 'c', 'd', 'e'].map(id => ({ id, type: 'json' as const, url: `${id}.json` }))
+        });
+
+        const progress = await assets.loadAll();
+
+        expect(peak).toBe(2);
+        expect(progress).toMatchObject({ loaded: 5, total: 5, ratio: 1, requiredReady: true });
+        expect(assets.get('c')).toBe('c');
+    });
+
+    test('should retry failed loads before giving up', async () => {
+        let attempts = 0;
+        assets.configure({ retries: 2 });
+        assets.registerLoader('image', async () => {
+            attempts++;
+            if (attempts < 3) throw new Error('flaky');
+            return 'image';
+        });
+        assets.addManifest({ assets: [{ id: 'ship', type: 'image', url: 'ship.png' }] });
+
+        await assets.loadAll();
+
+        expect(attempts).toBe(3);
+        expect(assets.getStatus('ship')).toBe('loaded');
+    });
+
+    test('should weight progress and only require required assets', async () => {
+        const seen: number[] = [];
+        assets.configure({ concurrency: 1, retries: 0 });
+        assets.registerLoader('json', async (entry: AssetEntry) => {
+            if (entry.id === 'extra') throw new Error('missing');
+            return entry.id;
+        });
+        assets.addProgressListener(progress => seen.push(progress.ratio));
+        assets.addManifest({
+            baseUrl: 'data',
+            assets: [
+                { id: 'level', type: 'json', url: 'level.json', weight: 3 },
+                { id: 'extra', type: 'json', url: 'extra.json', required: false }
+            ]
+        });
+
+        const progress = await assets.loadAll();
+
+        expect(seen).toEqual([0.75, 1]);
+        expect(progress).toMatchObject({ loaded: 1, failed: 1, errors: ['extra'], requiredReady: true });
+        expect(assets.isReady()).toBe(true);
+    });
+
+    test('should block the menu until required assets are ready', async () => {
+        let finishLoad: (value: unknown) => void = () => undefined;
+        assets.registerLoader('atlas', () => new Promise(resolve => { finishLoad = resolve; }));
+        assets.addManifest({ assets: [{ id: 'sprites', type: 'atlas', url: 'sprites.json' }] });
+
+        const states = new GameStateManager();
+        states.changeState(GameStateType.LOADING);
+
+        expect(() => states.changeState(GameStateType.MENU)).toThrow(GameStateError);
+
+        finishLoad('atlas');
+        await assets.loadAll();
+        await Promise.resolve();
+
+        // MenuState has no behaviour yet; only check that loading hands over to it
+        const changeState = jest.spyOn(states, 'changeState').mockImplementation(() => undefined);
+        states.update(1000);
+
+        expect(changeState).toHaveBeenCalledWith(GameStateType.MENU);
+    });
+
+    test('should share an on-demand load with the preload already running', async () => {
+        let loads = 0;
+        assets.registerLoader('image', async (entry: AssetEntry) => {
+            loads++;
+            await new Promise(resolve => setTimeout(resolve, 1));
+            return entry.url;
+        });
+        assets.addManifest({ baseUrl: 'img', assets: [{ id: 'ship', type: 'image', url: 'ship.png' }] });
+
+        const preload = assets.loadAll();
+        const [image] = await Promise.all([assets.load<string>('ship'), preload]);
+        const added = await assets.load<string>({ id: 'bullet', type: 'image', url: 'bullet.png' });
+
+        expect(image).toBe('img/ship.png');
+        expect(added).toBe('bullet.png');
+        expect(loads).toBe(2);
+        await expect(assets.load('missing')).rejects.toThrow('missing');
+    });
+
+    test('should preload the shipped manifest and draw its progress bar', async () => {
+        let finishLoad: (value: unknown) => void = () => undefined;
+        const loaded: string[] = [];
+        assets.registerLoader('audio', async (entry: AssetEntry) => {
+            loaded.push(entry.url);
+            return entry.id;
+        });
+        assets.registerLoader('json', () => new Promise(resolve => { finishLoad = resolve; }));
+        assets.addManifest({ assets: [{ id: 'level', type: 'json', url: 'level.json' }] });
+
+        const canvas = createSoftwareCanvas(100, 40);
+        const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+        const states = new GameStateManager();
+        states.setRenderContext(ctx);
+        states.changeState(GameStateType.LOADING);
+        await Promise.resolve();
+
+        expect(loaded).toEqual(ASSET_MANIFEST.assets.map(asset => `assets/${asset.url}`));
+
+        finishLoad({});
+        await assets.loadAll();
+        await Promise.resolve();
+        jest.spyOn(states, 'changeState').mockImplementation(() => undefined);
+        states.update(1000);
+        states.render();
+
+        // The bar spans the middle 60% of the canvas and is filled in green once loaded
+        const [red, green, blue] = ctx.getImageData(70, 20, 1, 1).data;
+        expect([red, green, blue]).toEqual([0x33, 0xff, 0x66]);
+    });
+});
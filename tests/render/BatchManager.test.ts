@@ -0,0 +1,138 @@
+/**
+ * @file BatchManager.test.ts
+ * @description Tests for the vertex data built for WebGL sprite batches: quad placement,
+ * per-draw transforms and the tint and alpha attributes
+ * @module tests/render
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { BatchManager, FLOATS_PER_VERTEX, SpriteBatch } from '../../src/render/BatchManager';
+import { Sprite } from '../../src/engine/Sprite';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+/**
+ * Creates a sprite drawing 8x8 frames, scaled up twice, from a 32x16 strip
+ */
+function createStripSprite(textureKey: string = 'strip'): Sprite {
+    return new Sprite({
+        image: createSoftwareCanvas(32, 16),
+        textureKey,
+        width: 8,
+        height: 8,
+        frameCount: 4,
+        scale: 2
+    });
+}
+
+/**
+ * Splits a batch's vertex data into one array per vertex, keeping the given attribute floats
+ */
+function getVertices(batch: SpriteBatch, start: number, end: number): number[][] {
+    const vertices: number[][] = [];
+    for (let i = 0; i < batch.vertices.length; i += FLOATS_PER_VERTEX) {
+        vertices.push(Array.from(batch.vertices.subarray(i + start, i + end), value => Math.round(value * 1000) / 1000));
+    }
+    return vertices;
+}
+
+/** Position and texture coordinates of each vertex */
+const getQuads = (batch: SpriteBatch) => getVertices(batch, 0, 4);
+
+/** Tint colour, tint strength and alpha of each vertex */
+const getColors = (batch: SpriteBatch) => getVertices(batch, 4, 9);
+
+describe('BatchManager', () => {
+    let batches: SpriteBatch[];
+    let manager: BatchManager;
+
+    const flush = () => manager.flush(batch => batches.push({ ...batch, vertices: batch.vertices.slice() }));
+
+    beforeEach(() => {
+        batches = [];
+        manager = new BatchManager(2);
+        manager.begin();
+    });
+
+    test('should build a scaled quad sampling the current frame', () => {
+        const sprite = createStripSprite();
+        sprite.setFrame(1);
+
+        manager.addSprite(sprite, 10, 20);
+        flush();
+
+        expect(batches).toHaveLength(1);
+        expect(batches[0].textureKey).toBe('strip');
+        expect(batches[0].indexCount).toBe(6);
+        expect(getQuads(batches[0])).toEqual([
+            [10, 20, 0.25, 0],
+            [26, 20, 0.5, 0],
+            [26, 36, 0.5, 0.5],
+            [10, 36, 0.25, 0.5]
+        ]);
+        expect(getColors(batches[0])).toEqual(Array(4).fill([0, 0, 0, 0, 1]));
+        expect(manager.getCurrentBatchSize()).toBe(0);
+    });
+
+    test('should rotate about the pivot and flip about it like the Canvas 2D path', () => {
+        const sprite = createStripSprite();
+
+        manager.addSprite(sprite, 10, 20, { rotation: Math.PI / 2, pivot: { x: 0, y: 0 } });
+        manager.addSprite(sprite, 10, 20, { flipX: true });
+        flush();
+
+        const quads = getQuads(batches[0]);
+        expect(quads.slice(0, 4)).toEqual([
+            [10, 20, 0, 0],
+            [10, 36, 0.25, 0],
+            [-6, 36, 0.25, 0.5],
+            [-6, 20, 0, 0.5]
+        ]);
+        expect(quads.slice(4)).toEqual([
+            [26, 20, 0, 0],
+            [10, 20, 0.25, 0],
+            [10, 36, 0.25, 0.5],
+            [26, 36, 0, 0.5]
+        ]);
+    });
+
+    test('should carry alpha, tint and a flash that replaces the tint', () => {
+        const sprite = createStripSprite();
+
+        manager.addSprite(sprite, 0, 0, { alpha: 0.25, tint: '#f00', tintAmount: 0.5 });
+        manager.addSprite(sprite, 0, 0, { tint: 'rgb(0, 0, 255)', flash: 0.75 });
+        flush();
+        sprite.flash(100);
+        manager.addSprite(sprite, 0, 0, { tint: '#00ff00' });
+        flush();
+
+        const colors = batches.map(getColors).flat();
+        expect(colors[0]).toEqual([1, 0, 0, 0.5, 0.25]);
+        expect(colors[4]).toEqual([1, 1, 1, 0.75, 1]);
+        expect(colors[8]).toEqual([1, 1, 1, 1, 1]);
+    });
+
+    test('should index two triangles per quad', () => {
+        expect(Array.from(manager.getIndices())).toEqual([0, 1, 2, 0, 2, 3, 4, 5, 6, 4, 6, 7]);
+    });
+
+    test('should refuse sprites beyond the batch size or from another texture', () => {
+        const sprite = createStripSprite();
+        manager.addSprite(sprite, 0, 0);
+
+        expect(() => manager.addSprite(createStripSprite('other'), 0, 0)).toThrow('flush it before drawing');
+
+        manager.addSprite(sprite, 0, 0);
+        expect(manager.wouldExceedBatchSize()).toBe(true);
+        expect(() => manager.addSprite(sprite, 0, 0)).toThrow('Sprite batch is full');
+    });
+
+    test('should reject tints it cannot parse without a document', () => {
+        expect(() => manager.addSprite(createStripSprite(), 0, 0, { tint: 'tomato' })).toThrow("Unsupported tint colour 'tomato'");
+    });
+
+    test('should not flush an empty batch', () => {
+        flush();
+
+        expect(batches).toHaveLength(0);
+    });
+});
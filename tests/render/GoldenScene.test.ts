@@ -0,0 +1,187 @@
+/**
+ * @file GoldenScene.test.ts
+ * @description Golden-image tests rendering deterministic scenes through Renderer and the
+ * Canvas 2D backend on a software canvas, without a GPU or browser
+ * @module tests/render
+ */
+
+import { describe, test, expect, beforeAll } from '@jest/globals';
+import { Renderer } from '../../src/render/Renderer';
+import { Canvas2DBackend } from '../../src/render/Canvas2DBackend';
+import { RenderLayer } from '../../src/render/RenderLayer';
+import { Sprite } from '../../src/engine/Sprite';
+import { AtlasPacker, AtlasImage, TextureAtlas } from '../../src/engine/TextureAtlas';
+import { Random } from '../../src/utils/Random';
+import { compareToGolden } from './golden';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+const SCENE_WIDTH = 160;
+const SCENE_HEIGHT = 120;
+const SCENE_SEED = 1979;
+
+/**
+ * Draws a pixel pattern ('#' filled, anything else empty) into a new image
+ */
+function createPattern(rows: string[], color: string): AtlasImage {
+    const canvas = createSoftwareCanvas(rows[0].length, rows.length);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = color;
+    rows.forEach((row, y) => {
+        [...row].forEach((cell, x) => {
+            if (cell === '#') ctx.fillRect(x, y, 1, 1);
+        });
+    });
+    return canvas;
+}
+
+/**
+ * Packs the scene's sprites into one atlas on a software canvas
+ */
+function createSceneAtlas(): TextureAtlas {
+    const packer = new AtlasPacker({ canvasFactory: createSoftwareCanvas });
+    packer.add('invader-0', createPattern([
+        '..#.....#..',
+        '...#...#...',
+        '..#######..',
+        '.##.###.##.',
+        '###########',
+        '#.#######.#',
+        '#.#.....#.#',
+        '...##.##...'
+    ], '#ffffff'));
+    packer.add('invader-1', createPattern([
+        '..#.....#..',
+        '#..#...#..#',
+        '#.#######.#',
+        '###.###.###',
+        '###########',
+        '.#########.',
+        '..#.....#..',
+        '.#.......#.'
+    ], '#ffffff'));
+    packer.add('player', createPattern([
+        '......#......',
+        '.....###.....',
+        '.....###.....',
+        '.###########.',
+        '#############',
+        '#############',
+        '#############'
+    ], '#33ff66'));
+    packer.add('bullet', createPattern(['#', '#', '#', '#'], '#ffff00'));
+    packer.add('star', createPattern(['#'], '#8888aa'));
+    return packer.pack('scene');
+}
+
+/**
+ * Renders the test scene: a seeded starfield, an invader formation in two animation
+ * frames, the player, bullets and a HUD row of lives. Draws are submitted in an order
+ * that only looks right if the renderer sorts by layer.
+ */
+function renderScene(seed: number): HTMLCanvasElement {
+    const canvas = createSoftwareCanvas(SCENE_WIDTH, SCENE_HEIGHT);
+    const context = canvas.getContext('2d')!;
+    const renderer = new Renderer(canvas, SCENE_WIDTH, SCENE_HEIGHT, {
+        backend: new Canvas2DBackend(context, { clearColor: '#000010' })
+    });
+    const random = new Random(seed);
+    const atlas = createSceneAtlas();
+
+    const invaders = [0, 1].map(frame => {
+        const sprite = Sprite.fromAtlas(atlas, 'invader-0', { frames: ['invader-1'] });
+        sprite.setFrame(frame);
+        return sprite;
+    });
+    const player = Sprite.fromAtlas(atlas, 'player', { layer: RenderLayer.SHIPS });
+    const bullet = Sprite.fromAtlas(atlas, 'bullet', { layer: RenderLayer.PROJECTILES });
+    const star = Sprite.fromAtlas(atlas, 'star', { layer: RenderLayer.BACKGROUND });
+    const life = Sprite.fromAtlas(atlas, 'player', { layer: RenderLayer.OVERLAY });
+
+    renderer.beginBatch();
+
+    // Foreground first to exercise sorting
+    for (let i = 0; i < 3; i++) {
+        renderer.drawSprite(life, 4 + i * 16, SCENE_HEIGHT - 10);
+    }
+    renderer.drawSprite(bullet, 40, 30);
+    renderer.drawSprite(bullet, random.int(10, 150), random.int(40, 90));
+    renderer.drawSprite(player, 74, 96);
+
+    for (let row = 0; row < 3; row++) {
+        for (let column = 0; column < 6; column++) {
+            renderer.drawSprite(invaders[row % 2], 20 + column * 20, 16 + row * 14);
+        }
+    }
+
+    for (let i = 0; i < 40; i++) {
+        renderer.drawSprite(star, random.int(0, SCENE_WIDTH - 1), random.int(0, SCENE_HEIGHT - 1));
+    }
+
+    renderer.endBatch();
+    return canvas;
+}
+
+/**
+ * Renders one arrow per transform: plain, rotated, flipped both ways, faded, tinted and
+ * flashing. The arrow is asymmetric so every flip and rotation is visible.
+ */
+function renderTransformScene(): HTMLCanvasElement {
+    const canvas = createSoftwareCanvas(SCENE_WIDTH, SCENE_HEIGHT);
+    const context = canvas.getContext('2d')!;
+    const renderer = new Renderer(canvas, SCENE_WIDTH, SCENE_HEIGHT, {
+        backend: new Canvas2DBackend(context, { clearColor: '#000010' })
+    });
+    const arrow = new Sprite({
+        image: createPattern([
+            '...#....',
+            '..###...',
+            '.#####..',
+            '#######.',
+            '..###...',
+            '..###...',
+            '..####..',
+            '..#####.'
+        ], '#ffffff'),
+        textureKey: 'arrow',
+        width: 8,
+        height: 8,
+        scale: 3
+    });
+
+    renderer.beginBatch();
+    renderer.drawSprite(arrow, 8, 12);
+    renderer.drawSprite(arrow, 44, 12, { rotation: Math.PI / 2 });
+    renderer.drawSprite(arrow, 80, 12, { flipX: true });
+    renderer.drawSprite(arrow, 116, 12, { flipY: true });
+    renderer.drawSprite(arrow, 8, 60, { alpha: 0.5 });
+    renderer.drawSprite(arrow, 44, 60, { tint: '#ff0000' });
+    renderer.drawSprite(arrow, 80, 60, { tint: '#0000ff', tintAmount: 0.5 });
+    renderer.drawSprite(arrow, 116, 60, { tint: '#ff0000', flash: 1, pivot: { x: 0, y: 0 }, rotation: Math.PI / 4 });
+    renderer.endBatch();
+    return canvas;
+}
+
+describe('Golden scenes', () => {
+    beforeAll(() => {
+        Sprite.setCanvasFactory(createSoftwareCanvas);
+    });
+
+    test('should render the same frame for the same seed', () => {
+        const first = renderScene(SCENE_SEED).toDataURL();
+        const second = renderScene(SCENE_SEED).toDataURL();
+
+        expect(second).toBe(first);
+    });
+
+    test('should match the golden image of the formation scene', async () => {
+        const result = await compareToGolden('formation', renderScene(SCENE_SEED));
+
+        expect(result).toMatchObject({ pass: true });
+    });
+
+    test('should match the golden image of sprite transforms and tints', async () => {
+        const result = await compareToGolden('transforms', renderTransformScene());
+
+        expect(result).toMatchObject({ pass: true });
+    });
+});
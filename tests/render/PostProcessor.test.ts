@@ -0,0 +1,215 @@
+/**
+ * @file PostProcessor.test.ts
+ * @description Tests for the retro post-processing filters, their presets, saving the chosen
+ * preset and bypassing filters on quality tiers without screen effects
+ * @module tests/render
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+    BloomFilter,
+    CellophaneFilter,
+    PostProcessFrame,
+    PostProcessor,
+    PostProcessPreset,
+    ScanlineFilter,
+    VignetteFilter
+} from '../../src/render/PostProcessor';
+import { QUALITY_PRESETS, QualityTier } from '../../src/data/QualityConfig';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+const SIZE = 40;
+const GRAY = '#808080';
+
+/**
+ * Creates a frame filled with one colour
+ */
+function createFrame(color: string): PostProcessFrame {
+    const target = createSoftwareCanvas(SIZE, SIZE).getContext('2d')!;
+    target.fillStyle = color;
+    target.fillRect(0, 0, SIZE, SIZE);
+    const scratch = createSoftwareCanvas(SIZE, SIZE).getContext('2d')!;
+    return { target, scratch, width: SIZE, height: SIZE };
+}
+
+/**
+ * Reads one pixel as [r, g, b, a]
+ */
+function pixelAt(ctx: CanvasRenderingContext2D, x: number, y: number): number[] {
+    return Array.from(ctx.getImageData(x, y, 1, 1).data);
+}
+
+describe('Post-process filters', () => {
+    test('should darken rows at the scanline spacing', () => {
+        const frame = createFrame(GRAY);
+        new ScanlineFilter({ spacing: 4, thickness: 2, opacity: 0.5 }).apply(frame);
+
+        expect(pixelAt(frame.target, 20, 0)).toEqual([64, 64, 64, 255]);
+        expect(pixelAt(frame.target, 20, 1)).toEqual([64, 64, 64, 255]);
+        expect(pixelAt(frame.target, 20, 2)).toEqual([128, 128, 128, 255]);
+        expect(pixelAt(frame.target, 20, 4)).toEqual([64, 64, 64, 255]);
+    });
+
+    test('should shade the edges and black out the rounded corners', () => {
+        const frame = createFrame(GRAY);
+        new VignetteFilter({ strength: 1, radius: 0.5, cornerRadius: 0.2 }).apply(frame);
+
+        expect(pixelAt(frame.target, 20, 20)).toEqual([128, 128, 128, 255]);
+        expect(pixelAt(frame.target, 0, 0)).toEqual([0, 0, 0, 255]);
+        const [edge] = pixelAt(frame.target, 20, 1);
+        expect(edge).toBeLessThan(128);
+        expect(edge).toBeGreaterThan(0);
+    });
+
+    test('should make bright pixels glow onto their surroundings', () => {
+        const frame = createFrame('#000000');
+        frame.target.fillStyle = '#ffffff';
+        frame.target.fillRect(18, 18, 4, 4);
+        new BloomFilter({ threshold: 0.5, intensity: 1, blur: 3 }).apply(frame);
+
+        expect(pixelAt(frame.target, 20, 20)).toEqual([255, 255, 255, 255]);
+        expect(pixelAt(frame.target, 24, 20)[0]).toBeGreaterThan(0);
+        expect(pixelAt(frame.target, 2, 2)).toEqual([0, 0, 0, 255]);
+    });
+
+    test('should not make pixels below the threshold glow', () => {
+        const frame = createFrame('#000000');
+        frame.target.fillStyle = '#404040';
+        frame.target.fillRect(18, 18, 4, 4);
+        new BloomFilter({ threshold: 0.5, intensity: 1, blur: 3 }).apply(frame);
+
+        expect(pixelAt(frame.target, 24, 20)).toEqual([0, 0, 0, 255]);
+        expect(pixelAt(frame.target, 20, 20)).toEqual([64, 64, 64, 255]);
+    });
+
+    test('should tint lit pixels within each cellophane band only', () => {
+        const frame = createFrame('#ffffff');
+        new CellophaneFilter({
+            bands: [
+                { top: 0, bottom: 0.25, color: '#ff0000' },
+                { top: 0.75, bottom: 1, color: '#00ff00' }
+            ]
+        }).apply(frame);
+
+        expect(pixelAt(frame.target, 20, 5)).toEqual([255, 0, 0, 255]);
+        expect(pixelAt(frame.target, 20, 20)).toEqual([255, 255, 255, 255]);
+        expect(pixelAt(frame.target, 20, 35)).toEqual([0, 255, 0, 255]);
+    });
+});
+
+describe('PostProcessor', () => {
+    let storage: Map<string, string>;
+
+    /**
+     * Runs a processor over a gray frame holding a bright block in its centre
+     */
+    const processFrame = (processor: PostProcessor): CanvasRenderingContext2D => {
+        const { target } = createFrame(GRAY);
+        target.fillStyle = '#ffffff';
+        target.fillRect(16, 16, 8, 8);
+        processor.apply(target, SIZE, SIZE);
+        return target;
+    };
+
+    const enabledFilters = (processor: PostProcessor): string[] =>
+        ['bloom', 'cellophane', 'scanlines', 'vignette'].filter(name => processor.getFilter(name)!.enabled);
+
+    beforeEach(() => {
+        storage = new Map();
+        (globalThis as { localStorage?: unknown }).localStorage = {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value)
+        };
+        (globalThis as { document?: unknown }).document = { createElement: () => createSoftwareCanvas(1, 1) };
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete (globalThis as { localStorage?: unknown }).localStorage;
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should leave the frame untouched with the clean preset', () => {
+        const processor = new PostProcessor();
+        const frame = processFrame(processor);
+
+        expect(processor.getPreset()).toBe('clean');
+        expect(processor.isActive()).toBe(false);
+        expect(pixelAt(frame, 2, 2)).toEqual([128, 128, 128, 255]);
+        expect(pixelAt(frame, 2, 39)).toEqual([128, 128, 128, 255]);
+    });
+
+    test('should tint the cellophane bands and bloom with the arcade preset', () => {
+        const processor = new PostProcessor('arcade');
+        const frame = processFrame(processor);
+
+        expect(enabledFilters(processor)).toEqual(['bloom', 'cellophane']);
+        expect(pixelAt(frame, 2, 5)).toEqual([128, 24, 24, 255]);
+        expect(pixelAt(frame, 2, 20)).toEqual([128, 128, 128, 255]);
+        expect(pixelAt(frame, 2, 35)).toEqual([24, 128, 40, 255]);
+        expect(pixelAt(frame, 25, 20)[0]).toBeGreaterThan(128);
+    });
+
+    test('should draw scanlines, vignette and bloom with the crt preset', () => {
+        const processor = new PostProcessor('crt');
+        const frame = processFrame(processor);
+
+        expect(enabledFilters(processor)).toEqual(['bloom', 'scanlines', 'vignette']);
+        expect(pixelAt(frame, 0, 0)[0]).toBeLessThan(16);
+        const [scanline] = pixelAt(frame, 10, 12);
+        const [between] = pixelAt(frame, 10, 13);
+        expect(scanline).toBeLessThan(between);
+        expect(pixelAt(frame, 20, 1)[0]).toBeLessThan(128);
+    });
+
+    test('should save the chosen preset and restore it in the next session', () => {
+        new PostProcessor().usePreset('crt');
+
+        expect(storage.get('postProcessPreset')).toBe('crt');
+        expect(new PostProcessor().getPreset()).toBe('crt');
+    });
+
+    test('should reject inherited object keys as presets, saved or requested', () => {
+        storage.set('postProcessPreset', 'constructor');
+        const processor = new PostProcessor('arcade');
+
+        expect(processor.getPreset()).toBe('arcade');
+        expect(() => processor.usePreset('toString' as PostProcessPreset)).toThrow("Unknown post-process preset 'toString'");
+        expect(processor.getPreset()).toBe('arcade');
+    });
+
+    test('should bypass every filter on tiers without screen effects', () => {
+        const processor = new PostProcessor('crt');
+
+        const active = Object.values(QualityTier).map(tier => {
+            processor.applyQuality(QUALITY_PRESETS[tier]);
+            return [tier, processor.isActive()];
+        });
+        expect(active).toEqual([
+            [QualityTier.HIGH, true],
+            [QualityTier.MEDIUM, true],
+            [QualityTier.LOW, false],
+            [QualityTier.MINIMAL, false]
+        ]);
+
+        const frame = processFrame(processor);
+        expect(pixelAt(frame, 0, 0)).toEqual([128, 128, 128, 255]);
+        expect(pixelAt(frame, 25, 20)).toEqual([128, 128, 128, 255]);
+
+        processor.applyQuality(QUALITY_PRESETS[QualityTier.HIGH]);
+        expect(pixelAt(processFrame(processor), 0, 0)[0]).toBeLessThan(16);
+    });
+
+    test('should keep running the other filters when one throws', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const processor = new PostProcessor('crt');
+        jest.spyOn(processor.getFilter<BloomFilter>('bloom')!, 'apply').mockImplementation(() => {
+            throw new Error('broken');
+        });
+
+        const frame = processFrame(processor);
+
+        expect(console.error).toHaveBeenCalledWith("Error in post-process filter 'bloom':", expect.any(Error));
+        expect(pixelAt(frame, 0, 0)[0]).toBeLessThan(16);
+    });
+});
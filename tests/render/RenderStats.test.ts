@@ -0,0 +1,109 @@
+/**
+ * @file RenderStats.test.ts
+ * @description Tests for render counters, their rolling history and the sparkline overlay
+ * @module tests/render
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { ManualClock } from '../../src/engine/Clock';
+import { FrameDebugger } from '../../src/engine/FrameDebugger';
+import { GameLoop } from '../../src/engine/GameLoop';
+import { RenderStats } from '../../src/render/RenderStats';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+describe('RenderStats', () => {
+    let time: number;
+    let stats: RenderStats;
+
+    /**
+     * Records one frame with the given sprite count, each sprite covering 10x10 pixels
+     */
+    const recordFrame = (sprites: number, cpuTime: number) => {
+        stats.beginFrame();
+        for (let i = 0; i < sprites; i++) {
+            stats.incrementSpriteCount(100);
+        }
+        stats.incrementBatchCount();
+        time += cpuTime;
+        stats.endFrame();
+    };
+
+    beforeEach(() => {
+        time = 0;
+        stats = new RenderStats(3, () => time);
+        stats.setScreenSize(20, 20);
+    });
+
+    test('should time frames and estimate overdraw from sprite area', () => {
+        recordFrame(8, 4);
+
+        const frame = stats.getLastFrame();
+        expect(frame.sprites).toBe(8);
+        expect(frame.batches).toBe(1);
+        expect(frame.cpuTime).toBe(4);
+        expect(frame.overdraw).toBe(2);
+        expect(stats.getOverdraw()).toBe(2);
+    });
+
+    test('should roll the history over and average the frames it keeps', () => {
+        recordFrame(4, 1);
+        recordFrame(8, 2);
+        recordFrame(12, 3);
+        recordFrame(16, 4);
+
+        expect(stats.getFrameCount()).toBe(4);
+        expect(stats.getHistory().map(frame => frame.sprites)).toEqual([8, 12, 16]);
+
+        const average = stats.getAverage();
+        expect(average.sprites).toBe(12);
+        expect(average.cpuTime).toBe(3);
+        expect(average.overdraw).toBe(3);
+    });
+
+    test('should ignore endFrame without a matching beginFrame', () => {
+        recordFrame(4, 1);
+        stats.endFrame();
+
+        expect(stats.getFrameCount()).toBe(1);
+    });
+
+    describe('Overlay', () => {
+        let fakeWindow: EventTarget;
+
+        beforeEach(() => {
+            fakeWindow = new EventTarget();
+            (globalThis as { window?: unknown }).window = fakeWindow;
+        });
+
+        afterEach(() => {
+            delete (globalThis as { window?: unknown }).window;
+        });
+
+        test('should be toggled by the frame debugger hotkey and drawn in its overlay', () => {
+            const loop = new GameLoop({ update: () => undefined, render: () => undefined }, { clock: new ManualClock() });
+            const debug = new FrameDebugger(loop);
+            debug.setRenderStats(stats);
+            debug.attach();
+            recordFrame(4, 1);
+            recordFrame(8, 2);
+
+            const canvas = createSoftwareCanvas(200, 160);
+            const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+            const alphaAt = (x: number, y: number) => ctx.getImageData(x, y, 1, 1).data[3];
+
+            debug.renderOverlay(ctx);
+            expect(alphaAt(10, 10)).toBe(0);
+
+            const key = new Event('keydown', { cancelable: true });
+            Object.assign(key, { key: 'F10' });
+            fakeWindow.dispatchEvent(key);
+
+            expect(key.defaultPrevented).toBe(true);
+            expect(stats.isOverlayVisible()).toBe(true);
+            debug.renderOverlay(ctx);
+            expect(alphaAt(10, 10)).toBeGreaterThan(0);
+
+            debug.detach();
+        });
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * @file WebGLBackend.test.ts
+ * @description Tests for the WebGL backend's batch submission against a recording WebGL
+ * context, and for loading it on demand through Renderer.create
+ * @module tests/render
+ */
+
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Renderer } from '../../src/render/Renderer';
+import { Sprite } from '../../src/engine/Sprite';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+
+/**
+ * A WebGL call recorded by the fake context
+ */
+interface GLCall {
+    name: string;
+    args: unknown[];
+}
+
+/**
+ * Creates a canvas whose WebGL context records every call. Constants read as their own
+ * names, so recorded calls show e.g. 'TRIANGLES' rather than a number.
+ */
+function createRecordingCanvas(): { canvas: HTMLCanvasElement; calls: GLCall[] } {
+    const calls: GLCall[] = [];
+    const results: Record<string, (...args: unknown[]) => unknown> = {
+        createProgram: () => ({}),
+        createShader: () => ({}),
+        createBuffer: () => ({}),
+        createTexture: () => ({}),
+        getUniformLocation: () => ({}),
+        getAttribLocation: () => 0,
+        getShaderParameter: () => true,
+        getProgramParameter: () => true
+    };
+    const gl = new Proxy({}, {
+        get: (_target, name: string) => {
+            if (/^[A-Z0-9_]+$/.test(name)) {
+                return name;
+            }
+            return (...args: unknown[]) => {
+                calls.push({ name, args });
+                return results[name]?.(...args);
+            };
+        }
+    });
+    const canvas = {
+        width: 0,
+        height: 0,
+        getContext: (type: string) => (type === 'webgl' ? gl : null)
+    };
+    return { canvas: canvas as unknown as HTMLCanvasElement, calls };
+}
+
+/**
+ * Creates an 8x8 sprite drawn from its own texture
+ */
+function createSprite(textureKey: string): Sprite {
+    return new Sprite({ image: createSoftwareCanvas(8, 8), textureKey, width: 8, height: 8 });
+}
+
+describe('WebGLBackend', () => {
+    let canvas: HTMLCanvasElement;
+    let calls: GLCall[];
+
+    const callsTo = (name: string) => calls.filter(call => call.name === name);
+
+    beforeEach(() => {
+        ({ canvas, calls } = createRecordingCanvas());
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should be loaded on demand by Renderer.create', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(() => new Renderer(canvas, WIDTH, HEIGHT, { backend: 'webgl' })).toThrow('Renderer initialization failed');
+
+        const renderer = await Renderer.create(canvas, WIDTH, HEIGHT, { backend: 'webgl' });
+
+        expect(renderer.getBackendType()).toBe('webgl');
+        expect(canvas.width).toBe(WIDTH);
+        expect(callsTo('uniform2f').pop()?.args.slice(1)).toEqual([WIDTH, HEIGHT]);
+    });
+
+    test('should draw one batch per texture and upload each texture once', async () => {
+        const renderer = await Renderer.create(canvas, WIDTH, HEIGHT, { backend: 'webgl' });
+        const ship = createSprite('ship');
+        const bullet = createSprite('bullet');
+
+        for (let frame = 0; frame < 2; frame++) {
+            renderer.beginBatch();
+            renderer.drawSprite(ship, 0, 0);
+            renderer.drawSprite(bullet, 10, 10);
+            renderer.drawSprite(ship, 20, 0);
+            renderer.endBatch();
+        }
+
+        const draws = callsTo('drawElements').map(call => call.args);
+        expect(draws).toEqual([
+            ['TRIANGLES', 6, 'UNSIGNED_SHORT', 0],
+            ['TRIANGLES', 12, 'UNSIGNED_SHORT', 0],
+            ['TRIANGLES', 6, 'UNSIGNED_SHORT', 0],
+            ['TRIANGLES', 12, 'UNSIGNED_SHORT', 0]
+        ]);
+        expect(callsTo('texImage2D')).toHaveLength(2);
+        expect(renderer.getStats().getLastFrame().batches).toBe(2);
+    });
+
+    test('should upload each sprite\'s alpha and tint with its vertices', async () => {
+        const renderer = await Renderer.create(canvas, WIDTH, HEIGHT, { backend: 'webgl' });
+
+        renderer.beginBatch();
+        renderer.drawSprite(createSprite('ship'), 0, 0, { alpha: 0.5, tint: '#0000ff', tintAmount: 0.25 });
+        renderer.endBatch();
+
+        const [upload] = callsTo('bufferSubData');
+        const vertices = upload.args[2] as Float32Array;
+        expect(Array.from(vertices.subarray(4, 9))).toEqual([0, 0, 1, 0.25, 0.5]);
+    });
+});
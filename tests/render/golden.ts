@@ -0,0 +1,113 @@
+/**
+ * @file golden.ts
+ * @description Golden-image helpers for headless rendering tests. Scenes are rendered through
+ * the Canvas 2D backend onto a software canvas (@napi-rs/canvas), then compared pixel by pixel
+ * against PNGs stored in __goldens__. Set UPDATE_GOLDENS=1 to (re)write the goldens; on a
+ * mismatch the actual frame and a diff image are written to __diff__.
+ * @module tests/render
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Canvas as SoftwareCanvas, createCanvas, loadImage } from '@napi-rs/canvas';
+
+const GOLDEN_DIR = path.join(__dirname, '__goldens__');
+const DIFF_DIR = path.join(__dirname, '__diff__');
+
+/**
+ * How different a frame may be from its golden
+ */
+export interface GoldenTolerance {
+    /** Largest per-channel difference (0-255) for a pixel to still count as equal */
+    channel: number;
+    /** Fraction of pixels allowed to differ */
+    pixelRatio: number;
+}
+
+export interface GoldenResult {
+    pass: boolean;
+    message: string;
+}
+
+const DEFAULT_TOLERANCE: GoldenTolerance = {
+    channel: 8,
+    pixelRatio: 0.001
+};
+
+/**
+ * Compares a rendered canvas against its golden PNG
+ * @param name Golden file name without extension
+ * @param canvas Rendered frame
+ * @param tolerance Allowed differences
+ */
+export async function compareToGolden(
+    name: string,
+    canvas: HTMLCanvasElement,
+    tolerance: Partial<GoldenTolerance> = {}
+): Promise<GoldenResult> {
+    const { channel, pixelRatio } = { ...DEFAULT_TOLERANCE, ...tolerance };
+    const actual = canvas as unknown as SoftwareCanvas;
+    const goldenPath = path.join(GOLDEN_DIR, `${name}.png`);
+
+    if (process.env.UPDATE_GOLDENS) {
+        fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+        fs.writeFileSync(goldenPath, actual.toBuffer('image/png'));
+        return { pass: true, message: `Wrote golden ${goldenPath}` };
+    }
+
+    if (!fs.existsSync(goldenPath)) {
+        return { pass: false, message: `Missing golden ${goldenPath}; run with UPDATE_GOLDENS=1 to create it` };
+    }
+
+    const golden = await loadImage(fs.readFileSync(goldenPath));
+    const { width, height } = actual;
+    if (golden.width !== width || golden.height !== height) {
+        return {
+            pass: false,
+            message: `Size mismatch for ${name}: expected ${golden.width}x${golden.height}, got ${width}x${height}`
+        };
+    }
+
+    const goldenCanvas = createCanvas(width, height);
+    const goldenContext = goldenCanvas.getContext('2d');
+    goldenContext.drawImage(golden, 0, 0);
+    const expectedPixels = goldenContext.getImageData(0, 0, width, height).data;
+    const actualPixels = actual.getContext('2d').getImageData(0, 0, width, height).data;
+
+    // Mismatches in red over a faded copy of the golden
+    const diffCanvas = createCanvas(width, height);
+    const diffContext = diffCanvas.getContext('2d');
+    const diffImage = diffContext.createImageData(width, height);
+    let differing = 0;
+
+    for (let i = 0; i < actualPixels.length; i += 4) {
+        let largest = 0;
+        for (let c = 0; c < 4; c++) {
+            largest = Math.max(largest, Math.abs(actualPixels[i + c] - expectedPixels[i + c]));
+        }
+
+        if (largest > channel) {
+            differing++;
+            diffImage.data.set([255, 0, 0, 255], i);
+        } else {
+            const gray = (expectedPixels[i] + expectedPixels[i + 1] + expectedPixels[i + 2]) / 12;
+            diffImage.data.set([gray, gray, gray, 255], i);
+        }
+    }
+
+    const ratio = differing / (width * height);
+    if (ratio <= pixelRatio) {
+        return { pass: true, message: `${name} matches its golden (${differing} pixels differ)` };
+    }
+
+    diffContext.putImageData(diffImage, 0, 0);
+    fs.mkdirSync(DIFF_DIR, { recursive: true });
+    const diffPath = path.join(DIFF_DIR, `${name}.diff.png`);
+    fs.writeFileSync(diffPath, diffCanvas.toBuffer('image/png'));
+    fs.writeFileSync(path.join(DIFF_DIR, `${name}.actual.png`), actual.toBuffer('image/png'));
+
+    return {
+        pass: false,
+        message: `${name} differs from its golden in ${differing} pixels (${(ratio * 100).toFixed(2)}%); see ${diffPath}`
+    };
+}
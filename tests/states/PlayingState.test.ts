@@ -0,0 +1,134 @@
+/**
+ * @file PlayingState.test.ts
+ * @description Tests for drawing a game in progress blended between fixed updates and for
+ * taking hits from the game's collision world
+ * @module tests/states
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { GameStateManager, GameStateType, PlayingState } from '../../src/states/GameStates';
+import { EnemyType } from '../../src/data/WaveConfigs';
+import { createEnemySprite } from '../../src/data/InvaderBitmaps';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const FIXED_STEP = 1000 / 60;
+/** Top-left corner of the player ship when a game starts */
+const START_X = 380;
+const START_Y = 540;
+
+describe('PlayingState', () => {
+    let fakeWindow: EventTarget;
+    let states: GameStateManager;
+    let ctx: CanvasRenderingContext2D;
+
+    const sendKey = (type: 'keydown' | 'keyup', key: string) => {
+        const event = new Event(type);
+        Object.assign(event, { key });
+        fakeWindow.dispatchEvent(event);
+    };
+    const pressKey = (key: string) => sendKey('keydown', key);
+
+    /**
+     * Renders a frame and finds the leftmost opaque column in the player's rows
+     */
+    const renderLeftEdge = (interpolation: number): number => {
+        ctx.clearRect(0, 0, WIDTH, HEIGHT);
+        states.render(interpolation);
+
+        const { data } = ctx.getImageData(0, START_Y, WIDTH, HEIGHT - START_Y);
+        let left = WIDTH;
+        for (let i = 3; i < data.length; i += 4) {
+            if (data[i] === 255) {
+                left = Math.min(left, ((i - 3) / 4) % WIDTH);
+            }
+        }
+        return left;
+    };
+
+    beforeEach(() => {
+        fakeWindow = new EventTarget();
+        (globalThis as { window?: unknown }).window = fakeWindow;
+        (globalThis as { document?: unknown }).document = { createElement: () => createSoftwareCanvas(1, 1) };
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        ctx = createSoftwareCanvas(WIDTH, HEIGHT).getContext('2d')!;
+        states = new GameStateManager();
+        states.setRenderContext(ctx);
+        states.changeState(GameStateType.PLAYING);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete (globalThis as { window?: unknown }).window;
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should draw the player blended between its previous and current fixed updates', () => {
+        pressKey('ArrowRight');
+        states.update(FIXED_STEP);
+
+        expect(renderLeftEdge(0)).toBe(START_X);
+        expect(renderLeftEdge(0.4)).toBe(START_X + 2);
+        expect(renderLeftEdge(1)).toBe(START_X + 5);
+    });
+
+    test('should draw a paused game as of its last fixed update', () => {
+        pressKey('ArrowRight');
+        states.update(FIXED_STEP);
+        states.changeState(GameStateType.PAUSED);
+
+        expect(renderLeftEdge(0.4)).toBe(START_X + 5);
+    });
+
+    test('should register the player, enemies and shots with the world and release them when the game ends', () => {
+        const playing = states.getState(GameStateType.PLAYING) as PlayingState;
+        const world = playing.getWorld();
+        expect(world.getBodyCount()).toBe(1);
+
+        states.update(FIXED_STEP);
+        expect(playing.getEnemies()).toHaveLength(2);
+        pressKey(' ');
+        expect(world.getBodyCount()).toBe(4);
+
+        playing.exit(GameStateType.GAME_OVER);
+        expect(world.getBodyCount()).toBe(0);
+        expect(playing.getEnemies()).toEqual([]);
+    });
+
+    test('should step the world once per fixed update and destroy enemies its shots hit', () => {
+        const playing = states.getState(GameStateType.PLAYING) as PlayingState;
+        const step = jest.spyOn(playing.getWorld(), 'step');
+        const enemyWidth = createEnemySprite(EnemyType.BASIC).getDimensions().width;
+        let updates = 0;
+        const update = () => {
+            states.update(FIXED_STEP);
+            updates++;
+        };
+
+        update();
+        const [target] = playing.getEnemies();
+        const player = playing.getPlayer()!;
+        const offset = () => {
+            const ship = player.getBounds();
+            return target.getPosition().x + enemyWidth / 2 - (ship.x + ship.width / 2);
+        };
+
+        // Line up under the enemy, then fire one shot
+        while (Math.abs(offset()) > 5) {
+            pressKey(offset() < 0 ? 'ArrowLeft' : 'ArrowRight');
+            update();
+            sendKey('keyup', 'ArrowLeft');
+            sendKey('keyup', 'ArrowRight');
+        }
+        pressKey(' ');
+        while (playing.getEnemies().includes(target) && updates < 200) {
+            update();
+        }
+
+        expect(playing.getEnemies()).not.toContain(target);
+        expect(target.isDestroyedState()).toBe(true);
+        expect(step).toHaveBeenCalledTimes(updates);
+    });
+});
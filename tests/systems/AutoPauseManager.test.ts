@@ -0,0 +1,130 @@
+/**
+ * @file AutoPauseManager.test.ts
+ * @description Tests for pausing on visibility loss, the resume prompt and tearing down while paused
+ * @module tests/systems
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { AudioManager } from '../../src/audio/AudioManager';
+import { AutoPauseManager } from '../../src/systems/AutoPauseManager';
+import { GameStateManager, GameStateType } from '../../src/systems/GameStateManager';
+
+/**
+ * Minimal element standing in for the resume prompt
+ */
+class FakeElement extends EventTarget {
+    public id = '';
+    public textContent = '';
+    public style: Record<string, string> = {};
+    public removed = false;
+
+    public remove(): void {
+        this.removed = true;
+    }
+}
+
+interface FakeDocument extends EventTarget {
+    visibilityState: 'visible' | 'hidden';
+    body: { appendChild: (element: FakeElement) => void };
+    createElement: () => FakeElement;
+}
+
+describe('AutoPauseManager', () => {
+    let fakeDocument: FakeDocument;
+    let fakeWindow: EventTarget;
+    let prompts: FakeElement[];
+    let state: GameStateType;
+    let audio: { suspend: jest.Mock; resume: jest.Mock };
+    let manager: AutoPauseManager;
+
+    const setVisibility = (visibilityState: 'visible' | 'hidden') => {
+        fakeDocument.visibilityState = visibilityState;
+        fakeDocument.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    const pressKey = (key: string): Event => {
+        const event = new Event('keydown', { cancelable: true });
+        Object.assign(event, { key });
+        fakeWindow.dispatchEvent(event);
+        return event;
+    };
+
+    beforeEach(() => {
+        prompts = [];
+        fakeWindow = new EventTarget();
+        fakeDocument = Object.assign(new EventTarget(), {
+            visibilityState: 'visible' as const,
+            body: { appendChild: (element: FakeElement) => { prompts.push(element); } },
+            createElement: () => new FakeElement()
+        });
+        (globalThis as { window?: unknown }).window = fakeWindow;
+        (globalThis as { document?: unknown }).document = fakeDocument;
+
+        state = GameStateType.PLAYING;
+        const stateManager = {
+            getCurrentStateType: () => state,
+            transitionTo: (next: GameStateType) => { state = next; }
+        };
+        audio = {
+            suspend: jest.fn(async () => undefined),
+            resume: jest.fn(async () => undefined)
+        };
+
+        manager = new AutoPauseManager({
+            stateManager: stateManager as unknown as GameStateManager,
+            audioManager: audio as unknown as AudioManager
+        });
+        manager.attach();
+    });
+
+    afterEach(() => {
+        delete (globalThis as { window?: unknown }).window;
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should pause when hidden and wait for the resume key before playing again', () => {
+        setVisibility('hidden');
+        expect(state).toBe(GameStateType.PAUSED);
+        expect(audio.suspend).toHaveBeenCalledTimes(1);
+
+        setVisibility('visible');
+        expect(prompts).toHaveLength(1);
+        expect(state).toBe(GameStateType.PAUSED);
+
+        const other = pressKey('ArrowLeft');
+        expect(other.defaultPrevented).toBe(false);
+        expect(state).toBe(GameStateType.PAUSED);
+
+        const enter = pressKey('Enter');
+        expect(enter.defaultPrevented).toBe(true);
+        expect(state).toBe(GameStateType.PLAYING);
+        expect(prompts[0].removed).toBe(true);
+        expect(audio.resume).toHaveBeenCalledTimes(1);
+    });
+
+    test('should hand the game back when detached while paused', () => {
+        setVisibility('hidden');
+        setVisibility('visible');
+        expect(manager.isAwaitingResume()).toBe(true);
+
+        manager.detach();
+
+        expect(state).toBe(GameStateType.PLAYING);
+        expect(manager.isAwaitingResume()).toBe(false);
+        expect(prompts[0].removed).toBe(true);
+        expect(audio.resume).toHaveBeenCalledTimes(1);
+        expect(pressKey('Enter').defaultPrevented).toBe(false);
+    });
+
+    test('should resume when disabled while the tab is still hidden', () => {
+        setVisibility('hidden');
+
+        manager.setEnabled(false);
+
+        expect(state).toBe(GameStateType.PLAYING);
+        expect(audio.resume).toHaveBeenCalledTimes(1);
+
+        setVisibility('hidden');
+        expect(state).toBe(GameStateType.PLAYING);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * @file QualityManager.test.ts
+ * @description Tests for adaptive quality tiers, pinning and trail toggling
+ * @module tests/systems
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ManualClock } from '../../src/engine/Clock';
+import { ParticleEmitter } from '../../src/effects/Emitter';
+import { QualityTier } from '../../src/data/QualityConfig';
+import { QualityManager } from '../../src/systems/QualityManager';
+
+/**
+ * Records strokes and fills issued while rendering particles
+ */
+const createRecordingContext = () => {
+    const calls = { stroke: 0, fill: 0 };
+    const ctx = {
+        globalAlpha: 1,
+        fillStyle: '',
+        strokeStyle: '',
+        lineWidth: 1,
+        lineCap: 'butt',
+        beginPath: () => undefined,
+        moveTo: () => undefined,
+        lineTo: () => undefined,
+        arc: () => undefined,
+        stroke: () => { calls.stroke++; },
+        fill: () => { calls.fill++; }
+    };
+    return { calls, ctx: ctx as unknown as CanvasRenderingContext2D };
+};
+
+describe('QualityManager', () => {
+    let clock: ManualClock;
+    let storage: Map<string, string>;
+
+    beforeEach(() => {
+        clock = new ManualClock();
+        storage = new Map();
+        (globalThis as { localStorage?: unknown }).localStorage = {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => { storage.set(key, value); },
+            removeItem: (key: string) => { storage.delete(key); }
+        };
+    });
+
+    afterEach(() => {
+        delete (globalThis as { localStorage?: unknown }).localStorage;
+    });
+
+    test('should step down after repeated bad signals and back up once stable', () => {
+        const manager = new QualityManager({ upgradeStableTime: 1000, changeCooldown: 500 }, clock);
+
+        manager.reportPanic();
+        expect(manager.getTier()).toBe(QualityTier.HIGH);
+        manager.reportFps(30);
+        expect(manager.getTier()).toBe(QualityTier.MEDIUM);
+
+        clock.advance(600);
+        manager.reportFps(60);
+        clock.advance(1000);
+        manager.reportFps(60);
+        expect(manager.getTier()).toBe(QualityTier.HIGH);
+    });
+
+    test('should hold a pinned tier and persist it', () => {
+        const manager = new QualityManager({}, clock);
+        manager.setPinnedTier(QualityTier.LOW);
+
+        manager.reportPanic();
+        manager.reportPanic();
+
+        expect(manager.getTier()).toBe(QualityTier.LOW);
+        expect(storage.get('qualityTier')).toBe(QualityTier.LOW);
+        expect(new QualityManager({}, clock).getTier()).toBe(QualityTier.LOW);
+    });
+
+    test('should reject unknown tiers', () => {
+        expect(() => new QualityManager({ initialTier: 'ULTRA' as QualityTier }, clock)).toThrow('ULTRA');
+
+        const manager = new QualityManager({}, clock);
+        expect(() => manager.setPinnedTier('ULTRA' as QualityTier)).toThrow('ULTRA');
+        expect(manager.getTier()).toBe(QualityTier.HIGH);
+        expect(manager.getPinnedTier()).toBeNull();
+    });
+
+    test('should only draw particle trails once a tier allowing them is applied', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(1000);
+        const emitter = new ParticleEmitter({
+            maxParticles: 10,
+            emissionRate: 10,
+            position: { x: 0, y: 0 },
+            spread: 1
+        });
+        emitter.start();
+        emitter.update(16);
+
+        const unmanaged = createRecordingContext();
+        emitter.render(unmanaged.ctx);
+        expect(unmanaged.calls.stroke).toBe(0);
+
+        const manager = new QualityManager({}, clock);
+        manager.addTarget(emitter);
+
+        const high = createRecordingContext();
+        emitter.render(high.ctx);
+        expect(high.calls.stroke).toBe(1);
+
+        manager.setPinnedTier(QualityTier.LOW);
+        const low = createRecordingContext();
+        emitter.render(low.ctx);
+        expect(low.calls.stroke).toBe(0);
+        expect(low.calls.fill).toBe(1);
+
+        jest.restoreAllMocks();
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * @file WaveManager.test.ts
+ * @description Tests for wave spawning on game time and for freezing wave timers while paused
+ * @module tests/systems
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { GameScheduler } from '../../src/engine/Scheduler';
+import { WaveManager } from '../../src/systems/WaveManager';
+import { GameStateManager, GameStateType, PlayingState } from '../../src/states/GameStates';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+describe('WaveManager', () => {
+    let scheduler: GameScheduler;
+    let manager: WaveManager;
+    let spawned: string[];
+
+    beforeEach(() => {
+        scheduler = new GameScheduler();
+        manager = new WaveManager(undefined, scheduler);
+        spawned = [];
+        manager.onEnemySpawned(type => spawned.push(type));
+    });
+
+    test('should spawn the first wave as its scheduler advances', () => {
+        manager.start();
+        expect(spawned).toEqual([]);
+
+        scheduler.tick(16);
+        expect(spawned).toEqual(['basic', 'fast']);
+
+        scheduler.tick(1984);
+        expect(spawned).toEqual(['basic', 'fast', 'basic', 'fast', 'basic']);
+        expect(manager.getCurrentWave()).toBe(1);
+    });
+
+    test('should hold spawns while paused and continue them once resumed', () => {
+        manager.start();
+        scheduler.tick(16);
+
+        manager.pause();
+        scheduler.tick(5000);
+        expect(spawned).toHaveLength(2);
+        expect(manager.isPaused()).toBe(true);
+
+        manager.resume();
+        scheduler.tick(983);
+        expect(spawned).toHaveLength(2);
+        scheduler.tick(1);
+        expect(spawned).toHaveLength(3);
+    });
+
+    test('should cancel pending spawns when stopped', () => {
+        manager.start();
+        manager.stop();
+        scheduler.tick(20000);
+
+        expect(spawned).toEqual([]);
+        expect(scheduler.getPendingCount()).toBe(0);
+    });
+
+    test('should only tick a scheduler it owns', () => {
+        manager.start();
+        manager.update(1000);
+
+        expect(spawned).toEqual([]);
+    });
+});
+
+describe('Wave timers across the playing and paused states', () => {
+    let states: GameStateManager;
+    let spawned: string[];
+
+    let playing: PlayingState;
+
+    beforeEach(() => {
+        // The game's player listens on the window and rasterises its sprite through the document
+        (globalThis as { window?: unknown }).window = new EventTarget();
+        (globalThis as { document?: unknown }).document = { createElement: () => createSoftwareCanvas(1, 1) };
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        states = new GameStateManager();
+        states.changeState(GameStateType.PLAYING);
+
+        playing = states.getState(GameStateType.PLAYING) as PlayingState;
+        spawned = [];
+        playing.getWaveManager().onEnemySpawned(type => spawned.push(type));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete (globalThis as { window?: unknown }).window;
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should spawn enemies from state manager updates while playing', () => {
+        states.update(16);
+        expect(spawned).toHaveLength(2);
+
+        states.update(1000);
+        expect(spawned).toHaveLength(3);
+    });
+
+    test('should hold off spawns while paused and continue them after resuming', () => {
+        states.update(16);
+        states.changeState(GameStateType.PAUSED);
+
+        for (let i = 0; i < 10; i++) {
+            states.update(1000);
+        }
+        expect(spawned).toHaveLength(2);
+
+        states.changeState(GameStateType.PLAYING);
+        states.update(983);
+        expect(spawned).toHaveLength(2);
+        states.update(1);
+        expect(spawned).toHaveLength(3);
+    });
+
+    test('should end the game\'s wave timers when play moves on', () => {
+        playing.exit(GameStateType.GAME_OVER);
+        states.update(20000);
+
+        expect(spawned).toEqual([]);
+        expect(states.getScheduler().getPendingCount()).toBe(0);
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * @file HudLayer.test.ts
+ * @description Tests for redrawing the HUD layer only when the score changes
+ * @module tests/ui
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Canvas } from '../../src/engine/Canvas';
+import { CANVAS_LAYERS, LayerClearPolicy } from '../../src/engine/CanvasLayer';
+import { ScoreManager } from '../../src/managers/ScoreManager';
+import { HudLayer } from '../../src/ui/HudLayer';
+import { createSoftwareCanvas } from '../helpers/softwareCanvas';
+
+/**
+ * Creates a software canvas with the element members Canvas uses
+ */
+function createCanvasElement(): HTMLCanvasElement {
+    return Object.assign(createSoftwareCanvas(1, 1), {
+        id: '',
+        style: {} as Record<string, string>,
+        remove: () => undefined,
+        getBoundingClientRect: () => ({ left: 0, top: 0, width: 0, height: 0 })
+    }) as unknown as HTMLCanvasElement;
+}
+
+describe('HudLayer', () => {
+    let canvas: Canvas;
+    let scores: ScoreManager;
+    let hud: HudLayer;
+    let drawnText: string[];
+
+    beforeEach(() => {
+        (globalThis as { window?: unknown }).window = Object.assign(new EventTarget(), {
+            innerWidth: 800,
+            innerHeight: 600,
+            devicePixelRatio: 1
+        });
+        (globalThis as { document?: unknown }).document = {
+            body: { appendChild: () => undefined },
+            createElement: createCanvasElement
+        };
+
+        canvas = new Canvas({
+            layers: [{ name: CANVAS_LAYERS.HUD, zIndex: 30, clearPolicy: LayerClearPolicy.DIRTY, useCamera: false }]
+        });
+        canvas.init();
+
+        scores = ScoreManager.getInstance();
+        scores.resetScore();
+        hud = new HudLayer(canvas, scores);
+        hud.attach();
+
+        drawnText = [];
+        const context = canvas.getLayer(CANVAS_LAYERS.HUD)!.getContext();
+        const fillText = context.fillText.bind(context);
+        jest.spyOn(context, 'fillText').mockImplementation((text, x, y) => {
+            drawnText.push(text);
+            fillText(text, x, y);
+        });
+    });
+
+    afterEach(() => {
+        hud.detach();
+        canvas.dispose();
+        jest.restoreAllMocks();
+        delete (globalThis as { window?: unknown }).window;
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    test('should draw the score once and skip frames where it is unchanged', () => {
+        canvas.render();
+        canvas.render();
+        canvas.render();
+
+        expect(drawnText).toEqual(['SCORE 000000']);
+    });
+
+    test('should redraw on the frame after the score changes', () => {
+        canvas.render();
+
+        scores.updateScore(150);
+        canvas.render();
+        canvas.render();
+
+        expect(drawnText).toEqual(['SCORE 000000', 'SCORE 000150']);
+    });
+
+    test('should not redraw for score updates that leave the score unchanged', () => {
+        canvas.render();
+
+        scores.updateScore(0);
+        canvas.render();
+
+        expect(drawnText).toEqual(['SCORE 000000']);
+    });
+
+    test('should stop redrawing for score changes once detached', () => {
+        canvas.render();
+        hud.detach();
+
+        scores.updateScore(10);
+        canvas.render();
+
+        expect(drawnText).toEqual(['SCORE 000000']);
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * @file Performance.test.ts
+ * @description Test suite for the frame profiler's phase timing, nesting and ring buffer
+ * @module tests/utils
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { FrameProfiler } from '../../src/utils/Performance';
+
+describe('FrameProfiler', () => {
+    let time: number;
+    let profiler: FrameProfiler;
+
+    const advance = (ms: number) => {
+        time += ms;
+    };
+
+    beforeEach(() => {
+        time = 0;
+        profiler = new FrameProfiler(3, () => time);
+    });
+
+    test('should report nested phases as self time so totals add up to the frame', () => {
+        profiler.beginFrame();
+        profiler.measure('update', () => {
+            advance(2);
+            profiler.measure('movement', () => advance(3));
+            profiler.measure('collisions', () => {
+                advance(5);
+                profiler.record('narrowphase', 4);
+            });
+            advance(1);
+        });
+        profiler.measure('render', () => advance(5));
+        profiler.endFrame();
+
+        const [frame] = profiler.getFrames();
+        expect(frame.phases).toEqual({ update: 3, movement: 3, collisions: 1, narrowphase: 4, render: 5 });
+        expect(frame.total).toBe(16);
+    });
+
+    test('should close a measured phase when its function throws', () => {
+        profiler.beginFrame();
+        expect(() => profiler.measure('collisions', () => {
+            advance(2);
+            throw new Error('listener failed');
+        })).toThrow('listener failed');
+        profiler.measure('render', () => advance(4));
+        profiler.endFrame();
+
+        const [frame] = profiler.getFrames();
+        expect(frame.phases).toEqual({ collisions: 2, render: 4 });
+    });
+
+    test('should end phases left open inside the phase being ended', () => {
+        profiler.beginFrame();
+        profiler.begin('update');
+        advance(1);
+        profiler.begin('collisions');
+        advance(2);
+        profiler.end('update');
+        profiler.end('collisions');
+        profiler.endFrame();
+
+        expect(profiler.getFrames()[0].phases).toEqual({ update: 1, collisions: 2 });
+    });
+
+    test('should keep only the most recent frames and compute stats over them', () => {
+        for (let i = 1; i <= 4; i++) {
+            profiler.beginFrame();
+            profiler.measure('update', () => advance(i));
+            profiler.endFrame();
+        }
+
+        expect(profiler.getFrames().map(frame => frame.frame)).toEqual([1, 2, 3]);
+        const stats = profiler.getPhaseStats('update');
+        expect(stats.samples).toBe(3);
+        expect(stats.mean).toBe(3);
+        expect(stats.max).toBe(4);
+    });
+});